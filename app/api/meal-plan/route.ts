@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../lib/apiResponses';
+import { MAX_MEALS_PER_DAY, MAX_PLAN_DAYS } from '../../lib/mealPlan';
+import { generateMealPlan } from '../../lib/recipes';
+import { parseRecipeOptions } from '../../lib/recipeOptions';
+
+export async function POST(request: Request) {
+  let body: { ingredients?: unknown; options?: unknown; days?: unknown; mealsPerDay?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  if (typeof body.ingredients !== 'string' || !body.ingredients.trim()) {
+    return invalidInput('Where are the ingredients at, bro?');
+  }
+
+  const { days, mealsPerDay } = body;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_PLAN_DAYS) {
+    return invalidInput(`Plan between 1 and ${MAX_PLAN_DAYS} days.`);
+  }
+  if (typeof mealsPerDay !== 'number' || !Number.isInteger(mealsPerDay) || mealsPerDay < 1 || mealsPerDay > MAX_MEALS_PER_DAY) {
+    return invalidInput(`Plan between 1 and ${MAX_MEALS_PER_DAY} meals a day.`);
+  }
+
+  let options;
+  try {
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request);
+  if (limited) return limited;
+
+  try {
+    const plan = await generateMealPlan(body.ingredients, options, days, mealsPerDay);
+    return NextResponse.json({ plan });
+  } catch (error) {
+    return errorResponse(error, 'Failed to plan meals');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../../lib/apiResponses';
+import { parseMealSlot } from '../../../lib/mealPlan';
+import { CALLS_PER_RECIPE, generateMealRecipe } from '../../../lib/recipes';
+import { parseRecipeOptions } from '../../../lib/recipeOptions';
+
+// Longest list of dishes to steer away from; a full week has 21 meals
+const MAX_AVOID = 21;
+
+export async function POST(request: Request) {
+  let body: { slot?: unknown; options?: unknown; avoid?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  const avoid = body.avoid ?? [];
+  if (
+    !Array.isArray(avoid) ||
+    avoid.length > MAX_AVOID ||
+    !avoid.every(title => typeof title === 'string' && title.length <= 200)
+  ) {
+    return invalidInput('"avoid" must be a short list of dish titles.');
+  }
+
+  let slot;
+  let options;
+  try {
+    slot = parseMealSlot(body.slot);
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request, CALLS_PER_RECIPE);
+  if (limited) return limited;
+
+  try {
+    const { recipe, warning, issues } = await generateMealRecipe(slot, options, avoid.filter(Boolean));
+    return NextResponse.json({ recipe, warning, issues });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate recipe');
+  }
+}
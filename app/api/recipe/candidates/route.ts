@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../../lib/apiResponses';
+import { CALLS_PER_RECIPE, generateRecipeCandidates, MAX_CANDIDATES } from '../../../lib/recipes';
+import { MAX_INGREDIENTS_LENGTH, parseRecipeOptions } from '../../../lib/recipeOptions';
+
+export async function POST(request: Request) {
+  let body: { ingredients?: unknown; options?: unknown; count?: unknown; regenerate?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  if (typeof body.ingredients !== 'string' || !body.ingredients.trim()) {
+    return invalidInput('Where are the ingredients at, bro?');
+  }
+  if (body.ingredients.length > MAX_INGREDIENTS_LENGTH) {
+    return invalidInput(`Keep the ingredients to ${MAX_INGREDIENTS_LENGTH} characters or fewer.`);
+  }
+
+  const { count } = body;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 2 || count > MAX_CANDIDATES) {
+    return invalidInput(`Ask for between 2 and ${MAX_CANDIDATES} recipe options.`);
+  }
+
+  let options;
+  try {
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request, count * CALLS_PER_RECIPE);
+  if (limited) return limited;
+
+  try {
+    const candidates = await generateRecipeCandidates(body.ingredients, options, count, body.regenerate === true);
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate recipes');
+  }
+}
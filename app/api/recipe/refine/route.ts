@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../../lib/apiResponses';
+import { validateRecipe } from '../../../lib/recipe';
+import {
+  MAX_INSTRUCTION_LENGTH,
+  MAX_REFINEMENT_BYTES,
+  MAX_REFINEMENT_TURNS,
+  refineRecipe,
+  RefinementTurn,
+} from '../../../lib/recipes';
+import { parseRecipeOptions } from '../../../lib/recipeOptions';
+
+function isInstruction(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_INSTRUCTION_LENGTH;
+}
+
+export async function POST(request: Request) {
+  let body: { recipe?: unknown; turns?: unknown; instruction?: unknown; options?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  if (!isInstruction(body.instruction)) {
+    return invalidInput(`Say how to change the recipe, in up to ${MAX_INSTRUCTION_LENGTH} characters.`);
+  }
+
+  const turns = body.turns ?? [];
+  if (!Array.isArray(turns) || turns.length >= MAX_REFINEMENT_TURNS) {
+    return invalidInput(`A recipe can be refined up to ${MAX_REFINEMENT_TURNS} times. Start again from a new recipe.`);
+  }
+  if (JSON.stringify({ recipe: body.recipe ?? null, turns }).length > MAX_REFINEMENT_BYTES) {
+    return invalidInput('This recipe is too long to refine. Start again from a new recipe.');
+  }
+
+  let recipe;
+  let history: RefinementTurn[];
+  let options;
+  try {
+    recipe = validateRecipe(body.recipe);
+    history = turns.map(turn => {
+      if (!isInstruction(turn?.instruction)) throw new Error('Each earlier refinement needs its instruction.');
+      return { instruction: turn.instruction, recipe: validateRecipe(turn.recipe) };
+    });
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request);
+  if (limited) return limited;
+
+  try {
+    const { recipe: refined, warning, issues } = await refineRecipe(recipe, history, body.instruction.trim(), options);
+    return NextResponse.json({ recipe: refined, warning, issues });
+  } catch (error) {
+    return errorResponse(error, 'Failed to refine recipe');
+  }
+}
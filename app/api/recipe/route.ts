@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../lib/apiResponses';
+import { CALLS_PER_RECIPE, generateRecipe } from '../../lib/recipes';
+import { MAX_INGREDIENTS_LENGTH, parseRecipeOptions } from '../../lib/recipeOptions';
+
+export async function POST(request: Request) {
+  let body: { ingredients?: unknown; options?: unknown; regenerate?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  if (typeof body.ingredients !== 'string' || !body.ingredients.trim()) {
+    return invalidInput('Where are the ingredients at, bro?');
+  }
+  if (body.ingredients.length > MAX_INGREDIENTS_LENGTH) {
+    return invalidInput(`Keep the ingredients to ${MAX_INGREDIENTS_LENGTH} characters or fewer.`);
+  }
+
+  let options;
+  try {
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request, CALLS_PER_RECIPE);
+  if (limited) return limited;
+
+  try {
+    const { recipe, warning, issues, cached } = await generateRecipe(body.ingredients, options, body.regenerate === true);
+    return NextResponse.json({ recipe, warning, issues, cached });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate recipe');
+  }
+}
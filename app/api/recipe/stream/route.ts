@@ -0,0 +1,70 @@
+import { invalidInput, limitRate } from '../../../lib/apiResponses';
+import { CALLS_PER_RECIPE, RecipeStreamEvent, streamRecipe } from '../../../lib/recipes';
+import { MAX_INGREDIENTS_LENGTH, parseRecipeOptions } from '../../../lib/recipeOptions';
+
+// Streams newline-delimited JSON RecipeStreamEvents: start, delta..., then done or error
+export async function POST(request: Request) {
+  let body: { ingredients?: unknown; options?: unknown; regenerate?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  if (typeof body.ingredients !== 'string' || !body.ingredients.trim()) {
+    return invalidInput('Where are the ingredients at, bro?');
+  }
+  if (body.ingredients.length > MAX_INGREDIENTS_LENGTH) {
+    return invalidInput(`Keep the ingredients to ${MAX_INGREDIENTS_LENGTH} characters or fewer.`);
+  }
+
+  let options;
+  try {
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request, CALLS_PER_RECIPE);
+  if (limited) return limited;
+
+  // Stop paying for tokens as soon as the client hits Stop or goes away
+  const controller = new AbortController();
+  request.signal.addEventListener('abort', () => controller.abort());
+
+  // Nothing runs until the first pull, and model errors arrive as error events; the catch
+  // below is for anything else going wrong on the way
+  const events = streamRecipe(body.ingredients, options, controller.signal, body.regenerate === true);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async pull(streamController) {
+      try {
+        const { done, value } = await events.next();
+        if (done) {
+          streamController.close();
+        } else {
+          streamController.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+        }
+      } catch (error) {
+        console.error('Recipe stream failed:', error);
+        const event: RecipeStreamEvent = {
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Failed to generate recipe',
+          code: 'upstream_error',
+        };
+        streamController.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        streamController.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
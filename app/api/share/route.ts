@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '../../lib/apiErrors';
+import { errorResponse, invalidInput, limitRate } from '../../lib/apiResponses';
+import { createShare, parseShareRequest } from '../../lib/shares';
+
+export async function POST(request: Request) {
+  let body: { recipe?: unknown; servings?: unknown; units?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  let share;
+  try {
+    share = parseShareRequest(body);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  // Each share is a file on the server, so sharing is limited like asking the model
+  const limited = limitRate(request);
+  if (limited) return limited;
+
+  try {
+    const { id } = await createShare(share);
+    return NextResponse.json({ id });
+  } catch (error) {
+    if (error instanceof ApiError) return errorResponse(error, 'Could not create a share link.');
+    console.error('Could not store shared recipe:', error);
+    return NextResponse.json({ error: 'Could not create a share link. Please try again.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, invalidInput, limitRate } from '../../lib/apiResponses';
+import { generateSubstitutions } from '../../lib/recipes';
+import { MAX_LIST_LENGTH, MAX_TEXT_LENGTH, parseRecipeOptions } from '../../lib/recipeOptions';
+
+export async function POST(request: Request) {
+  let body: { ingredients?: unknown; options?: unknown; regenerate?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return invalidInput('Request body must be valid JSON.');
+  }
+
+  const { ingredients } = body;
+  if (
+    !Array.isArray(ingredients) ||
+    ingredients.length === 0 ||
+    !ingredients.every(item => typeof item === 'string' && item.trim())
+  ) {
+    return invalidInput('Select at least one ingredient to substitute.');
+  }
+  if (ingredients.length > MAX_LIST_LENGTH) {
+    return invalidInput(`Select at most ${MAX_LIST_LENGTH} ingredients to substitute.`);
+  }
+  if (ingredients.some(item => item.length > MAX_TEXT_LENGTH)) {
+    return invalidInput(`Keep each ingredient to ${MAX_TEXT_LENGTH} characters or fewer.`);
+  }
+
+  let options;
+  try {
+    options = parseRecipeOptions(body.options);
+  } catch (error) {
+    return invalidInput((error as Error).message);
+  }
+
+  const limited = limitRate(request);
+  if (limited) return limited;
+
+  try {
+    const substitutions = await generateSubstitutions(ingredients, options, body.regenerate === true);
+    return NextResponse.json({ substitutions });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate substitutions');
+  }
+}
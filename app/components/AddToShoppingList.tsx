@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import type { Recipe } from '../lib/recipe';
+import { addToShoppingList } from '../lib/shoppingList';
+
+interface AddToShoppingListProps {
+  recipe: Recipe;
+  // The servings currently shown on the card; the list is scaled to match
+  servings: number;
+  // The leftovers typed for this recipe, which the list won't ask you to buy
+  leftovers: string;
+}
+
+export default function AddToShoppingList({ recipe, servings, leftovers }: AddToShoppingListProps) {
+  const [added, setAdded] = useState(false);
+
+  if (added) {
+    return (
+      <div className="text-center text-gray-800">
+        Added to your <Link href="/shopping" className="underline text-[#388E3C] hover:text-[#256029]">shopping list</Link>.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center">
+      <button
+        type="button"
+        onClick={() => {
+          addToShoppingList([{ recipe, servings }], leftovers);
+          setAdded(true);
+        }}
+        className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+      >
+        Add to shopping list
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import Link from 'next/link';
+import { Deduction, applyDeductions, planDeductionsFromPantry } from '../lib/cooking';
+import { Recipe, ingredientToString } from '../lib/recipe';
+
+interface CookedThisPanelProps {
+  recipe: Recipe;
+  // The servings currently shown on the card; quantities are scaled to match
+  servings: number;
+}
+
+function formatAmount(quantity: number | null, unit: string): string {
+  if (quantity === null) return '—';
+  return `${Number(quantity.toFixed(2))} ${unit}`.trim();
+}
+
+export default function CookedThisPanel({ recipe, servings }: CookedThisPanelProps) {
+  const [deductions, setDeductions] = useState<Deduction[] | null>(null);
+  // Indexes of the deductions the user has approved
+  const [approved, setApproved] = useState<number[]>([]);
+  const [done, setDone] = useState(false);
+
+  const handleStart = () => {
+    const planned = planDeductionsFromPantry(recipe, servings);
+    setDeductions(planned);
+    setApproved(planned.flatMap((deduction, index) =>
+      deduction.status === 'deduct' || deduction.status === 'remove' ? [index] : []
+    ));
+    setDone(false);
+  };
+
+  const toggle = (index: number) => {
+    setApproved(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+  };
+
+  const handleConfirm = () => {
+    if (!deductions) return;
+    const chosen = deductions.filter((_, index) => approved.includes(index));
+    // Approving an item we can't measure means it was used up
+    const removeIds = chosen
+      .filter(deduction => deduction.status === 'unknown-amount' && deduction.item)
+      .map(deduction => deduction.item!.id);
+    applyDeductions(recipe, servings, chosen, removeIds);
+    setDeductions(null);
+    setDone(true);
+  };
+
+  if (done) {
+    return (
+      <div className="text-center text-gray-800">
+        Enjoy! Your <Link href="/pantry" className="underline text-[#388E3C] hover:text-[#256029]">pantry</Link> has been updated and the meal added to your cooking history.
+      </div>
+    );
+  }
+
+  if (!deductions) {
+    return (
+      <div className="flex justify-center">
+        <button
+          type="button"
+          onClick={handleStart}
+          className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+        >
+          I cooked this
+        </button>
+      </div>
+    );
+  }
+
+  const inStock = deductions.filter(deduction => deduction.item);
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900">Update your pantry</h2>
+      {inStock.length === 0 ? (
+        <p className="text-gray-600">None of these ingredients are in your pantry, so there is nothing to deduct.</p>
+      ) : (
+        <>
+          <p className="text-gray-600">Review what this {servings}-serving recipe used. Untick anything you didn&apos;t use.</p>
+          <table className="w-full text-sm text-gray-800">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2"></th>
+                <th className="py-1 pr-2">Ingredient</th>
+                <th className="py-1 pr-2">In stock</th>
+                <th className="py-1">After cooking</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deductions.map((deduction, index) => deduction.item && (
+                <tr key={index} className="border-t border-gray-100">
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={approved.includes(index)}
+                      onChange={() => toggle(index)}
+                      aria-label={`Deduct ${deduction.item.name}`}
+                      className="h-4 w-4 text-[#388E3C] border-gray-300 rounded focus:ring-[#388E3C]"
+                    />
+                  </td>
+                  <td className="py-2 pr-2">{ingredientToString(deduction.ingredient)}</td>
+                  <td className="py-2 pr-2">{formatAmount(deduction.item.quantity, deduction.item.unit)} {deduction.item.name}</td>
+                  <td className="py-2">
+                    {deduction.status === 'remove' && <span className="text-red-700">Used up</span>}
+                    {deduction.status === 'deduct' && formatAmount(deduction.remaining, deduction.item.unit)}
+                    {deduction.status === 'unknown-amount' && (
+                      <span className="text-yellow-700">Can&apos;t compare amounts. Tick to remove it</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      <div className="flex gap-4 justify-center">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C]"
+        >
+          {inStock.length === 0 ? 'Just log it' : 'Update pantry'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setDeductions(null)}
+          className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { PantryItem, daysUntilExpiry, EXPIRING_SOON_DAYS } from '../lib/pantry';
+
+interface ExpiryBadgeProps {
+  item: PantryItem;
+}
+
+export default function ExpiryBadge({ item }: ExpiryBadgeProps) {
+  const days = daysUntilExpiry(item);
+  if (days === null) {
+    return <span className="text-xs text-gray-400">No date</span>;
+  }
+
+  let label = `${days} days left`;
+  if (days < 0) label = 'Expired';
+  else if (days === 0) label = 'Use today';
+  else if (days === 1) label = '1 day left';
+
+  const colour = days < 0
+    ? 'bg-red-100 text-red-800'
+    : days <= EXPIRING_SOON_DAYS
+      ? 'bg-yellow-100 text-yellow-800'
+      : 'bg-gray-100 text-gray-700';
+
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${colour}`}>{label}</span>;
+}
@@ -4,7 +4,7 @@ import { FaXTwitter, FaPen } from 'react-icons/fa6';
 
 export default function Footer() {
   return (
-    <footer className="w-full flex flex-col sm:flex-row items-center justify-between py-6 bg-white border-t mt-8 px-4 sm:px-6 gap-4 sm:gap-0 text-center sm:text-left">
+    <footer className="w-full flex flex-col sm:flex-row items-center justify-between py-6 bg-white border-t mt-8 px-4 sm:px-6 gap-4 sm:gap-0 text-center sm:text-left print:hidden">
       <div className="text-gray-700 text-sm">
         Built by <a
           href="https://x.com/ChaitanyaaNair"
@@ -2,6 +2,16 @@ import React from 'react';
 import { FaTwitter, FaLinkedin, FaRegNewspaper, FaGlobe } from 'react-icons/fa';
 import { FaXTwitter, FaPen } from 'react-icons/fa6';
 import Image from 'next/image';
+import Link from 'next/link';
+
+const navLinks = [
+  { href: '/', label: 'Make something' },
+  { href: '/recipes', label: 'Recipe book' },
+  { href: '/plan', label: 'Meal plan' },
+  { href: '/import', label: 'Import' },
+  { href: '/pantry', label: 'Pantry' },
+  { href: '/shopping', label: 'Shopping list' },
+];
 
 // Placeholder images (add your own in /public and update the src)
 const logoSrc = '/logo.png'; // Updated to use your new logo
@@ -9,7 +19,7 @@ const userImgSrc = '/vercel.svg'; // Replace with your picture later
 
 export default function Header() {
   return (
-    <header className="w-full bg-white px-4 py-4 sm:px-6 sm:py-5 flex flex-col items-center">
+    <header className="w-full bg-white px-4 py-4 sm:px-6 sm:py-5 flex flex-col items-center print:hidden">
       <div className="w-full flex flex-col sm:flex-row sm:items-center sm:justify-center relative">
         {/* Logo */}
         <div className="flex items-center justify-center sm:absolute sm:left-0 sm:justify-start gap-2 mb-2 sm:mb-0">
@@ -20,9 +30,17 @@ export default function Header() {
         {/* Title and Subtitle */}
         <div className="flex flex-col items-center justify-center w-full">
           <span className="text-4xl sm:text-5xl font-bold font-shadows-into-light" style={{ color: '#388E3C' }}>leftovers.wiki</span>
-          <span className="text-xs sm:text-sm mt-1" style={{ color: '#388E3C' }}>Don't waste it. Remake it.</span>
+          <span className="text-xs sm:text-sm mt-1" style={{ color: '#388E3C' }}>Don&apos;t waste it. Remake it.</span>
         </div>
       </div>
+      {/* Navigation */}
+      <nav className="flex flex-wrap justify-center gap-4 sm:gap-6 mt-3 text-sm font-medium">
+        {navLinks.map(link => (
+          <Link key={link.href} href={link.href} className="text-[#388E3C] hover:text-[#256029] hover:underline">
+            {link.label}
+          </Link>
+        ))}
+      </nav>
     </header>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ExpiryBadge from './ExpiryBadge';
+import {
+  PantryItem,
+  describePantryItem,
+  isExpiringSoon,
+  listPantryItems,
+  pantryToIngredients,
+  sortBySoonestExpiry,
+} from '../lib/pantry';
+
+interface PantryPickerProps {
+  // Receives the ingredients text and the names that are about to go off
+  onFill: (ingredients: string, useFirst: string[]) => void;
+}
+
+export default function PantryPicker({ onFill }: PantryPickerProps) {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [soonestFirst, setSoonestFirst] = useState(true);
+  const [open, setOpen] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = listPantryItems();
+    setItems(stored);
+    // Start with everything that's about to go off
+    setSelected(stored.filter(item => isExpiringSoon(item)).map(item => item.id));
+  }, []);
+
+  if (items.length === 0) {
+    return (
+      <div className="text-sm text-gray-700">
+        Tip: add items to your <Link href="/pantry" className="underline text-[#388E3C] hover:text-[#256029]">pantry</Link> to fill this in automatically.
+      </div>
+    );
+  }
+
+  const ordered = soonestFirst
+    ? sortBySoonestExpiry(items)
+    : [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  };
+
+  const handleFill = () => {
+    const chosen = ordered.filter(item => selected.includes(item.id));
+    const useFirst = soonestFirst
+      ? chosen.filter(item => isExpiringSoon(item)).map(item => item.name)
+      : [];
+    onFill(pantryToIngredients(chosen), useFirst);
+    setOpen(false);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className="text-sm font-medium text-[#388E3C] hover:text-[#256029]"
+      >
+        {open ? '▾' : '▸'} Fill from pantry ({items.length} items)
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={soonestFirst}
+              onChange={() => setSoonestFirst(prev => !prev)}
+              className="h-4 w-4 text-[#388E3C] border-gray-300 rounded focus:ring-[#388E3C]"
+            />
+            Use soonest-expiring first
+          </label>
+          <ul className="max-h-60 overflow-y-auto space-y-1">
+            {ordered.map(item => (
+              <li key={item.id}>
+                <label className="flex items-center gap-3 p-1 rounded-lg hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(item.id)}
+                    onChange={() => toggle(item.id)}
+                    className="h-4 w-4 text-[#388E3C] border-gray-300 rounded focus:ring-[#388E3C]"
+                  />
+                  <span className="flex-1 text-gray-900 text-sm">{describePantryItem(item)}</span>
+                  <ExpiryBadge item={item} />
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleFill}
+            disabled={selected.length === 0}
+            className="px-4 py-2 bg-[#388E3C] text-white text-sm rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use {selected.length} selected item{selected.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import {
+  Profile,
+  ProfilePreferences,
+  combineProfiles,
+  deleteProfile,
+  getDefaultProfileId,
+  listProfiles,
+  saveProfile,
+  setDefaultProfile,
+  updateProfile,
+} from '../lib/profiles';
+
+interface ProfilePickerProps {
+  // The form's current options, saved when creating or updating a profile
+  current: ProfilePreferences;
+  // Receives the selected profile's preferences, or several profiles combined
+  onApply: (preferences: ProfilePreferences) => void;
+}
+
+export default function ProfilePicker({ current, onApply }: ProfilePickerProps) {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [naming, setNaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage is only available after mount. The page applies the default profile
+  // on startup; here we just show it as selected.
+  useEffect(() => {
+    const stored = listProfiles();
+    const storedDefault = getDefaultProfileId();
+    setProfiles(stored);
+    setDefaultId(storedDefault);
+    if (stored.some(profile => profile.id === storedDefault)) setSelected([storedDefault!]);
+  }, []);
+
+  const select = (ids: string[]) => {
+    setSelected(ids);
+    const chosen = profiles.filter(profile => ids.includes(profile.id));
+    if (chosen.length > 0) onApply(combineProfiles(chosen.map(profile => profile.preferences)));
+  };
+
+  const toggle = (id: string) => {
+    select(selected.includes(id) ? selected.filter(i => i !== id) : [...selected, id]);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const profile = saveProfile(name, current);
+      setProfiles(prev => [...prev, profile]);
+      setSelected([profile.id]);
+      setName('');
+      setNaming(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the profile');
+    }
+  };
+
+  const single = selected.length === 1 ? profiles.find(profile => profile.id === selected[0]) : undefined;
+
+  const handleUpdate = () => {
+    if (!single) return;
+    const updated = updateProfile(single.id, current);
+    if (updated) setProfiles(prev => prev.map(profile => (profile.id === updated.id ? updated : profile)));
+  };
+
+  const handleToggleDefault = () => {
+    if (!single) return;
+    const id = defaultId === single.id ? null : single.id;
+    setDefaultProfile(id);
+    setDefaultId(id);
+  };
+
+  const handleDelete = () => {
+    if (!single || !window.confirm(`Delete the "${single.name}" profile?`)) return;
+    deleteProfile(single.id);
+    setProfiles(prev => prev.filter(profile => profile.id !== single.id));
+    setSelected([]);
+    if (defaultId === single.id) setDefaultId(null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Cooking for:</span>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            type="button"
+            onClick={() => toggle(profile.id)}
+            className={`px-4 py-2 rounded-full text-sm font-medium ${
+              selected.includes(profile.id)
+                ? 'bg-[#388E3C] text-white'
+                : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            {profile.name}{profile.id === defaultId ? ' ★' : ''}
+          </button>
+        ))}
+        {!naming && (
+          <button
+            type="button"
+            onClick={() => setNaming(true)}
+            className="text-sm font-medium text-[#388E3C] hover:text-[#256029]"
+          >
+            + Save current options as a profile
+          </button>
+        )}
+      </div>
+
+      {naming && (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder='Profile name, e.g. "Weeknight family"'
+            autoFocus
+            className="flex-1 px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-[#388E3C] text-white text-sm rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C]"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => { setNaming(false); setError(null); }}
+            className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {single && (
+        <div className="flex flex-wrap gap-4 text-sm">
+          <button type="button" onClick={handleUpdate} className="text-[#388E3C] hover:text-[#256029] underline">
+            Update &quot;{single.name}&quot; with current options
+          </button>
+          <button type="button" onClick={handleToggleDefault} className="text-[#388E3C] hover:text-[#256029] underline">
+            {defaultId === single.id ? 'Stop using as default' : 'Use as default on startup'}
+          </button>
+          <button type="button" onClick={handleDelete} className="text-red-700 hover:text-red-900 underline">
+            Delete profile
+          </button>
+        </div>
+      )}
+      {selected.length > 1 && (
+        <p className="text-sm text-gray-700">
+          Combining {selected.length} profiles: the strictest diet, every allergen, everyone&apos;s servings and the tightest nutrition goals.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { downloadFile } from '../lib/download';
+import type { Recipe } from '../lib/recipe';
+import { exportFilename, recipeToJsonLd, recipeToMarkdown, savePrintJob } from '../lib/recipeExport';
+import type { UnitSystem } from '../lib/unitSystems';
+
+interface RecipeExportActionsProps {
+  recipe: Recipe;
+  // The servings and units currently shown on the card; exports match them
+  servings: number;
+  units: UnitSystem;
+}
+
+const buttonClass = 'px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400';
+
+export default function RecipeExportActions({ recipe, servings, units }: RecipeExportActionsProps) {
+  return (
+    <div className="flex flex-wrap gap-2 justify-center">
+      <button
+        type="button"
+        onClick={() => downloadFile(exportFilename(recipe, 'md'), recipeToMarkdown(recipe, servings, units), 'text/markdown')}
+        className={buttonClass}
+      >
+        Download Markdown
+      </button>
+      <button
+        type="button"
+        onClick={() => downloadFile(
+          exportFilename(recipe, 'jsonld'),
+          JSON.stringify(recipeToJsonLd(recipe, servings, units), null, 2),
+          'application/ld+json'
+        )}
+        className={buttonClass}
+      >
+        Download JSON-LD
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          savePrintJob({ recipe, servings, units });
+          window.open('/print', '_blank');
+        }}
+        className={buttonClass}
+      >
+        Print
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { FormEvent, forwardRef, useImperativeHandle, useState } from 'react';
+import { requestRefinement } from '../lib/api';
+import { errorMessage } from '../lib/apiErrors';
+import { diffRecipes, LineChange, summariseDiff } from '../lib/recipeDiff';
+import type { RecipeOptions } from '../lib/recipeOptions';
+import type { RecipeResult } from '../lib/recipes';
+
+interface RecipeRefinementProps {
+  // The recipe the conversation starts from
+  result: RecipeResult;
+  // The filters it was made with, so changes keep to the same diet and allergens
+  options: RecipeOptions;
+  // Called with the version to show whenever the user refines or steps through versions
+  onSelect: (result: RecipeResult) => void;
+}
+
+// Lets the page record changes made outside the conversation
+export interface RecipeRefinementHandle {
+  // Adds `result` as the next version, as if the user had asked for it with `instruction`.
+  // Doesn't call onSelect: the page is already showing it.
+  addVersion: (result: RecipeResult, instruction: string) => void;
+}
+
+interface Version {
+  result: RecipeResult;
+  // What the user asked for to get this version; null for the starting recipe
+  instruction: string | null;
+}
+
+const SUGGESTIONS = ['Make it spicier', 'No oven', 'Make it vegan', 'Use fewer ingredients', 'Make it quicker'];
+
+// Must match MAX_REFINEMENT_TURNS on the server
+const MAX_REFINEMENTS = 10;
+
+function DiffLines({ title, lines }: { title: string; lines: LineChange[] }) {
+  if (lines.every(line => line.type === 'same')) return null;
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900">{title}</h4>
+      <ul className="text-sm">
+        {lines.map((line, index) => (
+          <li
+            key={index}
+            className={
+              line.type === 'added' ? 'text-green-800 bg-green-50' : line.type === 'removed' ? 'text-red-700 bg-red-50 line-through' : 'text-gray-600'
+            }
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}
+            {line.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const RecipeRefinement = forwardRef<RecipeRefinementHandle, RecipeRefinementProps>(function RecipeRefinement({ result, options, onSelect }, ref) {
+  const [versions, setVersions] = useState<Version[]>([{ result, instruction: null }]);
+  const [current, setCurrent] = useState(0);
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+
+  // Like a refinement, it drops any later versions
+  useImperativeHandle(ref, () => ({
+    addVersion: (added, text) => {
+      setVersions([...versions.slice(0, current + 1), { result: added, instruction: text }]);
+      setCurrent(current + 1);
+    },
+  }), [versions, current]);
+
+  const select = (index: number) => {
+    setCurrent(index);
+    onSelect(versions[index].result);
+  };
+
+  // Refines the version on screen; any later versions are dropped, as in an undo history
+  const refine = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isRefining) return;
+
+    const kept = versions.slice(0, current + 1);
+    setIsRefining(true);
+    setError(null);
+    try {
+      const refined = await requestRefinement(
+        kept[0].result.recipe,
+        kept.slice(1).map(version => ({ instruction: version.instruction!, recipe: version.result.recipe })),
+        trimmed,
+        options
+      );
+      setVersions([...kept, { result: refined, instruction: trimmed }]);
+      setCurrent(kept.length);
+      setInstruction('');
+      onSelect(refined);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to refine recipe'));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    refine(instruction);
+  };
+
+  const previous = current > 0 ? versions[current - 1] : null;
+  const diff = previous ? diffRecipes(previous.result.recipe, versions[current].result.recipe) : null;
+  const atLimit = current >= MAX_REFINEMENTS;
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 space-y-4 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold text-gray-900">Change this recipe</h2>
+        {versions.length > 1 && (
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <button
+              type="button"
+              onClick={() => select(current - 1)}
+              disabled={current === 0 || isRefining}
+              className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Version {current + 1} of {versions.length}</span>
+            <button
+              type="button"
+              onClick={() => select(current + 1)}
+              disabled={current === versions.length - 1 || isRefining}
+              className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* The conversation so far */}
+      {versions.length > 1 && (
+        <ul className="space-y-3">
+          {versions.slice(1).map((version, offset) => {
+            const index = offset + 1;
+            return (
+              <li key={index} className={`space-y-1 ${index > current ? 'opacity-50' : ''}`}>
+                <p className="ml-auto w-fit max-w-[80%] px-3 py-2 rounded-lg bg-[#388E3C] text-white">{version.instruction}</p>
+                <div className="w-fit max-w-[80%] px-3 py-2 rounded-lg bg-gray-100 text-gray-800">
+                  <p>{summariseDiff(diffRecipes(versions[index - 1].result.recipe, version.result.recipe))}.</p>
+                  {index !== current && (
+                    <button type="button" onClick={() => select(index)} className="text-sm text-[#388E3C] hover:text-[#256029] underline">
+                      Show version {index + 1}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {diff && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowChanges(show => !show)}
+            className="text-sm text-[#388E3C] hover:text-[#256029] underline"
+          >
+            {showChanges ? 'Hide changes' : `Show changes from version ${current}`}
+          </button>
+          {showChanges && (
+            <div className="mt-3 space-y-3">
+              {diff.fields.length > 0 && (
+                <ul className="text-sm text-gray-800">
+                  {diff.fields.map(field => (
+                    <li key={field.label}>
+                      <span className="font-medium">{field.label}:</span> {field.before} → {field.after}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <DiffLines title="Ingredients" lines={diff.ingredients} />
+              <DiffLines title="Steps" lines={diff.steps} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {atLimit ? (
+        <p className="text-gray-600">That&apos;s as many changes as one conversation can hold. Save this version or start from a new recipe.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => refine(suggestion)}
+                disabled={isRefining}
+                className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 disabled:opacity-50"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              maxLength={300}
+              placeholder={current > 0 ? 'Anything else?' : 'e.g. make it spicier, or no oven'}
+              aria-label="How should the recipe change?"
+              disabled={isRefining}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#388E3C]"
+            />
+            <button
+              type="submit"
+              disabled={isRefining || !instruction.trim()}
+              className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C] disabled:opacity-50"
+            >
+              {isRefining ? 'Changing…' : 'Send'}
+            </button>
+          </form>
+        </>
+      )}
+      {error && <p className="text-red-700">{error}</p>}
+    </div>
+  );
+});
+
+export default RecipeRefinement;
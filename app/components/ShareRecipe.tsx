@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { shareRecipe } from '../lib/api';
+import { errorMessage } from '../lib/apiErrors';
+import type { Recipe } from '../lib/recipe';
+import type { UnitSystem } from '../lib/unitSystems';
+
+interface ShareRecipeProps {
+  recipe: Recipe;
+  // The servings and units currently shown on the card; the link opens at them
+  servings: number;
+  units: UnitSystem;
+}
+
+export default function ShareRecipe({ recipe, servings, units }: ShareRecipeProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be refused; the link is still shown to copy by hand
+    }
+  };
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    setError(null);
+    try {
+      const link = `${window.location.origin}/shared/${await shareRecipe(recipe, servings, units)}`;
+      setUrl(link);
+      await copy(link);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to share recipe'));
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  if (url) {
+    return (
+      <div className="flex flex-col sm:flex-row gap-2 items-center justify-center">
+        <input
+          type="text"
+          readOnly
+          value={url}
+          onFocus={e => e.target.select()}
+          aria-label="Share link"
+          className="w-full sm:w-80 px-3 py-2 rounded-lg bg-gray-50 border border-gray-300 text-sm text-gray-900"
+        />
+        <button
+          type="button"
+          onClick={() => copy(url)}
+          className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+        >
+          {copied ? 'Copied!' : 'Copy link'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <button
+        type="button"
+        onClick={handleShare}
+        disabled={isSharing}
+        className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 disabled:opacity-50"
+      >
+        {isSharing ? 'Creating link…' : 'Share link'}
+      </button>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { categoryLabel } from '../lib/allergens';
+import { describeRatio, Substitution, SubstitutionGroup } from '../lib/substitutions';
+
+interface SubstitutionListProps {
+  // One group per ingredient line the user asked about
+  groups: SubstitutionGroup[];
+  // Swaps the substitution into the recipe; without it the list is read-only
+  onPick?: (ingredient: string, substitution: Substitution) => void;
+}
+
+export default function SubstitutionList({ groups, onPick }: SubstitutionListProps) {
+  return (
+    <div className="mt-6 p-6 bg-white rounded-lg shadow-sm border border-gray-200">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Ingredient Substitutions</h2>
+      <div className="space-y-6">
+        {groups.map(group => (
+          <div key={group.ingredient} className="space-y-2">
+            <div className="font-semibold text-gray-900">{group.ingredient}</div>
+            {group.substitutions.length === 0 ? (
+              <p className="text-gray-600 text-sm">No substitutions that suit your diet and allergens.</p>
+            ) : (
+              <ul className="space-y-3">
+                {group.substitutions.map(substitution => (
+                  <li key={substitution.replacement} className="flex items-start justify-between gap-4">
+                    <div className="text-gray-800">
+                      <span className="font-medium">{substitution.replacement}</span>
+                      <span className="text-sm text-gray-600"> · {describeRatio(substitution)}</span>
+                      {substitution.impact && <span className="block text-sm text-gray-600">{substitution.impact}</span>}
+                      <span className="flex flex-wrap gap-1 mt-1">
+                        {substitution.diets.map(diet => (
+                          <span key={diet} className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">{diet}</span>
+                        ))}
+                        {substitution.contains.filter(category => category !== 'high-carb').map(category => (
+                          <span key={category} className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">contains {categoryLabel(category)}</span>
+                        ))}
+                        {substitution.source === 'model' && (
+                          <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">suggested by the model</span>
+                        )}
+                      </span>
+                    </div>
+                    {onPick && (
+                      <button
+                        type="button"
+                        onClick={() => onPick(group.ingredient, substitution)}
+                        className="shrink-0 px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                      >
+                        Use this
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
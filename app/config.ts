@@ -1,3 +1,61 @@
+import type { ProviderName } from './lib/providers/types';
+
+// Server-side configuration. Only import this from route handlers and app/lib code
+// that runs on the server, never from a 'use client' module.
+
+// A whole number of at least `min` from the environment; `fallback` when it's unset or
+// anything else, so a typo can't turn into NaN retries or a negative limit
+function envInteger(name: string, fallback: number, min = 0): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
 export const config = {
-  geminiApiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.GEMINI_API_KEY,
-} as const; 
\ No newline at end of file
+  // Which LLM backs recipe and substitution generation: gemini, openai, huggingface or fixture
+  llmProvider: (process.env.LLM_PROVIDER || 'gemini') as ProviderName,
+
+  geminiApiKey: process.env.GEMINI_API_KEY,
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+
+  // OPENAI_BASE_URL can point at any OpenAI-compatible server, e.g. http://localhost:11434/v1
+  openaiApiKey: process.env.OPENAI_API_KEY,
+  openaiBaseUrl: process.env.OPENAI_BASE_URL,
+  openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+
+  huggingfaceApiKey: process.env.HF_API_KEY,
+  huggingfaceModel: process.env.HF_MODEL || 'meta-llama/Llama-3.1-8B-Instruct',
+
+  // Which version of each prompt to use, e.g. "recipe=2"; see app/lib/prompts
+  promptVersions: process.env.PROMPT_VERSIONS || '',
+
+  // Model calls that fail with a rate limit, a server error or a timeout are retried up to
+  // MODEL_MAX_RETRIES times (default 3) with backoff. Each attempt gives up after
+  // MODEL_TIMEOUT_SECONDS (default 60) without an answer.
+  modelMaxRetries: envInteger('MODEL_MAX_RETRIES', 3),
+  modelTimeoutSeconds: envInteger('MODEL_TIMEOUT_SECONDS', 60, 1),
+
+  // Each client may make RATE_LIMIT_BURST model calls in a row (default 15), then
+  // RATE_LIMIT_PER_MINUTE more a minute (default 30). 0 turns it off. A recipe counts as
+  // the most calls it can take, repairs included.
+  rateLimitPerMinute: envInteger('RATE_LIMIT_PER_MINUTE', 30),
+  rateLimitBurst: envInteger('RATE_LIMIT_BURST', 15, 1),
+  // Set TRUST_PROXY=true only behind a proxy that sets X-Forwarded-For; clients are then
+  // told apart by the address it forwards. Otherwise they all share one allowance.
+  trustProxy: process.env.TRUST_PROXY === 'true',
+
+  // Model responses are cached for CACHE_TTL_SECONDS (default a day), keeping up to
+  // CACHE_MAX_ENTRIES in memory. Set CACHE_DIR to also keep them on disk across restarts.
+  cacheTtlSeconds: envInteger('CACHE_TTL_SECONDS', 24 * 60 * 60),
+  cacheMaxEntries: envInteger('CACHE_MAX_ENTRIES', 200, 1),
+  cacheDir: process.env.CACHE_DIR || undefined,
+
+  // Public address of the site, for absolute links in share previews
+  siteUrl: process.env.SITE_URL || 'http://localhost:3000',
+  // Where shared recipes are kept, one JSON file each. Shares expire after SHARE_TTL_DAYS
+  // (default 90), and no more are made while SHARE_MAX_COUNT (default 10000) are kept.
+  shareDir: process.env.SHARE_DIR || '.data/shares',
+  shareTtlDays: envInteger('SHARE_TTL_DAYS', 90, 1),
+  shareMaxCount: envInteger('SHARE_MAX_COUNT', 10_000, 1),
+} as const;
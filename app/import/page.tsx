@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Loader from '../components/Loader';
+import ProfilePicker from '../components/ProfilePicker';
+import RecipeCard from '../components/RecipeCard';
+import SubstitutionList from '../components/SubstitutionList';
+import { requestSubstitutions } from '../lib/api';
+import { errorMessage } from '../lib/apiErrors';
+import { getDefaultProfile } from '../lib/profiles';
+import { ingredientToString } from '../lib/recipe';
+import { ImportFormat, ImportedRecipe, importRecipe } from '../lib/recipeImport';
+import { DEFAULT_RECIPE_OPTIONS, RecipeOptions } from '../lib/recipeOptions';
+import { Substitution, SubstitutionGroup, substituteIngredient } from '../lib/substitutions';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  'json-ld': 'Read from the recipe\'s structured data (schema.org JSON-LD).',
+  html: 'Read from the page text. Check the ingredients came through right.',
+  text: 'Read from the pasted text. Check the ingredients came through right.',
+};
+
+export default function ImportRecipe() {
+  const [input, setInput] = useState('');
+  const [imported, setImported] = useState<ImportedRecipe | null>(null);
+  const [options, setOptions] = useState<RecipeOptions>(DEFAULT_RECIPE_OPTIONS);
+  const [error, setError] = useState<string | null>(null);
+  // Ingredient lines the user doesn't have
+  const [missing, setMissing] = useState<string[]>([]);
+  const [substitutions, setSubstitutions] = useState<SubstitutionGroup[] | null>(null);
+  const [isLoadingSubstitutions, setIsLoadingSubstitutions] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const profile = getDefaultProfile();
+    if (profile) setOptions(prev => ({ ...prev, ...profile.preferences }));
+  }, []);
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubstitutions(null);
+    setMissing([]);
+    try {
+      setImported(importRecipe(input));
+      setError(null);
+    } catch (err) {
+      setImported(null);
+      setError(err instanceof Error ? err.message : 'Failed to import recipe');
+    }
+  };
+
+  const toggleMissing = (ingredient: string) => {
+    setMissing(prev => (prev.includes(ingredient) ? prev.filter(item => item !== ingredient) : [...prev, ingredient]));
+  };
+
+  const handleGetSubstitutions = async (regenerate = false) => {
+    if (missing.length === 0) return;
+    setIsLoadingSubstitutions(true);
+    setSubstitutions(null);
+    setError(null);
+    try {
+      setSubstitutions(await requestSubstitutions(missing, options, regenerate));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to generate substitutions'));
+    } finally {
+      setIsLoadingSubstitutions(false);
+    }
+  };
+
+  // Swaps a picked substitution into the recipe; the line is no longer missing
+  const handlePickSubstitution = (line: string, substitution: Substitution) => {
+    setImported(prev => prev && { ...prev, recipe: substituteIngredient(prev.recipe, line, substitution) });
+    setMissing(prev => prev.filter(item => item !== line));
+    setSubstitutions(prev => {
+      const rest = prev?.filter(group => group.ingredient !== line) ?? [];
+      return rest.length > 0 ? rest : null;
+    });
+  };
+
+  const recipe = imported?.recipe;
+  const ingredientLines = recipe ? recipe.ingredients.map(ingredient => ingredientToString(ingredient)) : [];
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Import a recipe</h1>
+
+        <form onSubmit={handleImport} className="space-y-4 print:hidden">
+          <label className="block text-sm font-medium text-gray-700">
+            Paste a recipe as text, its schema.org JSON-LD, or the HTML of the recipe page (View source, then copy it all):
+            <textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder={'Chickpea curry\nServes 4\n\nIngredients\n1 tin chickpeas\n1 onion, chopped\n\nMethod\n1. Fry the onion...'}
+              className="mt-1 w-full h-48 px-3 py-2 rounded-lg bg-white border border-gray-300 text-gray-900 font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+          <ProfilePicker
+            current={options}
+            onApply={preferences => setOptions(prev => ({ ...prev, ...preferences }))}
+          />
+          <div className="flex justify-center">
+            <button
+              type="submit"
+              className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C]"
+            >
+              Import
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="text-red-700 text-center text-2xl">
+            {error}
+          </div>
+        )}
+
+        {imported && recipe && (
+          <>
+            <p className="text-sm text-gray-700 text-center print:hidden">{FORMAT_LABELS[imported.format]}</p>
+            <RecipeCard
+              recipe={recipe}
+              units={options.units}
+              restrictions={options}
+              cookable
+              shoppingLeftovers=""
+              shareable
+            />
+
+            {/* Leftover-ise it: swap out what isn't in the fridge */}
+            <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 print:hidden">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Missing something?</h2>
+              <p className="text-gray-600 mb-4">Check the ingredients you don&rsquo;t have and we&rsquo;ll suggest what to use instead:</p>
+              <div className="space-y-2">
+                {ingredientLines.map((ingredient, index) => (
+                  <label
+                    key={index}
+                    className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={missing.includes(ingredient)}
+                      onChange={() => toggleMissing(ingredient)}
+                      className="h-4 w-4 text-[#388E3C] border-gray-300 rounded focus:ring-[#388E3C]"
+                    />
+                    <span className="text-gray-900 text-sm">{ingredient}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-center print:hidden">
+              <button
+                onClick={() => handleGetSubstitutions()}
+                disabled={isLoadingSubstitutions || missing.length === 0}
+                className="px-6 py-3 bg-[#CF5A81] text-white font-medium rounded-lg hover:bg-[#BF3764] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#D285E0] disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoadingSubstitutions
+                  ? 'Generating Substitutions...'
+                  : missing.length === 0
+                    ? 'Select Ingredients First'
+                    : `Show Substitutions for ${missing.length} Ingredient${missing.length === 1 ? '' : 's'}`
+                }
+              </button>
+            </div>
+
+            {isLoadingSubstitutions && <Loader />}
+            {substitutions && !isLoadingSubstitutions && (
+              <div className="space-y-4 print:hidden">
+                <SubstitutionList groups={substitutions} onPick={handlePickSubstitution} />
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => handleGetSubstitutions(true)}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                  >
+                    Suggest different substitutions
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
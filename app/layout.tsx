@@ -3,6 +3,7 @@ import { Inter, Shadows_Into_Light } from "next/font/google";
 import "./globals.css";
 import Header from './components/Header';
 import Footer from './components/Footer';
+import { config } from './config';
 
 const inter = Inter({ subsets: ["latin"] });
 const shadowsIntoLight = Shadows_Into_Light({ 
@@ -12,6 +13,8 @@ const shadowsIntoLight = Shadows_Into_Light({
 });
 
 export const metadata: Metadata = {
+  // Makes relative URLs in page metadata (share previews) absolute
+  metadataBase: new URL(config.siteUrl),
   title: "leftovers.wiki",
   description: "Your guide to making the most of your leftovers",
 };
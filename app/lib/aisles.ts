@@ -0,0 +1,93 @@
+// Which supermarket aisle an ingredient is found in, so the shopping list can be walked
+// in one pass. Aisles are listed in a typical store order.
+
+export type Aisle =
+  | 'produce' | 'bakery' | 'meat-seafood' | 'dairy-eggs' | 'grains' | 'tins-jars'
+  | 'condiments' | 'spices' | 'baking' | 'frozen' | 'drinks' | 'other';
+
+export const AISLES: { value: Aisle; label: string }[] = [
+  { value: 'produce', label: 'Fruit & veg' },
+  { value: 'bakery', label: 'Bakery' },
+  { value: 'meat-seafood', label: 'Meat & seafood' },
+  { value: 'dairy-eggs', label: 'Dairy, eggs & chilled' },
+  { value: 'grains', label: 'Rice, pasta & grains' },
+  { value: 'tins-jars', label: 'Tins & jars' },
+  { value: 'condiments', label: 'Oils, sauces & condiments' },
+  { value: 'spices', label: 'Herbs & spices' },
+  { value: 'baking', label: 'Baking & nuts' },
+  { value: 'frozen', label: 'Frozen' },
+  { value: 'drinks', label: 'Drinks' },
+  { value: 'other', label: 'Other' },
+];
+
+const TERMS: Record<Exclude<Aisle, 'other'>, string[]> = {
+  produce: [
+    'onion', 'spring onion', 'scallion', 'shallot', 'leek', 'garlic', 'ginger', 'potato', 'sweet potato', 'tomato', 'cherry tomato',
+    'carrot', 'celery', 'cucumber', 'courgette', 'zucchini', 'aubergine', 'eggplant', 'broccoli', 'cauliflower', 'cabbage', 'kale',
+    'spinach', 'lettuce', 'rocket', 'arugula', 'chard', 'mushroom', 'bell pepper', 'red pepper', 'green pepper', 'yellow pepper',
+    'capsicum', 'chilli', 'chili', 'jalapeño', 'jalapeno', 'squash', 'pumpkin', 'beetroot', 'radish', 'okra', 'bean sprout',
+    'green bean', 'asparagus', 'avocado', 'lemon', 'lime', 'orange', 'apple', 'pear', 'banana', 'berry', 'berries', 'grape',
+    'mango', 'pineapple', 'coriander', 'cilantro', 'parsley', 'basil', 'mint', 'dill', 'curry leaves', 'fresh herbs',
+  ],
+  bakery: ['bread', 'loaf', 'baguette', 'bun', 'roll', 'bagel', 'naan', 'roti', 'chapati', 'pita', 'tortilla', 'wrap', 'croissant'],
+  'meat-seafood': [
+    'chicken', 'beef', 'steak', 'pork', 'lamb', 'mutton', 'goat', 'turkey', 'duck', 'bacon', 'ham', 'sausage', 'chorizo', 'mince',
+    'fish', 'salmon', 'cod', 'haddock', 'tilapia', 'prawn', 'shrimp', 'mussel', 'clam', 'crab', 'squid', 'scallop',
+  ],
+  'dairy-eggs': [
+    'milk', 'cream', 'sour cream', 'butter', 'ghee', 'cheese', 'paneer', 'feta', 'mozzarella', 'parmesan', 'cheddar', 'yogurt',
+    'yoghurt', 'curd', 'egg', 'tofu', 'tempeh', 'hummus',
+  ],
+  grains: [
+    'rice', 'basmati', 'pasta', 'spaghetti', 'penne', 'macaroni', 'noodle', 'quinoa', 'couscous', 'bulgur', 'oats', 'barley',
+    'lentil', 'dal', 'daal', 'poha', 'polenta',
+  ],
+  'tins-jars': [
+    'chickpea', 'bean', 'kidney bean', 'black bean', 'baked beans', 'coconut milk', 'coconut cream', 'tomato paste', 'tomato puree',
+    'passata', 'canned tomato', 'tinned tomato', 'chopped tomatoes', 'stock', 'broth', 'bouillon', 'tuna', 'sardine', 'olive',
+    'pickle', 'caper', 'jam', 'peanut butter', 'honey', 'maple syrup', 'sweetcorn',
+  ],
+  condiments: [
+    'oil', 'vinegar', 'soy sauce', 'tamari', 'fish sauce', 'oyster sauce', 'hot sauce', 'sriracha', 'ketchup', 'mayonnaise', 'mayo',
+    'mustard', 'tahini', 'pesto', 'sauce', 'chutney', 'salsa', 'dressing',
+  ],
+  spices: [
+    'salt', 'pepper', 'black pepper', 'peppercorn', 'cumin', 'turmeric', 'garam masala', 'masala', 'paprika', 'chilli powder',
+    'chili powder', 'chilli flakes', 'coriander powder', 'ground coriander', 'cinnamon', 'cardamom', 'clove', 'nutmeg',
+    'oregano', 'thyme', 'rosemary', 'bay leaf', 'bay leaves', 'mustard seed', 'fennel seed', 'cumin seed', 'seasoning', 'spice',
+    'powder', 'dried herbs', 'asafoetida', 'hing',
+  ],
+  baking: [
+    'flour', 'sugar', 'brown sugar', 'baking powder', 'baking soda', 'bicarbonate', 'yeast', 'cocoa', 'cocoa powder', 'chocolate',
+    'vanilla', 'cornstarch', 'cornflour', 'nut', 'almond', 'cashew', 'walnut', 'peanut', 'raisin', 'sesame seed', 'seed',
+  ],
+  frozen: ['frozen', 'ice cream', 'peas'],
+  drinks: ['juice', 'wine', 'beer', 'soda', 'coffee', 'tea'],
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest terms first, so on equal footing "peanut butter" beats "butter"
+const ENTRIES = (Object.keys(TERMS) as Exclude<Aisle, 'other'>[])
+  .flatMap(aisle => TERMS[aisle].map(term => ({ aisle, pattern: new RegExp(`\\b${escapeRegExp(term)}(?:e?s)?\\b`, 'i'), length: term.length })))
+  .sort((a, b) => b.length - a.length);
+
+// The aisle for an ingredient name. The match ending last wins, since that's usually
+// the head noun ("chicken stock" is stock, "coriander powder" a spice). Anything frozen
+// is in the freezer, whatever it is.
+export function aisleOf(ingredientName: string): Aisle {
+  if (/\bfrozen\b/i.test(ingredientName)) return 'frozen';
+  let best: { aisle: Aisle; end: number } | null = null;
+  for (const entry of ENTRIES) {
+    const match = entry.pattern.exec(ingredientName);
+    const end = match ? match.index + match[0].length : -1;
+    if (match && (!best || end > best.end)) best = { aisle: entry.aisle, end };
+  }
+  return best?.aisle ?? 'other';
+}
+
+export function aisleLabel(aisle: Aisle): string {
+  return AISLES.find(entry => entry.value === aisle)?.label ?? 'Other';
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { categoriesOf, findConflicts, parseAllergens } from './allergens';
+import { testRecipe } from './testRecipe';
+
+describe('categoriesOf', () => {
+  it.each([
+    ['butter', ['dairy']],
+    ['coconut milk', []],
+    ['peanut butter', ['peanut']],
+    ['vegan cheddar cheese', []],
+    ['butter and coconut milk', ['dairy']],
+    ['coconut, milk', ['dairy']],
+    ['rice flour', ['high-carb']],
+    ['wheat flour with rice', ['gluten', 'high-carb']],
+    ['goat cheese', ['dairy']],
+    ['goat curry', ['meat']],
+    ['tahini', ['sesame']],
+    ['eggplant', []],
+  ])('%s -> %j', (text, expected) => {
+    expect(categoriesOf(text)).toEqual(expected);
+  });
+});
+
+describe('parseAllergens', () => {
+  it.each([
+    ['nuts', ['peanut', 'tree-nut'], []],
+    ['sesame seeds', ['sesame'], []],
+    ['Wheat flour, milk products', ['gluten', 'dairy'], []],
+    ['egg whites or shellfish', ['egg', 'shellfish'], []],
+    ['kiwi; cashews', [], ['kiwi', 'cashews']],
+    ['coconut milk', [], ['coconut milk']],
+  ])('%s', (text, categories, terms) => {
+    expect(parseAllergens(text)).toEqual({ categories, terms });
+  });
+});
+
+describe('findConflicts', () => {
+  const recipe = (names: string[]) => testRecipe({
+    ingredients: names.map(name => ({ quantity: 1, unit: 'tbsp', name })),
+    steps: ['Mix.'],
+  });
+  const restrictions = (allergens: string) => ({ diet: 'none', customDiet: '', allergens });
+
+  it('flags tahini for a sesame seed allergy', () => {
+    expect(findConflicts(recipe(['tahini', 'lemon juice']), restrictions('sesame seeds'))).toEqual([
+      { source: 'ingredient', text: 'tahini', reason: 'allergen', label: 'sesame' },
+    ]);
+  });
+
+  it('keeps dairy flagged when something else in the name is dairy-free', () => {
+    expect(findConflicts(recipe(['butter and coconut milk']), restrictions('dairy')).map(conflict => conflict.label)).toEqual(['dairy']);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Recipe } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+
+// Allergen and diet taxonomy: maps ingredient names and their synonyms to food
+// categories, so we can check a recipe deterministically instead of trusting the model.
+
+export type FoodCategory =
+  | 'peanut' | 'tree-nut' | 'gluten' | 'dairy' | 'egg' | 'soy' | 'fish' | 'shellfish' | 'sesame' | 'mustard' | 'celery'
+  | 'meat' | 'honey' | 'high-carb';
+
+interface CategoryInfo {
+  label: string;
+  // What the user might type in the allergens field to mean this category
+  names: string[];
+  // Ingredient names (and synonyms) that belong to the category
+  terms: string[];
+  // Qualifiers that make an otherwise matching ingredient safe ("coconut milk", "vegan butter").
+  // They only apply to a term later in the same phrase, or one they contain.
+  except?: string[];
+}
+
+const PLANT_BASED = ['vegan', 'plant-based', 'plant based'];
+
+const CATEGORIES: Record<FoodCategory, CategoryInfo> = {
+  peanut: {
+    label: 'peanut',
+    names: ['peanut', 'peanuts', 'groundnut', 'nut', 'nuts'],
+    terms: ['peanut', 'groundnut', 'monkey nut', 'arachis oil', 'satay'],
+  },
+  'tree-nut': {
+    label: 'tree nuts',
+    names: ['tree nut', 'tree nuts', 'nut', 'nuts'],
+    terms: ['almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'chestnut', 'nut', 'praline', 'marzipan', 'frangipane', 'nutella', 'kaju', 'badam'],
+    except: ['nut-free', 'coconut'],
+  },
+  gluten: {
+    label: 'gluten',
+    names: ['gluten', 'wheat', 'coeliac', 'celiac'],
+    terms: ['wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'macaroni', 'penne', 'orzo', 'noodle', 'udon', 'couscous', 'bulgur', 'semolina', 'sooji', 'suji', 'rava', 'barley', 'rye', 'spelt', 'farro', 'seitan', 'malt', 'beer', 'atta', 'maida', 'roti', 'naan', 'chapati', 'paratha', 'tortilla', 'pita', 'cracker', 'biscuit', 'soy sauce'],
+    except: ['gluten-free', 'gluten free', 'rice', 'corn', 'almond', 'chickpea', 'gram', 'besan', 'coconut', 'buckwheat', 'tapioca', 'arrowroot', 'potato', 'cauliflower', 'tamari', 'glass'],
+  },
+  dairy: {
+    label: 'dairy',
+    names: ['dairy', 'milk', 'lactose'],
+    terms: ['milk', 'butter', 'buttermilk', 'ghee', 'cream', 'cheese', 'paneer', 'yogurt', 'yoghurt', 'curd', 'dahi', 'whey', 'casein', 'lactose', 'khoa', 'khoya', 'malai', 'mascarpone', 'ricotta', 'mozzarella', 'parmesan', 'feta', 'cheddar', 'halloumi', 'kefir', 'custard', 'creme fraiche', 'crème fraîche'],
+    except: [...PLANT_BASED, 'dairy-free', 'coconut', 'almond', 'oat', 'soy', 'soya', 'rice milk', 'cashew', 'peanut', 'nut butter', 'cocoa butter', 'shea', 'apple butter', 'cream of tartar'],
+  },
+  egg: {
+    label: 'egg',
+    names: ['egg', 'eggs'],
+    terms: ['egg', 'egg white', 'egg yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'albumen'],
+    except: [...PLANT_BASED, 'eggless', 'egg-free'],
+  },
+  soy: {
+    label: 'soy',
+    names: ['soy', 'soya', 'soybean'],
+    terms: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'natto'],
+  },
+  fish: {
+    label: 'fish',
+    names: ['fish', 'seafood'],
+    terms: ['fish', 'fish sauce', 'salmon', 'tuna', 'cod', 'haddock', 'mackerel', 'sardine', 'anchovy', 'anchovies', 'tilapia', 'trout', 'halibut', 'snapper', 'pollock', 'basa', 'bonito', 'dashi', 'worcestershire sauce'],
+  },
+  shellfish: {
+    label: 'shellfish',
+    names: ['shellfish', 'crustacean', 'crustaceans', 'mollusc', 'molluscs', 'seafood'],
+    terms: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'scallop', 'mussel', 'clam', 'oyster', 'squid', 'calamari', 'octopus', 'oyster sauce'],
+  },
+  sesame: {
+    label: 'sesame',
+    names: ['sesame'],
+    terms: ['sesame', 'tahini', 'til', 'gingelly', 'hummus', 'halva'],
+  },
+  mustard: {
+    label: 'mustard',
+    names: ['mustard'],
+    terms: ['mustard'],
+  },
+  celery: {
+    label: 'celery',
+    names: ['celery'],
+    terms: ['celery', 'celeriac'],
+  },
+  meat: {
+    label: 'meat',
+    names: ['meat'],
+    terms: ['meat', 'chicken', 'beef', 'pork', 'lamb', 'mutton', 'goat', 'bacon', 'ham', 'sausage', 'turkey', 'duck', 'veal', 'venison', 'mince', 'keema', 'salami', 'chorizo', 'pepperoni', 'prosciutto', 'pancetta', 'gelatin', 'gelatine', 'lard', 'bone broth'],
+    except: [...PLANT_BASED, 'vegetarian', 'veggie', 'meatless', 'mock', 'soy', 'goat cheese', "goat's cheese", 'goat milk'],
+  },
+  honey: {
+    label: 'honey',
+    names: ['honey'],
+    terms: ['honey'],
+  },
+  'high-carb': {
+    label: 'high-carb foods',
+    names: [],
+    terms: ['sugar', 'rice', 'pasta', 'spaghetti', 'noodle', 'bread', 'flour', 'potato', 'oats', 'corn', 'quinoa', 'couscous', 'tortilla', 'naan', 'roti', 'chickpea', 'lentil', 'dal', 'beans', 'honey', 'maple syrup', 'banana'],
+    except: ['sugar-free', 'low-carb', 'keto', 'cauliflower', 'almond', 'coconut', 'konjac', 'shirataki', 'zucchini', 'green beans'],
+  },
+};
+
+// Categories we treat as allergens (the rest only matter to diets)
+export const ALLERGEN_CATEGORIES: FoodCategory[] = ['peanut', 'tree-nut', 'gluten', 'dairy', 'egg', 'soy', 'fish', 'shellfish', 'sesame', 'mustard', 'celery'];
+
+// Categories each diet rules out
+export const DIET_EXCLUSIONS: Record<string, FoodCategory[]> = {
+  vegan: ['meat', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  pescatarian: ['meat'],
+  keto: ['high-carb'],
+};
+
+// Categories the diet rules out. A custom diet can list several known ones ("vegetarian,
+// keto"), e.g. when household profiles are combined.
+export function excludedCategories(restrictions: Pick<RecipeOptions, 'diet' | 'customDiet'>): FoodCategory[] {
+  const diets = restrictions.diet === 'other'
+    ? (restrictions.customDiet ?? '').split(/,|\band\b/).map(diet => diet.trim().toLowerCase())
+    : [restrictions.diet];
+  return Array.from(new Set(diets.flatMap(diet => DIET_EXCLUSIONS[diet] ?? [])));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termPattern(term: string, flags = 'i'): RegExp {
+  return new RegExp(`\\b${escapeRegExp(term)}(?:e?s)?\\b`, flags);
+}
+
+// Whole-word match that also takes plurals: "eggs" mentions egg, "eggplant" doesn't
+export function mentions(text: string, term: string): boolean {
+  return termPattern(term).test(text);
+}
+
+// Where an except qualifier stops applying: "butter and coconut milk" still has butter
+const PHRASE_BREAK = /[,;/&+]|\b(?:and|or|with|plus)\b/i;
+
+// Whether the text mentions the term somewhere no qualifier applies to. A qualifier
+// applies to a term later in its phrase or one it overlaps, so "coconut milk", "vegan
+// cheddar cheese" and "peanut butter" are qualified but "milk, coconut" isn't.
+function mentionsUnqualified(text: string, term: string, except: string[] = []): boolean {
+  return text.split(PHRASE_BREAK).some(phrase => {
+    const qualifierStarts = except.flatMap(qualifier => Array.from(phrase.matchAll(termPattern(qualifier, 'gi')), match => match.index!));
+    return Array.from(phrase.matchAll(termPattern(term, 'gi'))).some(match => {
+      const end = match.index! + match[0].length;
+      return !qualifierStarts.some(start => start < end);
+    });
+  });
+}
+
+export function categoryLabel(category: FoodCategory): string {
+  return CATEGORIES[category].label;
+}
+
+// Every category an ingredient name (or any free text) falls into
+export function categoriesOf(text: string): FoodCategory[] {
+  return (Object.keys(CATEGORIES) as FoodCategory[]).filter(category => {
+    const info = CATEGORIES[category];
+    return info.terms.some(term => mentionsUnqualified(text, term, info.except));
+  });
+}
+
+// Reads the free-text allergens field: entries naming a category become that category
+// ("nuts", "dairy", "sesame seeds", "wheat flour"); anything else ("kiwi", "cashews",
+// "coconut milk") is matched as a literal ingredient.
+export function parseAllergens(text: string): { categories: FoodCategory[]; terms: string[] } {
+  const categories = new Set<FoodCategory>();
+  const terms: string[] = [];
+  for (const entry of text.split(/,|;|\band\b|\bor\b/i).map(item => item.trim().toLowerCase()).filter(Boolean)) {
+    const matches = ALLERGEN_CATEGORIES.filter(category =>
+      CATEGORIES[category].names.some(name => mentionsUnqualified(entry, name, CATEGORIES[category].except))
+    );
+    if (matches.length > 0) {
+      matches.forEach(category => categories.add(category));
+    } else {
+      terms.push(entry);
+    }
+  }
+  return { categories: Array.from(categories), terms };
+}
+
+// The allergens field spelled out for the prompt, e.g. "dairy (milk, butter, ghee, ...)"
+export function describeAllergens(text: string): string {
+  const { categories, terms } = parseAllergens(text);
+  return [
+    ...categories.map(category => `${CATEGORIES[category].label} (including ${CATEGORIES[category].terms.slice(0, 8).join(', ')})`),
+    ...terms,
+  ].join('; ');
+}
+
+export interface SafetyConflict {
+  // Where we found it: an ingredient name or a substitution suggestion
+  source: 'ingredient' | 'substitution';
+  text: string;
+  reason: 'allergen' | 'diet';
+  // What it conflicts with, e.g. "dairy" or "kiwi"
+  label: string;
+}
+
+// Every ingredient and substitution that conflicts with the declared allergens or diet
+export function findConflicts(recipe: Recipe, restrictions: Pick<RecipeOptions, 'diet' | 'customDiet' | 'allergens'>): SafetyConflict[] {
+  const { categories, terms } = parseAllergens(restrictions.allergens ?? '');
+  const dietCategories = excludedCategories(restrictions);
+  const conflicts: SafetyConflict[] = [];
+
+  const scan = (source: SafetyConflict['source'], text: string) => {
+    const found = categoriesOf(text);
+    for (const category of categories.filter(category => found.includes(category))) {
+      conflicts.push({ source, text, reason: 'allergen', label: CATEGORIES[category].label });
+    }
+    for (const term of terms.filter(term => mentions(text, term))) {
+      conflicts.push({ source, text, reason: 'allergen', label: term });
+    }
+    for (const category of dietCategories.filter(category => found.includes(category))) {
+      conflicts.push({ source, text, reason: 'diet', label: CATEGORIES[category].label });
+    }
+  };
+
+  recipe.ingredients.forEach(ingredient => scan('ingredient', ingredient.name));
+  recipe.substitutions.forEach(substitution => scan('substitution', substitution));
+  return conflicts;
+}
@@ -0,0 +1,132 @@
+import { fromErrorBody } from './apiErrors';
+import type { MealPlan, MealSlot } from './mealPlan';
+import type { Recipe } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+import type { RecipeResult, RecipeStreamEvent, RefinementTurn } from './recipes';
+import type { SubstitutionGroup } from './substitutions';
+import type { UnitSystem } from './unitSystems';
+
+// Browser-side helpers for the /api routes. The model API key only lives on the server.
+// Recipe and substitution answers are cached on the server; pass `regenerate` to ask
+// the model again anyway. Failures reject with an ApiError when the server gave a code;
+// show them with errorMessage.
+
+async function postJSON<T>(url: string, payload: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw data?.error ? fromErrorBody(data) : new Error(`Request failed: ${response.statusText}`);
+  }
+  return data as T;
+}
+
+export function requestRecipe(
+  ingredients: string,
+  options: RecipeOptions,
+  regenerate = false
+): Promise<RecipeResult> {
+  return postJSON('/api/recipe', { ingredients, options, regenerate });
+}
+
+export async function requestRecipeCandidates(
+  ingredients: string,
+  options: RecipeOptions,
+  count: number,
+  regenerate = false
+): Promise<RecipeResult[]> {
+  const { candidates } = await postJSON<{ candidates: RecipeResult[] }>(
+    '/api/recipe/candidates',
+    { ingredients, options, count, regenerate }
+  );
+  return candidates;
+}
+
+export async function requestMealPlan(
+  ingredients: string,
+  options: RecipeOptions,
+  days: number,
+  mealsPerDay: number
+): Promise<MealPlan> {
+  const { plan } = await postJSON<{ plan: MealPlan }>('/api/meal-plan', { ingredients, options, days, mealsPerDay });
+  return plan;
+}
+
+// The recipe for one slot of a meal plan; `avoid` lists dishes it shouldn't repeat
+export function requestMealRecipe(
+  slot: MealSlot,
+  options: RecipeOptions,
+  avoid: string[] = []
+): Promise<RecipeResult> {
+  return postJSON('/api/meal-plan/slot', { slot, options, avoid });
+}
+
+// Changes `recipe` as `instruction` asks, following on from the earlier `turns`
+export function requestRefinement(
+  recipe: Recipe,
+  turns: RefinementTurn[],
+  instruction: string,
+  options: RecipeOptions
+): Promise<RecipeResult> {
+  return postJSON('/api/recipe/refine', { recipe, turns, instruction, options });
+}
+
+export async function requestSubstitutions(
+  ingredients: string[],
+  options: RecipeOptions,
+  regenerate = false
+): Promise<SubstitutionGroup[]> {
+  const { substitutions } = await postJSON<{ substitutions: SubstitutionGroup[] }>('/api/substitutions', { ingredients, options, regenerate });
+  return substitutions;
+}
+
+// Stores a snapshot of the recipe for sharing; resolves to its id (see /shared/[id])
+export async function shareRecipe(recipe: Recipe, servings: number, units: UnitSystem): Promise<string> {
+  const { id } = await postJSON<{ id: string }>('/api/share', { recipe, servings, units });
+  return id;
+}
+
+// Calls the streaming recipe endpoint and hands each event to onEvent as it arrives.
+// Resolves when the stream ends; rejects with an AbortError if `signal` is aborted.
+export async function requestRecipeStream(
+  ingredients: string,
+  options: RecipeOptions,
+  onEvent: (event: RecipeStreamEvent) => void,
+  signal?: AbortSignal,
+  regenerate = false
+): Promise<void> {
+  const response = await fetch('/api/recipe/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ingredients, options, regenerate }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw data?.error ? fromErrorBody(data) : new Error(`Request failed: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
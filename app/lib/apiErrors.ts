@@ -0,0 +1,67 @@
+// Error codes the /api routes answer with, shared by the routes and the pages. The
+// server's message says what went wrong; the pages show a friendlier one picked by code.
+
+export type ApiErrorCode = 'rate_limited' | 'timeout' | 'upstream_error' | 'invalid_input';
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  rate_limited: 429,
+  timeout: 504,
+  upstream_error: 502,
+  invalid_input: 400,
+};
+
+// The JSON body of a failed /api response, and the payload of a stream's error event
+export interface ApiErrorBody {
+  error: string;
+  code?: ApiErrorCode;
+  // For rate_limited: seconds to wait before trying again
+  retryAfter?: number;
+}
+
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  retryAfterSeconds?: number;
+
+  constructor(code: ApiErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && value in API_ERROR_STATUS;
+}
+
+// An ApiError when the body carries a code we know, otherwise a plain Error
+export function fromErrorBody({ error, code, retryAfter }: ApiErrorBody): Error {
+  if (!isApiErrorCode(code)) return new Error(error);
+  return new ApiError(code, error, typeof retryAfter === 'number' ? retryAfter : undefined);
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// What to show the user for a failed request
+export function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    switch (error.code) {
+      case 'rate_limited':
+        return error.retryAfterSeconds
+          ? `Currently I can't process your request. Please try again in ${describeWait(error.retryAfterSeconds)}.`
+          : "Currently I can't process your request. Please try again in a bit.";
+      case 'timeout':
+        return 'The recipe model is taking too long to answer. Please try again.';
+      case 'upstream_error':
+        return "The recipe model isn't answering properly right now. Please try again in a bit.";
+      case 'invalid_input':
+        // The server's message says which field to fix
+        return error.message;
+    }
+  }
+  return error instanceof Error ? error.message : fallback;
+}
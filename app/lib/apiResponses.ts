@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { config } from '../config';
+import { API_ERROR_STATUS, ApiError, ApiErrorBody, ApiErrorCode } from './apiErrors';
+import { clientId, createRateLimiter } from './rateLimit';
+
+// Error responses for the /api routes, in the shape api.ts expects. Server-only.
+
+const limiter = config.rateLimitPerMinute > 0
+  ? createRateLimiter({ capacity: config.rateLimitBurst, refillPerSecond: config.rateLimitPerMinute / 60 })
+  : null;
+
+export function apiError(code: ApiErrorCode, message: string, retryAfterSeconds?: number): NextResponse {
+  const body: ApiErrorBody = { error: message, code, ...(retryAfterSeconds && { retryAfter: retryAfterSeconds }) };
+  return NextResponse.json(body, {
+    status: API_ERROR_STATUS[code],
+    headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+  });
+}
+
+export function invalidInput(message: string): NextResponse {
+  return apiError('invalid_input', message);
+}
+
+// ApiErrors keep their code; anything else is a plain 500
+export function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof ApiError) {
+    return apiError(error.code, error.message, error.retryAfterSeconds);
+  }
+  return NextResponse.json({ error: error instanceof Error ? error.message : fallback }, { status: 500 });
+}
+
+// A 429 response if this client has used up its allowance, otherwise null. `cost` is
+// how many model calls the request may make; requests that store something count 1.
+export function limitRate(request: Request, cost = 1): NextResponse | null {
+  if (!limiter) return null;
+  const { allowed, retryAfterSeconds } = limiter.take(clientId(request, config.trustProxy), cost);
+  if (allowed) return null;
+  return apiError('rate_limited', 'Too many requests. Please slow down.', retryAfterSeconds);
+}
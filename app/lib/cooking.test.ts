@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { planDeductions, settleDeductions } from './cooking';
+import type { PantryItem } from './pantry';
+import { testRecipe } from './testRecipe';
+
+const pantryItem = (id: string, name: string, quantity: number | null, unit: string): PantryItem => ({
+  id,
+  name,
+  quantity,
+  unit,
+  location: 'pantry',
+  bestBefore: null,
+  addedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('planDeductions', () => {
+  it('only draws on items that name the same food', () => {
+    const stock = [pantryItem('oil', 'Oil', 500, 'ml'), pantryItem('salt', 'Salt', 100, 'g'), pantryItem('egg', 'Eggs', 6, '')];
+    const planned = planDeductions(testRecipe({ ingredients: [
+      { quantity: 1, unit: 'l', name: 'boiling water' },
+      { quantity: 50, unit: 'g', name: 'unsalted butter' },
+      { quantity: 1, unit: '', name: 'eggplant' },
+      { quantity: 2, unit: '', name: 'eggs' },
+    ] }), 2, stock);
+    expect(planned.map(deduction => deduction.item?.id ?? null)).toEqual([null, null, null, 'egg']);
+    expect(planned[3]).toMatchObject({ used: 2, remaining: 4, status: 'deduct' });
+  });
+});
+
+describe('settleDeductions', () => {
+  const rice = pantryItem('rice', 'Rice', 500, 'g');
+  const planned = planDeductions(testRecipe({ ingredients: [
+    { quantity: 200, unit: 'g', name: 'rice' },
+    { quantity: 300, unit: 'g', name: 'cooked rice' },
+  ] }), 2, [rice]);
+
+  it('deducts every approved use of the same item', () => {
+    expect(planned.map(deduction => deduction.status)).toEqual(['deduct', 'remove']);
+    expect(settleDeductions(planned)).toEqual([
+      { item: rice, used: 200, remaining: 300, removed: false },
+      { item: rice, used: 300, remaining: null, removed: true },
+    ]);
+  });
+
+  it('recomputes stock when an earlier deduction is dropped', () => {
+    expect(settleDeductions([planned[1]])).toEqual([{ item: rice, used: 300, remaining: 200, removed: false }]);
+  });
+
+  it('removes items the user says are used up', () => {
+    const flour = pantryItem('flour', 'Flour', null, '');
+    const [unknown] = planDeductions(testRecipe({ ingredients: [{ quantity: 1, unit: 'cup', name: 'flour' }] }), 2, [flour]);
+    expect(unknown.status).toBe('unknown-amount');
+    expect(settleDeductions([unknown])).toEqual([]);
+    expect(settleDeductions([unknown], ['flour'])).toEqual([{ item: flour, used: null, remaining: null, removed: true }]);
+  });
+});
@@ -0,0 +1,153 @@
+import { scaleIngredient } from './ingredients';
+import { matchesLeftover } from './leftovers';
+import { PantryItem, deletePantryItem, listPantryItems, updatePantryItem } from './pantry';
+import type { Recipe, RecipeIngredient } from './recipe';
+import { createId, readJSON, writeJSON } from './storage';
+import { convertQuantity, normaliseUnit, unitDimension } from './units';
+
+// "I cooked this": works out how much of each pantry item a recipe used up, lets the
+// user review it, then deducts it and records the meal in the cooking history.
+
+const HISTORY_KEY = 'leftovers.cookingHistory';
+
+// Counted units that describe size rather than amount, so "1 medium onion" uses 1 of "3 onions"
+const SIZE_WORDS = ['', 'small', 'medium', 'large', 'whole', 'piece', 'item', 'each'];
+
+export type DeductionStatus =
+  // Stock goes down by `used`
+  | 'deduct'
+  // The recipe uses up everything we have
+  | 'remove'
+  // We have it but can't compare amounts (no quantity recorded, or incompatible units)
+  | 'unknown-amount'
+  // Nothing in stock matches this ingredient
+  | 'not-in-stock';
+
+export interface Deduction {
+  ingredient: RecipeIngredient;
+  item: PantryItem | null;
+  // Amount used, in the pantry item's unit
+  used: number | null;
+  remaining: number | null;
+  status: DeductionStatus;
+}
+
+export interface CookingHistoryEntry {
+  id: string;
+  title: string;
+  servings: number;
+  cookedAt: string;
+  used: { name: string; quantity: number | null; unit: string; removed: boolean }[];
+}
+
+// Amounts below this are rounding noise, so the item counts as used up
+const EPSILON = 0.001;
+
+// Converts a recipe amount into the unit stock is kept in; null when they can't be compared
+export function convertForStock(quantity: number, from: string, to: string): number | null {
+  const converted = convertQuantity(quantity, from, to);
+  if (converted !== null) return converted;
+  const bothCounted = unitDimension(from) === 'count' && unitDimension(to) === 'count';
+  if (bothCounted && SIZE_WORDS.includes(normaliseUnit(from)) && SIZE_WORDS.includes(normaliseUnit(to))) {
+    return quantity;
+  }
+  return null;
+}
+
+// Matches each ingredient of the recipe, scaled to `servings`, against the pantry
+export function planDeductions(recipe: Recipe, servings: number, stock: PantryItem[]): Deduction[] {
+  const scale = servings / recipe.servings;
+  // Running stock levels, in case two ingredients draw on the same item
+  const available = new Map(stock.map(item => [item.id, item.quantity]));
+  return recipe.ingredients.map((original): Deduction => {
+    const ingredient = scaleIngredient(original, scale);
+    const item = stock.find(candidate => matchesLeftover(ingredient.name, candidate.name.toLowerCase())) ?? null;
+    if (!item) {
+      return { ingredient, item, used: null, remaining: null, status: 'not-in-stock' };
+    }
+    const inStock = available.get(item.id) ?? null;
+    if (inStock === null || ingredient.quantity === null) {
+      return { ingredient, item, used: null, remaining: null, status: 'unknown-amount' };
+    }
+    const used = convertForStock(ingredient.quantity, ingredient.unit, item.unit);
+    if (used === null) {
+      return { ingredient, item, used: null, remaining: null, status: 'unknown-amount' };
+    }
+    const remaining = Math.max(0, inStock - used);
+    available.set(item.id, remaining);
+    return {
+      ingredient,
+      item,
+      used,
+      remaining,
+      status: remaining < EPSILON ? 'remove' : 'deduct',
+    };
+  });
+}
+
+export interface StockChange {
+  item: PantryItem;
+  used: number | null;
+  // New stock level; null when the item is taken out of stock
+  remaining: number | null;
+  removed: boolean;
+}
+
+// Works out what the approved deductions do to each pantry item. Stock levels are
+// recomputed from the approved deductions alone: the planned `remaining` assumes every
+// earlier deduction from the same item goes ahead, which isn't so once the user drops one.
+// Deductions for `removeIds` take the item out of stock entirely, whatever the amounts say.
+export function settleDeductions(approved: Deduction[], removeIds: string[] = []): StockChange[] {
+  const available = new Map<string, number | null>();
+  const removedIds = new Set<string>();
+  const changes: StockChange[] = [];
+  for (const deduction of approved) {
+    const { item } = deduction;
+    if (!item || removedIds.has(item.id)) continue;
+    const inStock = available.has(item.id) ? available.get(item.id)! : item.quantity;
+    const measured = (deduction.status === 'deduct' || deduction.status === 'remove') && deduction.used !== null && inStock !== null;
+    const remaining = measured ? Math.max(0, inStock - deduction.used!) : null;
+    const removed = removeIds.includes(item.id) || (remaining !== null && remaining < EPSILON);
+    if (removed) {
+      removedIds.add(item.id);
+    } else if (remaining !== null) {
+      available.set(item.id, remaining);
+    } else {
+      continue;
+    }
+    changes.push({ item, used: deduction.used, remaining: removed ? null : remaining, removed });
+  }
+  return changes;
+}
+
+// Applies the approved deductions to the pantry and records the meal in the cooking history
+export function applyDeductions(recipe: Recipe, servings: number, approved: Deduction[], removeIds: string[] = []): CookingHistoryEntry {
+  const used: CookingHistoryEntry['used'] = [];
+  for (const { item, used: amount, remaining, removed } of settleDeductions(approved, removeIds)) {
+    if (removed) {
+      deletePantryItem(item.id);
+    } else {
+      updatePantryItem(item.id, { quantity: Number(remaining!.toFixed(3)) });
+    }
+    used.push({ name: item.name, quantity: amount, unit: item.unit, removed });
+  }
+
+  const entry: CookingHistoryEntry = {
+    id: createId(),
+    title: recipe.title,
+    servings,
+    cookedAt: new Date().toISOString(),
+    used,
+  };
+  writeJSON(HISTORY_KEY, [entry, ...listCookingHistory()]);
+  return entry;
+}
+
+export function listCookingHistory(): CookingHistoryEntry[] {
+  return readJSON<CookingHistoryEntry[]>(HISTORY_KEY, []);
+}
+
+// Convenience for components: plans against the current pantry contents
+export function planDeductionsFromPantry(recipe: Recipe, servings: number): Deduction[] {
+  return planDeductions(recipe, servings, listPantryItems());
+}
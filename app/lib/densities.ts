@@ -0,0 +1,63 @@
+// Grams per US cup for common dry and dense ingredients, so "1 cup flour" can become
+// grams and back. Pourable liquids (milk, oil, stock) are left out: they stay in ml.
+
+const GRAMS_PER_CUP: Record<string, number> = {
+  'all-purpose flour': 125,
+  'plain flour': 125,
+  'self-raising flour': 125,
+  'bread flour': 130,
+  'whole wheat flour': 120,
+  'wholemeal flour': 120,
+  'chickpea flour': 92,
+  'besan': 92,
+  'almond flour': 96,
+  'flour': 125,
+  'cornstarch': 128,
+  'cornflour': 128,
+  'caster sugar': 200,
+  'brown sugar': 220,
+  'powdered sugar': 120,
+  'icing sugar': 120,
+  'sugar': 200,
+  'honey': 340,
+  'maple syrup': 315,
+  'cocoa powder': 85,
+  'baking powder': 192,
+  'salt': 288,
+  'butter': 227,
+  'ghee': 205,
+  'yogurt': 245,
+  'yoghurt': 245,
+  'cooked rice': 160,
+  'cooked brown rice': 195,
+  'rice': 185,
+  'quinoa': 170,
+  'couscous': 175,
+  'rolled oats': 90,
+  'oats': 90,
+  'lentils': 190,
+  'dal': 190,
+  'cooked chickpeas': 164,
+  'chickpeas': 164,
+  'beans': 180,
+  'grated cheese': 100,
+  'cheese': 113,
+  'breadcrumbs': 110,
+  'nuts': 140,
+  'almonds': 143,
+  'peanuts': 146,
+  'raisins': 145,
+  'spinach': 30,
+  'peas': 145,
+  'corn': 165,
+};
+
+// Longest names first so "brown sugar" wins over "sugar"
+const NAMES = Object.keys(GRAMS_PER_CUP).sort((a, b) => b.length - a.length);
+
+// Grams in one cup of the named ingredient, or null if we don't know its density
+export function gramsPerCup(ingredientName: string): number | null {
+  const name = ingredientName.toLowerCase();
+  const match = NAMES.find(key => new RegExp(`\\b${key}\\b`).test(name));
+  return match ? GRAMS_PER_CUP[match] : null;
+}
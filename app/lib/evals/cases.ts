@@ -0,0 +1,74 @@
+import { DEFAULT_RECIPE_OPTIONS, RecipeOptions } from '../recipeOptions';
+
+// The fixed set of requests prompt versions are compared on. Each one leans on a
+// different review check; keep ids stable, as recordings refer to them.
+
+export interface EvalCase {
+  id: string;
+  ingredients: string;
+  options: RecipeOptions;
+}
+
+function evalCase(id: string, ingredients: string, options: Partial<RecipeOptions> = {}): EvalCase {
+  return { id, ingredients, options: { ...DEFAULT_RECIPE_OPTIONS, ...options } };
+}
+
+export const EVAL_CASES: EvalCase[] = [
+  evalCase('basic', 'cooked rice, 2 eggs, half an onion, frozen peas'),
+  evalCase('family-of-four', '500g minced beef, 1 tin chopped tomatoes, 200g spaghetti, 1 carrot', {
+    diet: 'non-vegetarian',
+    cuisine: 'italian',
+    servings: 4,
+  }),
+  evalCase('large-amounts', '1kg potatoes, 400g cheddar, 1 litre milk, 6 eggs', {
+    cuisine: 'other',
+    customCuisine: 'British',
+    servings: 2,
+  }),
+  evalCase('quick-weeknight', 'chicken thighs, broccoli, soy sauce, garlic, cooked noodles', {
+    diet: 'non-vegetarian',
+    cuisine: 'chinese',
+    quick: true,
+    servings: 2,
+  }),
+  evalCase('vegan', 'chickpeas, spinach, half a tin of coconut milk, naan bread, yogurt', {
+    diet: 'vegan',
+    servings: 2,
+  }),
+  evalCase('allergens', 'cooked chicken, peanut butter, rice noodles, cucumber, spring onions', {
+    diet: 'non-vegetarian',
+    cuisine: 'thai',
+    allergens: 'peanuts, soy',
+  }),
+  evalCase('gluten-free', 'leftover roast lamb, couscous, feta, mint, red onion', {
+    diet: 'other',
+    customDiet: 'gluten-free',
+    cuisine: 'other',
+    customCuisine: 'Middle Eastern',
+    allergens: 'milk',
+    servings: 3,
+  }),
+  evalCase('macro-goals', 'tofu, brown rice, kale, half an avocado, sesame seeds', {
+    diet: 'vegan',
+    cuisine: 'other',
+    customCuisine: 'Japanese',
+    highProtein: true,
+    maxCalories: 600,
+    quick: true,
+  }),
+  evalCase('metric-baking', 'overripe bananas, 2 cups flour, 1 stick butter, brown sugar', {
+    dishType: 'dessert',
+    cuisine: 'american',
+    units: 'metric',
+    servings: 6,
+  }),
+  evalCase('us-units-brunch', '300g smoked salmon, 4 eggs, 100ml double cream, chives', {
+    diet: 'pescatarian',
+    dishType: 'other',
+    customDishType: 'brunch',
+    cuisine: 'other',
+    customCuisine: 'French',
+    units: 'us',
+    difficulty: 3,
+  }),
+];
@@ -0,0 +1,5 @@
+import { config } from 'dotenv';
+
+// Next.js reads .env.local by itself, but commands run with tsx don't. Import this before
+// anything that reads app/config.ts.
+config({ path: '.env.local' });
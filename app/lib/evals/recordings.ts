@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import type { GenerateRequest, LLMProvider, ProviderName } from '../providers';
+
+// Recorded model outputs, so an evaluation can be rerun offline and at no cost. A
+// recording is one JSON file holding the output for each prompt it has seen, keyed by a
+// hash of the prompt and any earlier turns, so a prompt whose wording changed has nothing
+// to replay.
+
+interface Recording {
+  provider: ProviderName;
+  model: string;
+  structured: boolean;
+  outputs: Record<string, string>;
+}
+
+function promptHash({ prompt, history = [], schema }: GenerateRequest): string {
+  return createHash('sha256').update(JSON.stringify([prompt, Boolean(schema), history])).digest('hex');
+}
+
+// Passes calls through to `provider` and keeps what it answers; `save` writes it out,
+// adding to the recording already in `file`, if any
+export async function createRecorder(provider: LLMProvider, file: string) {
+  const recording: Recording = {
+    provider: provider.name,
+    model: provider.model,
+    structured: provider.supportsStructuredOutput,
+    outputs: {},
+  };
+  try {
+    const existing = JSON.parse(await readFile(file, 'utf8')) as Recording;
+    if (existing.provider === provider.name && existing.model === provider.model) {
+      recording.outputs = existing.outputs;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const recorder: LLMProvider = {
+    ...provider,
+    async generate(request) {
+      const output = await provider.generate(request);
+      recording.outputs[promptHash(request)] = output;
+      return output;
+    },
+    async *stream(request) {
+      yield await recorder.generate(request);
+    },
+  };
+  return {
+    provider: recorder,
+    save: () => writeFile(file, JSON.stringify(recording, null, 2) + '\n'),
+  };
+}
+
+// Answers from a recording instead of calling the model. It poses as the provider that
+// was recorded, so prompts are built the same way.
+export async function createReplayProvider(file: string): Promise<LLMProvider> {
+  const recording = JSON.parse(await readFile(file, 'utf8')) as Recording;
+  const replay: LLMProvider = {
+    name: recording.provider,
+    model: recording.model,
+    supportsStructuredOutput: recording.structured,
+    async generate(request) {
+      const output = recording.outputs[promptHash(request)];
+      if (output === undefined) {
+        throw new Error(`${file} has no output for this prompt. Record it again with --record.`);
+      }
+      return output;
+    },
+    async *stream(request) {
+      yield await replay.generate(request);
+    },
+  };
+  return replay;
+}
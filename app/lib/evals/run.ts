@@ -0,0 +1,134 @@
+import './env';
+import { parseArgs } from 'util';
+import { config } from '../../config';
+import { getPrompt, PROMPT_TEMPLATES, PromptTemplate, promptLabel } from '../prompts';
+import { getProvider, LLMProvider, ProviderName } from '../providers';
+import { RECIPE_JSON_SCHEMA } from '../recipe';
+import { finishRecipe } from '../recipes';
+import { EVAL_CASES, EvalCase } from './cases';
+import { createRecorder, createReplayProvider } from './recordings';
+import { CaseScore, EVAL_CHECKS, passedAll, scoreCase } from './score';
+
+// Offline evaluation of recipe prompt versions: runs every case in EVAL_CASES through
+// each version and prints how many pass each review check, side by side.
+//
+//   npm run eval:prompts -- [--versions 1,2] [--cases basic,vegan] [--provider gemini]
+//                           [--record evals.json | --replay evals.json]
+//
+// --record keeps the model's outputs in a file; --replay scores those again without
+// calling the model. Repairs are left out: this measures what each prompt gets right first time.
+
+const USAGE = 'Usage: npm run eval:prompts -- [--versions 1,2] [--cases id,id] [--provider name] [--record file | --replay file]';
+
+function list(value: string | undefined): string[] | undefined {
+  return value?.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+async function evaluate(template: PromptTemplate<'recipe'>, evalCase: EvalCase, provider: LLMProvider): Promise<CaseScore> {
+  const structured = provider.supportsStructuredOutput;
+  const started = Date.now();
+  try {
+    const output = await provider.generate({
+      task: 'recipe',
+      prompt: template.render({ ingredients: evalCase.ingredients, options: evalCase.options, structured, extraInstructions: '' }),
+      schema: structured ? RECIPE_JSON_SCHEMA : undefined,
+    });
+    const { issues } = finishRecipe(output, structured, evalCase.options);
+    return scoreCase(evalCase.options, issues, Date.now() - started);
+  } catch (error) {
+    return scoreCase(evalCase.options, null, Date.now() - started, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function describeScore(score: CaseScore): string {
+  if (score.error) return `error: ${score.error}`;
+  const failed = Object.entries(score.checks).filter(([, passed]) => !passed).map(([check]) => check);
+  return failed.length === 0 ? 'pass' : `fail (${failed.join(', ')})`;
+}
+
+function printReport(templates: PromptTemplate<'recipe'>[], cases: EvalCase[], scores: Map<string, CaseScore[]>) {
+  const labels = templates.map(promptLabel);
+  const width = Math.max(12, ...labels.map(label => label.length + 2));
+  const row = (name: string, cells: string[]) => console.log((name.padEnd(20) + cells.map(cell => cell.padEnd(width)).join('')).trimEnd());
+
+  console.log('');
+  row('', labels);
+  for (const { check, label } of EVAL_CHECKS) {
+    const cells = labels.map(name => {
+      const applicable = scores.get(name)!.filter(score => score.checks[check] !== undefined);
+      return applicable.length === 0 ? '-' : `${applicable.filter(score => score.checks[check]).length}/${applicable.length}`;
+    });
+    row(label, cells);
+  }
+  row('All checks', labels.map(name => `${scores.get(name)!.filter(passedAll).length}/${cases.length}`));
+  row('Average time', labels.map(name => {
+    const results = scores.get(name)!;
+    return `${(results.reduce((total, score) => total + score.ms, 0) / results.length / 1000).toFixed(1)}s`;
+  }));
+
+  if (labels.length < 2) return;
+  const differing = cases.filter((_, index) => new Set(labels.map(name => describeScore(scores.get(name)![index]))).size > 1);
+  console.log(`\n${differing.length === 0 ? 'Every case scored the same.' : 'Cases that scored differently:'}`);
+  for (const evalCase of differing) {
+    const index = cases.indexOf(evalCase);
+    console.log(`  ${evalCase.id}`);
+    for (const name of labels) console.log(`    ${name.padEnd(width)}${describeScore(scores.get(name)![index])}`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      versions: { type: 'string' },
+      cases: { type: 'string' },
+      provider: { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+    },
+  });
+  if (values.record && values.replay) throw new Error(`Use either --record or --replay.\n${USAGE}`);
+
+  const versions = list(values.versions)?.map(Number) ?? PROMPT_TEMPLATES.recipe.map(template => template.version);
+  const templates = versions.map(version => getPrompt('recipe', version));
+  const ids = list(values.cases);
+  const cases = ids ? EVAL_CASES.filter(evalCase => ids.includes(evalCase.id)) : EVAL_CASES;
+  if (cases.length === 0) throw new Error(`No cases match. Cases: ${EVAL_CASES.map(evalCase => evalCase.id).join(', ')}.`);
+
+  let provider: LLMProvider;
+  let recorder: Awaited<ReturnType<typeof createRecorder>> | undefined;
+  if (values.replay) {
+    provider = await createReplayProvider(values.replay);
+  } else {
+    provider = getProvider((values.provider as ProviderName | undefined) ?? config.llmProvider);
+    if (values.record) {
+      recorder = await createRecorder(provider, values.record);
+      provider = recorder.provider;
+    }
+  }
+
+  console.log(`Evaluating ${templates.map(promptLabel).join(', ')} on ${cases.length} cases with ${provider.name} (${provider.model})${values.replay ? `, replayed from ${values.replay}` : ''}`);
+  for (const template of templates) console.log(`  ${promptLabel(template)}: ${template.summary}`);
+
+  // One request at a time, to stay under provider rate limits
+  const scores = new Map<string, CaseScore[]>();
+  for (const template of templates) {
+    const results: CaseScore[] = [];
+    for (const evalCase of cases) {
+      const score = await evaluate(template, evalCase, provider);
+      console.log(`  ${promptLabel(template)} ${evalCase.id}: ${describeScore(score)}`);
+      results.push(score);
+    }
+    scores.set(promptLabel(template), results);
+  }
+  if (recorder) {
+    await recorder.save();
+    console.log(`Recorded outputs to ${values.record}`);
+  }
+
+  printReport(templates, cases, scores);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
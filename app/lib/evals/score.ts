@@ -0,0 +1,66 @@
+import type { RecipeOptions } from '../recipeOptions';
+import type { RecipeIssue, RecipeIssueCode } from '../recipeReview';
+
+// Scores one model output with the same review checks the app runs on every recipe.
+// A check only counts for cases that ask for it: "time" for quick recipes, "diet" when
+// there is one, and so on.
+
+export type EvalCheck = 'parsed' | 'sections' | 'servings' | 'diet' | 'allergens' | 'time' | 'nutrition';
+
+export const EVAL_CHECKS: { check: EvalCheck; label: string }[] = [
+  { check: 'parsed', label: 'Parsed' },
+  { check: 'sections', label: 'Sections present' },
+  { check: 'servings', label: 'Servings' },
+  { check: 'diet', label: 'Diet' },
+  { check: 'allergens', label: 'Allergens avoided' },
+  { check: 'time', label: 'Quick enough' },
+  { check: 'nutrition', label: 'Nutrition goals' },
+];
+
+const CHECK_FOR_ISSUE: Record<RecipeIssueCode, EvalCheck> = {
+  'missing-section': 'sections',
+  servings: 'servings',
+  diet: 'diet',
+  allergen: 'allergens',
+  'too-slow': 'time',
+  'nutrition-goal': 'nutrition',
+};
+
+export interface CaseScore {
+  // Pass or fail for each check that applies to the case
+  checks: Partial<Record<EvalCheck, boolean>>;
+  issues: RecipeIssue[];
+  // Why the output couldn't be scored, if it couldn't
+  error?: string;
+  ms: number;
+}
+
+function appliesTo(check: EvalCheck, options: RecipeOptions): boolean {
+  switch (check) {
+    case 'diet':
+      return Boolean(options.diet === 'other' ? options.customDiet : options.diet);
+    case 'allergens':
+      return options.allergens.trim().length > 0;
+    case 'time':
+      return options.quick;
+    case 'nutrition':
+      return options.highProtein || options.lowCarb || options.maxCalories !== null || options.proteinTarget !== null;
+    default:
+      return true;
+  }
+}
+
+// A failed generation or an unparseable output fails every check that applies
+export function scoreCase(options: RecipeOptions, issues: RecipeIssue[] | null, ms: number, error?: string): CaseScore {
+  const failed = new Set(issues?.map(issue => CHECK_FOR_ISSUE[issue.code]));
+  const checks: CaseScore['checks'] = {};
+  for (const { check } of EVAL_CHECKS) {
+    if (appliesTo(check, options)) checks[check] = issues !== null && !failed.has(check);
+  }
+  return { checks, issues: issues ?? [], error, ms };
+}
+
+// Cases where every check that applies passed
+export function passedAll(score: CaseScore): boolean {
+  return Object.values(score.checks).every(Boolean);
+}
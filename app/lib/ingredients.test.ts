@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatQuantity,
+  normaliseAmount,
+  parseAmount,
+  parseIngredientLine,
+  pluraliseUnit,
+  scaleIngredient,
+} from './ingredients';
+import type { RecipeIngredient } from './recipe';
+
+describe('parseAmount', () => {
+  it.each([
+    ['2', 2],
+    ['1.5', 1.5],
+    ['.5', 0.5],
+    ['1/2', 0.5],
+    ['2 1/2', 2.5],
+    ['2  1 / 2', 2.5],
+    ['½', 0.5],
+    ['2½', 2.5],
+    ['2 ¾', 2.75],
+    ['⅓', 1 / 3],
+  ])('%s -> %d', (text, expected) => {
+    expect(parseAmount(text)).toBeCloseTo(expected);
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it.each([
+    ['2 1/2 cups flour, sifted', { quantity: 2.5, range: null, unit: 'cups', name: 'flour', note: 'sifted' }],
+    ['½ tsp salt', { quantity: 0.5, range: null, unit: 'tsp', name: 'salt', note: '' }],
+    ['2½ tbsp olive oil', { quantity: 2.5, range: null, unit: 'tbsp', name: 'olive oil', note: '' }],
+    ['.5 cup rice', { quantity: 0.5, range: null, unit: 'cup', name: 'rice', note: '' }],
+    ['0.5 cup rice', { quantity: 0.5, range: null, unit: 'cup', name: 'rice', note: '' }],
+    ['2-3 cloves garlic', { quantity: 2, range: { min: 2, max: 3 }, unit: 'cloves', name: 'garlic', note: '' }],
+    ['1 to 2 tbsp honey', { quantity: 1, range: { min: 1, max: 2 }, unit: 'tbsp', name: 'honey', note: '' }],
+    ['7-inch tortillas', { quantity: null, range: null, unit: '', name: '7-inch tortillas', note: '' }],
+    ['2 (14 oz) cans tomatoes', { quantity: 2, range: null, unit: 'cans', name: 'tomatoes', note: '14 oz' }],
+    ['3 eggs (beaten)', { quantity: 3, range: null, unit: '', name: 'eggs', note: 'beaten' }],
+    ['1 T sugar', { quantity: 1, range: null, unit: 'T', name: 'sugar', note: '' }],
+    ['200 g of paneer', { quantity: 200, range: null, unit: 'g', name: 'paneer', note: '' }],
+    ['- 1 onion, finely chopped', { quantity: 1, range: null, unit: '', name: 'onion', note: 'finely chopped' }],
+    ['salt to taste', { quantity: null, range: null, unit: '', name: 'salt to taste', note: '' }],
+  ])('%s', (line, expected) => {
+    expect(parseIngredientLine(line)).toEqual(expected);
+  });
+});
+
+describe('formatQuantity', () => {
+  it.each([
+    [2, '', '2'],
+    [2.5, 'cup', '2 1/2'],
+    [0.333, 'cup', '1/3'],
+    [1.375, 'cup', '1 3/8'],
+    [0.75, '', '3/4'],
+    [1.5, 'kg', '1.5'],
+    [250, 'g', '250'],
+    [12.4, 'g', '12'],
+  ])('%d %s -> %s', (value, unit, expected) => {
+    expect(formatQuantity(value, unit)).toBe(expected);
+  });
+});
+
+describe('normaliseAmount', () => {
+  it.each([
+    [48, 'tsp', { quantity: 1, unit: 'cup' }],
+    [3, 'tsp', { quantity: 1, unit: 'tbsp' }],
+    [0.125, 'cup', { quantity: 2, unit: 'tbsp' }],
+    [1500, 'g', { quantity: 1.5, unit: 'kg' }],
+    [0.75, 'kg', { quantity: 750, unit: 'g' }],
+    [2000, 'ml', { quantity: 2, unit: 'l' }],
+    [2, 'cloves', { quantity: 2, unit: 'cloves' }],
+  ])('%d %s', (quantity, unit, expected) => {
+    expect(normaliseAmount(quantity, unit)).toEqual(expected);
+  });
+});
+
+describe('pluraliseUnit', () => {
+  it.each([
+    ['cup', 2, 'cups'],
+    ['cups', 1, 'cup'],
+    ['pinch', 2, 'pinches'],
+    ['g', 200, 'g'],
+    ['lb', 2, 'lbs'],
+    ['medium', 3, 'medium'],
+    ['cup', null, 'cup'],
+  ])('%s x %s -> %s', (unit, quantity, expected) => {
+    expect(pluraliseUnit(unit, quantity)).toBe(expected);
+  });
+});
+
+describe('scaleIngredient', () => {
+  const ingredient = (quantity: number | null, unit: string, name = 'x', maxQuantity?: number): RecipeIngredient => ({
+    quantity,
+    unit,
+    name,
+    ...(maxQuantity !== undefined && { maxQuantity }),
+  });
+
+  it.each([
+    ['1.5 kg x0.5 -> 750 g', ingredient(1.5, 'kg'), 0.5, { quantity: 750, unit: 'g' }],
+    ['1 cup x2 -> 2 cups', ingredient(1, 'cup'), 2, { quantity: 2, unit: 'cups' }],
+    ['16 tsp x3 -> 1 cup', ingredient(16, 'tsp'), 3, { quantity: 1, unit: 'cup' }],
+    ['1/4 cup x0.5 -> 2 tbsp', ingredient(0.25, 'cup'), 0.5, { quantity: 2, unit: 'tbsp' }],
+    ['2 eggs x1.5 -> 3 eggs', ingredient(2, ''), 1.5, { quantity: 3, unit: '' }],
+  ])('%s', (_, input, factor, expected) => {
+    expect(scaleIngredient(input, factor)).toMatchObject(expected);
+  });
+
+  it('scales both ends of a range', () => {
+    expect(scaleIngredient(ingredient(2, 'cloves', 'garlic', 3), 2)).toEqual(ingredient(4, 'cloves', 'garlic', 6));
+  });
+
+  it('leaves unmeasured ingredients and a factor of 1 alone', () => {
+    const salt = ingredient(null, '', 'salt');
+    expect(scaleIngredient(salt, 3)).toBe(salt);
+    const rice = ingredient(1, 'cup', 'rice');
+    expect(scaleIngredient(rice, 1)).toBe(rice);
+  });
+});
@@ -0,0 +1,228 @@
+import type { RecipeIngredient } from './recipe';
+import { convertQuantity, normaliseUnit } from './units';
+
+// Parsing, scaling and formatting of ingredient lines such as "2 1/2 cups flour, sifted".
+
+export interface ParsedIngredient {
+  // The amount, or the low end of a range; null when unmeasured ("salt to taste")
+  quantity: number | null;
+  // Both ends of a range such as "2-3"; null for a single amount
+  range: { min: number; max: number } | null;
+  unit: string;
+  name: string;
+  note: string;
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4,
+  '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5, '⅙': 1 / 6, '⅚': 5 / 6,
+  '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+// One amount: "2 1/2", "2½", "1/2", "½", "1.5", ".5", "2"
+const NUMBER = `(?:\\d+(?:\\.\\d+)?\\s*[${FRACTION_CHARS}]|\\d+\\s+\\d+\\s*/\\s*\\d+|\\d+\\s*/\\s*\\d+|\\d*\\.\\d+|\\d+|[${FRACTION_CHARS}])`;
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER}))?`, 'i');
+
+// Units we recognise after a quantity, longest first so "fl oz" wins over "oz"
+const UNIT_WORDS = [
+  'fluid ounces', 'fluid ounce', 'fl\\.? oz',
+  'tablespoons', 'tablespoon', 'tbsps', 'tbsp', 'tbs', 'tbl', 'T',
+  'teaspoons', 'teaspoon', 'tsps', 'tsp', 't',
+  'kilograms', 'kilogram', 'kilos', 'kilo', 'kgs', 'kg',
+  'milligrams', 'milligram', 'mg',
+  'grams', 'gram', 'gms', 'gm', 'g',
+  'millilitres', 'millilitre', 'milliliters', 'milliliter', 'ml',
+  'litres', 'litre', 'liters', 'liter', 'l',
+  'ounces', 'ounce', 'oz', 'pounds', 'pound', 'lbs', 'lb',
+  'cups', 'cup', 'pints', 'pint', 'quarts', 'quart', 'gallons', 'gallon',
+  'cloves', 'clove', 'cans', 'can', 'tins', 'tin', 'jars', 'jar', 'packets', 'packet', 'packages', 'package',
+  'pinches', 'pinch', 'dashes', 'dash', 'handfuls', 'handful', 'bunches', 'bunch', 'sprigs', 'sprig',
+  'slices', 'slice', 'sticks', 'stick', 'pieces', 'piece', 'heads', 'head', 'stalks', 'stalk',
+  'inches', 'inch',
+];
+const UNIT_PATTERN = new RegExp(`^(${UNIT_WORDS.join('|')})(?![a-z])\\.?\\s*`);
+// Case-insensitive fallback; "T" and "t" are deliberately case-sensitive above
+const UNIT_PATTERN_CI = new RegExp(`^(${UNIT_WORDS.filter(word => word !== 'T' && word !== 't').join('|')})(?![a-z])\\.?\\s*`, 'i');
+
+export function parseAmount(text: string): number {
+  const value = text.replace(/\s+/g, ' ').trim();
+  const unicode = value.match(new RegExp(`^(\\d+(?:\\.\\d+)?)?\\s*([${FRACTION_CHARS}])$`));
+  if (unicode) {
+    return (unicode[1] ? parseFloat(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+  const mixed = value.match(/^(\d+) (\d+) ?\/ ?(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+  }
+  const fraction = value.match(/^(\d+) ?\/ ?(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1]) / parseInt(fraction[2]);
+  }
+  return parseFloat(value);
+}
+
+// Parses one ingredient line. Only a leading amount is treated as a quantity, so
+// numbers inside the name ("7-inch pan") are left alone.
+export function parseIngredientLine(line: string): ParsedIngredient {
+  let rest = line.trim().replace(/^[-*•]\s*/, '');
+  let quantity: number | null = null;
+  let range: ParsedIngredient['range'] = null;
+  const notes: string[] = [];
+
+  let quantityMatch = rest.match(QUANTITY_PATTERN);
+  // "7-inch tortillas": the number belongs to the name
+  if (quantityMatch && rest.slice(quantityMatch[0].length).startsWith('-')) quantityMatch = null;
+  if (quantityMatch) {
+    quantity = parseAmount(quantityMatch[1]);
+    if (quantityMatch[2]) {
+      const max = parseAmount(quantityMatch[2]);
+      if (max > quantity) range = { min: quantity, max };
+    }
+    rest = rest.slice(quantityMatch[0].length).trim();
+  }
+
+  // "2 (14 oz) cans tomatoes": the size is a note, not the amount
+  const sizeMatch = quantityMatch ? rest.match(/^\(([^)]*)\)\s*/) : null;
+  if (sizeMatch) {
+    notes.push(sizeMatch[1].trim());
+    rest = rest.slice(sizeMatch[0].length);
+  }
+
+  let unit = '';
+  const unitMatch = quantityMatch ? rest.match(UNIT_PATTERN) ?? rest.match(UNIT_PATTERN_CI) : null;
+  if (unitMatch) {
+    unit = unitMatch[1];
+    rest = rest.slice(unitMatch[0].length).replace(/^of\s+/i, '');
+  }
+
+  // Trailing detail after a comma or in brackets
+  const commaIndex = rest.indexOf(',');
+  if (commaIndex !== -1) {
+    notes.push(rest.slice(commaIndex + 1).trim());
+    rest = rest.slice(0, commaIndex);
+  }
+  const bracketMatch = rest.match(/\s*\(([^)]*)\)\s*$/);
+  if (bracketMatch) {
+    notes.unshift(bracketMatch[1].trim());
+    rest = rest.slice(0, bracketMatch.index);
+  }
+
+  return {
+    quantity,
+    range,
+    unit,
+    name: rest.trim() || line.trim(),
+    note: notes.filter(Boolean).join(', '),
+  };
+}
+
+// Friendly fractions we render instead of decimals, as [value, text]
+const FRIENDLY_FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+const FRACTION_TOLERANCE = 0.02;
+
+function nearestFraction(value: number): [number, string] | undefined {
+  return FRIENDLY_FRACTIONS.find(([fraction]) => Math.abs(value - fraction) < FRACTION_TOLERANCE);
+}
+
+// Amounts clean enough to move a unit up or down for: wholes, halves, thirds, quarters
+const CLEAN_FRACTIONS = [0, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+
+export function isCleanAmount(value: number): boolean {
+  const fraction = value - Math.floor(value);
+  return CLEAN_FRACTIONS.some(clean => Math.abs(fraction - clean) < FRACTION_TOLERANCE);
+}
+
+const METRIC_UNITS = ['g', 'kg', 'mg', 'ml', 'l'];
+
+function isMetric(unit: string): boolean {
+  return METRIC_UNITS.includes(normaliseUnit(unit));
+}
+
+// 2.5 -> "2 1/2", 0.333 -> "1/3", 1.37 -> "1 3/8". Metric amounts stay decimal:
+// 1.5 kg, 250 g.
+export function formatQuantity(value: number, unit = ''): string {
+  const rounded = Math.round(value);
+  if (isMetric(unit)) {
+    return value >= 10 ? rounded.toString() : Number(value.toFixed(1)).toString();
+  }
+  if (Math.abs(value - rounded) < FRACTION_TOLERANCE / 2) return rounded.toString();
+  const whole = Math.floor(value);
+  const fraction = nearestFraction(value - whole);
+  if (fraction) return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+  if (value >= 10) return rounded.toString();
+  return Number(value.toFixed(value < 1 ? 2 : 1)).toString();
+}
+
+// Unit ladders we move along when scaling, smallest first, with the smallest amount
+// worth expressing in each unit (a quarter cup, one tablespoon)
+const UNIT_LADDERS: { unit: string; min: number }[][] = [
+  [{ unit: 'tsp', min: 0 }, { unit: 'tbsp', min: 1 }, { unit: 'cup', min: 0.25 }],
+  [{ unit: 'g', min: 0 }, { unit: 'kg', min: 1 }],
+  [{ unit: 'ml', min: 0 }, { unit: 'l', min: 1 }],
+  [{ unit: 'oz', min: 0 }, { unit: 'lb', min: 1 }],
+];
+
+// Picks the most readable unit on the same ladder: 48 tsp -> 1 cup, 0.125 cup -> 2 tbsp,
+// 1500 g -> 1.5 kg. Keeps the original unit if it isn't on a ladder.
+export function normaliseAmount(quantity: number, unit: string): { quantity: number; unit: string } {
+  const key = normaliseUnit(unit);
+  const ladder = UNIT_LADDERS.find(rungs => rungs.some(rung => rung.unit === key));
+  if (!ladder) return { quantity, unit };
+
+  const options = ladder
+    // Rounded so conversion factors don't leave 48 tsp at 0.9999 cups
+    .map(rung => ({ unit: rung.unit, min: rung.min, quantity: Number(convertQuantity(quantity, key, rung.unit)!.toFixed(4)) }))
+    .filter(option => option.quantity >= option.min)
+    .reverse();
+  // Prefer the largest unit that gives a clean amount; metric amounts are always clean
+  const best = options.find(option => isMetric(key) || isCleanAmount(option.quantity)) ?? options[options.length - 1];
+  if (!best || best.unit === key) return { quantity, unit };
+  return { quantity: best.quantity, unit: best.unit };
+}
+
+// Abbreviations that never take a plural form
+const INVARIANT_UNITS = ['g', 'kg', 'mg', 'ml', 'l', 'oz', 'fl oz', 'tsp', 'tbsp', 'T', 't'];
+
+// Sizes used as units ("2 medium onions") describe the item, so they never take a plural
+const SIZE_UNITS = ['small', 'medium', 'large', 'whole'];
+
+// Matches a unit word to the amount: "1 cup", "2 cups", "1 tablespoon"
+export function pluraliseUnit(unit: string, quantity: number | null): string {
+  if (!unit || INVARIANT_UNITS.includes(unit) || INVARIANT_UNITS.includes(unit.toLowerCase())) return unit;
+  if (SIZE_UNITS.includes(unit.toLowerCase())) return unit;
+  if (normaliseUnit(unit) === 'lb') return quantity !== null && quantity > 1 ? 'lbs' : 'lb';
+  const singular = unit.replace(/(ch|sh|x)es$/i, '$1').replace(/(?<=[^s])s$/i, '');
+  if (quantity === null || quantity <= 1) return singular;
+  if (/(ch|sh|x)$/i.test(singular)) return `${singular}es`;
+  return `${singular}s`;
+}
+
+// Scales an ingredient and moves it to a more readable unit if needed. A factor of 1
+// returns the ingredient unchanged.
+export function scaleIngredient(ingredient: RecipeIngredient, factor: number): RecipeIngredient {
+  if (factor === 1 || ingredient.quantity === null) return ingredient;
+  const scaled = normaliseAmount(ingredient.quantity * factor, ingredient.unit);
+  const result: RecipeIngredient = { ...ingredient, quantity: scaled.quantity };
+  if (ingredient.maxQuantity !== undefined) {
+    const max = ingredient.maxQuantity * factor;
+    result.maxQuantity = convertQuantity(max, ingredient.unit, scaled.unit) ?? max;
+  }
+  // A range is plural if its upper end is
+  result.unit = pluraliseUnit(scaled.unit, result.maxQuantity ?? scaled.quantity);
+  return result;
+}
+
+// Converts a parsed line into the shape used by Recipe
+export function toRecipeIngredient(parsed: ParsedIngredient): RecipeIngredient {
+  return {
+    quantity: parsed.quantity,
+    ...(parsed.range && { maxQuantity: parsed.range.max }),
+    unit: parsed.unit,
+    name: parsed.name,
+    ...(parsed.note && { note: parsed.note }),
+  };
+}
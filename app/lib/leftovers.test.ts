@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { matchesLeftover, normaliseLeftovers, parseLeftovers, splitLeftovers } from './leftovers';
+
+describe('matchesLeftover', () => {
+  it.each([
+    ['egg', 'eggs'],
+    ['eggs', 'egg'],
+    ['tomatoes', 'tomato'],
+    ['cooked brown rice', 'rice'],
+    ['rice', 'leftover basmati rice'],
+    ['black pepper', 'pepper'],
+    ['boneless chicken breasts', 'chicken'],
+    ['garlic cloves', 'garlic'],
+    ['fresh basil leaves', 'basil'],
+    ['olive oil', 'Olive Oil'],
+  ])('%s matches %s', (ingredient, leftover) => {
+    expect(matchesLeftover(ingredient, leftover)).toBe(true);
+  });
+
+  it.each([
+    ['boiling water', 'oil'],
+    ['unsalted butter', 'salt'],
+    ['eggplant', 'egg'],
+    ['peppercorns', 'corn'],
+    ['chickpeas', 'pea'],
+    ['rice vinegar', 'rice'],
+    ['coconut milk', 'milk'],
+    ['milk', 'coconut milk'],
+    ['sweet potato', 'potato'],
+    ['chicken stock', 'chicken'],
+    ['egg noodles', 'egg'],
+    ['cheese', 'mac and cheese'],
+  ])('%s does not match %s', (ingredient, leftover) => {
+    expect(matchesLeftover(ingredient, leftover)).toBe(false);
+  });
+});
+
+describe('splitLeftovers', () => {
+  it.each([
+    ['1 cup rice, 2 eggs\nspinach', ['1 cup rice', '2 eggs', 'spinach']],
+    ['mac and cheese, salt and pepper', ['mac and cheese', 'salt and pepper']],
+    [' rice ,, \n ', ['rice']],
+  ])('%j', (text, expected) => {
+    expect(splitLeftovers(text)).toEqual(expected);
+  });
+});
+
+describe('parseLeftovers', () => {
+  it('strips amounts and lowercases', () => {
+    expect(parseLeftovers('1 cup Rice, 2 eggs\n200g of spinach')).toEqual(['rice', 'eggs', 'spinach']);
+  });
+});
+
+describe('normaliseLeftovers', () => {
+  it('ignores order, case and spacing', () => {
+    expect(normaliseLeftovers('Rice,  2 eggs')).toEqual(normaliseLeftovers('2 eggs\nrice'));
+  });
+});
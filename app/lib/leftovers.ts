@@ -0,0 +1,103 @@
+import type { Recipe } from './recipe';
+
+// Helpers for relating the free-text leftovers a user typed to a recipe's ingredients.
+
+// Strips a leading quantity and unit, e.g. "200g goat cheese" -> "goat cheese"
+const LEADING_AMOUNT = /^[\d\s./½¼¾⅓⅔-]+\s*(cups?|tablespoons?|tbsp|teaspoons?|tsp|grams?|g|kg|ml|l|litres?|liters?|ounces?|oz|pounds?|lbs?|cans?|packs?|bunch(?:es)?|handfuls?|pieces?|of)?\b\.?\s*/i;
+
+// Splits the InputBox text into one entry per leftover, amounts included. Only commas
+// and line breaks separate entries, so "mac and cheese" stays one leftover:
+// "1 cup rice, 2 eggs\nmac and cheese" -> "1 cup rice", "2 eggs", "mac and cheese"
+export function splitLeftovers(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// The leftovers in a canonical form, for telling whether two requests ask for the same
+// thing: "Rice,  2 eggs" and "2 eggs, rice" come out the same
+export function normaliseLeftovers(text: string): string[] {
+  const entries = splitLeftovers(text).map(item => item.toLowerCase().replace(/\s+/g, ' '));
+  return Array.from(new Set(entries)).sort();
+}
+
+// Splits the InputBox text into leftover names: "1 cup rice, 2 eggs, spinach" -> rice, eggs, spinach
+export function parseLeftovers(text: string): string[] {
+  return splitLeftovers(text)
+    .map(item => item.replace(LEADING_AMOUNT, '').replace(/^of\s+/i, '').trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Words that describe the state of a food rather than which food it is, ignored when matching
+const DESCRIPTIVE_WORDS = [
+  'a', 'of', 'the', 'some', 'leftover', 'cooked', 'fresh', 'frozen', 'raw', 'ripe', 'dried',
+  'chopped', 'diced', 'sliced', 'minced', 'grated', 'shredded', 'large', 'small', 'medium', 'whole',
+];
+
+// Words before a food that make it a different food: "coconut milk" is not milk
+const DISTINCT_MODIFIERS = [
+  'almond', 'cashew', 'coconut', 'oat', 'soy', 'soya', 'rice', 'peanut', 'sesame', 'corn',
+  'vegan', 'plant', 'sweet', 'spring', 'green', 'cream', 'sour', 'condensed', 'evaporated',
+];
+
+// Words that join foods into a dish: "mac and cheese" is not cheese
+const JOINING_WORDS = ['and', 'with', 'in', 'on'];
+
+// Words after a food that name part of it rather than a different food: "chicken breast" is
+// chicken, "rice vinegar" is not rice
+const PART_WORDS = [
+  'breast', 'thigh', 'drumstick', 'wing', 'leg', 'fillet', 'clove', 'leaf', 'stalk', 'floret',
+  'sprig', 'bulb', 'piece', 'chunk', 'slice', 'strip', 'white', 'yolk', 'juice', 'zest',
+];
+
+// Good enough singularisation for matching "eggs" with "egg" and "tomatoes" with "tomato"
+function singular(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/^(?:lea|loa|hal)ves$/.test(word)) return word.slice(0, -3) + 'f';
+  if (/(?:oes|ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function words(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 1 && !DESCRIPTIVE_WORDS.includes(word))
+    .map(singular);
+}
+
+// Where `part` appears as a run of whole words inside `whole`, or -1
+function indexOfWords(whole: string[], part: string[]): number {
+  for (let start = 0; start + part.length <= whole.length; start++) {
+    if (part.every((word, offset) => whole[start + offset] === word)) return start;
+  }
+  return -1;
+}
+
+// True if the leftover and the ingredient name plausibly refer to the same food. The
+// shorter name has to appear in the longer one as whole words, with nothing around it
+// that turns it into another food: "eggs" matches "egg" and "brown rice", but "salt"
+// doesn't match "unsalted butter" and "rice" doesn't match "rice vinegar".
+export function matchesLeftover(ingredientName: string, leftover: string): boolean {
+  const ingredientWords = words(ingredientName);
+  const leftoverWords = words(leftover);
+  if (ingredientWords.length === 0 || leftoverWords.length === 0) return false;
+  const [shorter, longer] = ingredientWords.length <= leftoverWords.length
+    ? [ingredientWords, leftoverWords]
+    : [leftoverWords, ingredientWords];
+  const start = indexOfWords(longer, shorter);
+  if (start === -1) return false;
+  const before = longer.slice(0, start);
+  const after = longer.slice(start + shorter.length);
+  return !before.some(word => DISTINCT_MODIFIERS.includes(word) || JOINING_WORDS.includes(word)) &&
+    after.every(word => PART_WORDS.includes(word));
+}
+
+// The leftovers (from parseLeftovers) that the recipe actually uses
+export function leftoversUsed(recipe: Recipe, leftovers: string[]): string[] {
+  return leftovers.filter(leftover =>
+    recipe.ingredients.some(ingredient => matchesLeftover(ingredient.name, leftover))
+  );
+}
@@ -0,0 +1,60 @@
+import { computeNutrition, RELIABLE_COVERAGE } from './nutrition';
+import type { Recipe } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+
+// Checks a finished recipe against the macro goals in RecipeOptions.
+
+// Per serving thresholds behind the high-protein and low-carb toggles
+export const HIGH_PROTEIN_GRAMS = 25;
+export const LOW_CARB_GRAMS = 30;
+
+// The stricter of the high-protein toggle and the protein target; 0 for no goal
+function minimumProtein(options: RecipeOptions): number {
+  return Math.max(options.highProtein ? HIGH_PROTEIN_GRAMS : 0, options.proteinTarget ?? 0);
+}
+
+// Prompt lines asking the model for the goals
+export function macroGoalInstructions(options: RecipeOptions): string {
+  let instructions = '';
+  const protein = minimumProtein(options);
+  if (protein > 0) {
+    instructions += `\n- Make it high in protein: at least ${protein} g of protein per serving.`;
+  }
+  if (options.lowCarb) {
+    instructions += `\n- Make it low-carb: no more than ${LOW_CARB_GRAMS} g of carbohydrates per serving.`;
+  }
+  if (options.maxCalories !== null) {
+    instructions += `\n- Keep it to at most ${options.maxCalories} calories per serving.`;
+  }
+  return instructions;
+}
+
+// The recipe's per-serving calories, protein and carbs. We trust our own figures from
+// the ingredients when they cover enough of the recipe, and the model's otherwise.
+function macrosPerServing(recipe: Recipe): { calories: number | null; protein: number | null; carbs: number | null } {
+  const computed = computeNutrition(recipe);
+  if (computed.coverage >= RELIABLE_COVERAGE) {
+    const { calories, protein, carbs } = computed.perServing;
+    return { calories, protein, carbs };
+  }
+  const { calories, protein, carbs } = recipe.nutrition;
+  return { calories, protein, carbs };
+}
+
+// Describes each goal the recipe misses, e.g. "has 12 g of protein per serving (target:
+// at least 30 g)". Empty when all goals are met or can't be checked.
+export function checkMacroGoals(recipe: Recipe, options: RecipeOptions): string[] {
+  const misses: string[] = [];
+  const macros = macrosPerServing(recipe);
+  const protein = minimumProtein(options);
+  if (protein > 0 && macros.protein !== null && macros.protein < protein) {
+    misses.push(`has ${Math.round(macros.protein)} g of protein per serving (target: at least ${protein} g)`);
+  }
+  if (options.lowCarb && macros.carbs !== null && macros.carbs > LOW_CARB_GRAMS) {
+    misses.push(`has ${Math.round(macros.carbs)} g of carbs per serving (target: at most ${LOW_CARB_GRAMS} g)`);
+  }
+  if (options.maxCalories !== null && macros.calories !== null && macros.calories > options.maxCalories) {
+    misses.push(`has ${Math.round(macros.calories)} calories per serving (limit: ${options.maxCalories})`);
+  }
+  return misses;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { allocateLeftovers, LeftoverStock, MealSlot, parseLeftoverStock } from './mealPlan';
+
+const slot = (meal: string, uses: LeftoverStock[]): MealSlot => ({ day: 1, meal, title: meal, uses });
+
+describe('parseLeftoverStock', () => {
+  it('reads amounts and keeps "and" inside a name', () => {
+    expect(parseLeftoverStock('200g chicken, 2 cups rice\nmac and cheese')).toEqual([
+      { name: 'chicken', quantity: 200, unit: 'g' },
+      { name: 'rice', quantity: 2, unit: 'cups' },
+      { name: 'mac and cheese', quantity: null, unit: '' },
+    ]);
+  });
+});
+
+describe('allocateLeftovers', () => {
+  it('shares a leftover between meals without using it twice', () => {
+    const stock = parseLeftoverStock('300g chicken');
+    const { slots, unused } = allocateLeftovers([
+      slot('lunch', [{ name: 'chicken breast', quantity: 200, unit: 'g' }]),
+      slot('dinner', [{ name: 'chicken', quantity: 200, unit: 'g' }]),
+    ], stock);
+    expect(slots.map(planned => planned.uses)).toEqual([
+      [{ name: 'chicken', quantity: 200, unit: 'g' }],
+      [{ name: 'chicken', quantity: 100, unit: 'g' }],
+    ]);
+    expect(unused).toEqual([]);
+  });
+
+  it('does not hand a leftover to an ingredient that only contains its name', () => {
+    const stock = parseLeftoverStock('2 cups rice, 1 cup milk');
+    const { slots, unused } = allocateLeftovers([
+      slot('dinner', [
+        { name: 'rice vinegar', quantity: 1, unit: 'tbsp' },
+        { name: 'coconut milk', quantity: 1, unit: 'cup' },
+      ]),
+    ], stock);
+    expect(slots[0].uses).toEqual([]);
+    expect(unused).toEqual(stock);
+  });
+});
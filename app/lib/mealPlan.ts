@@ -0,0 +1,258 @@
+import { convertForStock } from './cooking';
+import { gramsPerCup } from './densities';
+import { formatQuantity, parseIngredientLine, pluraliseUnit } from './ingredients';
+import { matchesLeftover, splitLeftovers } from './leftovers';
+import type { JsonSchema } from './providers';
+import { MAX_LIST_LENGTH, MAX_TEXT_LENGTH } from './recipeOptions';
+import type { RecipeOptions } from './recipeOptions';
+import type { RecipeResult } from './recipes';
+import { readJSON, writeJSON } from './storage';
+import { convertQuantity, toBaseUnit } from './units';
+
+// Meal plans spread one fridge of leftovers over several days. The model outlines the
+// whole plan in one go; allocateLeftovers then makes sure no leftover is promised to more
+// meals than we have of it. Full recipes are generated per slot, when the slot is opened.
+
+const STORAGE_KEY = 'leftovers.mealPlan';
+
+export const MAX_PLAN_DAYS = 7;
+export const MAX_MEALS_PER_DAY = 3;
+
+// Which meals a day has, by meals per day
+const MEALS_BY_COUNT: Record<number, string[]> = {
+  1: ['dinner'],
+  2: ['lunch', 'dinner'],
+  3: ['breakfast', 'lunch', 'dinner'],
+};
+
+// Amounts below this are rounding noise
+const EPSILON = 0.001;
+
+const ML_PER_CUP = convertQuantity(1, 'cup', 'ml')!;
+
+export interface LeftoverStock {
+  name: string;
+  // null when the user didn't say how much they have
+  quantity: number | null;
+  unit: string;
+}
+
+// A share of one leftover given to a meal, in the unit the user listed it in.
+// quantity is null for leftovers listed without an amount, which go to a single meal.
+export type PlannedUse = LeftoverStock;
+
+export interface MealSlot {
+  // 1-based
+  day: number;
+  meal: string;
+  // Empty when the model didn't plan this slot
+  title: string;
+  uses: PlannedUse[];
+}
+
+export interface MealPlan {
+  days: number;
+  meals: string[];
+  // Ordered by day, then meal
+  slots: MealSlot[];
+  // What no meal uses, or the part of it that's left over
+  unused: LeftoverStock[];
+}
+
+// A plan as kept in the browser, with the request and the recipes generated so far
+export interface SavedMealPlan extends MealPlan {
+  ingredients: string;
+  options: RecipeOptions;
+  // Keyed by slotKey
+  recipes: Record<string, RecipeResult>;
+  createdAt: string;
+}
+
+export const MEAL_PLAN_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['meals'],
+  properties: {
+    meals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['day', 'meal', 'title', 'uses'],
+        properties: {
+          day: { type: 'integer' },
+          meal: { type: 'string' },
+          title: { type: 'string' },
+          uses: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['name', 'quantity', 'unit'],
+              properties: {
+                name: { type: 'string' },
+                quantity: { type: ['number', 'null'] },
+                unit: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export function mealNames(mealsPerDay: number): string[] {
+  return MEALS_BY_COUNT[mealsPerDay] ?? MEALS_BY_COUNT[1];
+}
+
+export function slotKey(slot: Pick<MealSlot, 'day' | 'meal'>): string {
+  return `${slot.day}-${slot.meal}`;
+}
+
+// The leftovers as typed, with their amounts: "200g chicken, spinach"
+export function parseLeftoverStock(text: string): LeftoverStock[] {
+  return splitLeftovers(text).map(entry => {
+    const parsed = parseIngredientLine(entry);
+    return { name: parsed.name.toLowerCase(), quantity: parsed.quantity, unit: parsed.unit };
+  }).filter(item => item.name);
+}
+
+// "200 g chicken, 1 cup rice, spinach"
+export function describeUses(uses: PlannedUse[]): string {
+  return uses.map(use => {
+    if (use.quantity === null) return use.name;
+    return [formatQuantity(use.quantity, use.unit), pluraliseUnit(use.unit, use.quantity), use.name].filter(Boolean).join(' ');
+  }).join(', ');
+}
+
+function isPlannedUse(value: unknown): value is PlannedUse {
+  if (!value || typeof value !== 'object') return false;
+  const use = value as Record<string, unknown>;
+  return typeof use.name === 'string' && use.name.trim().length > 0 && use.name.length <= MAX_TEXT_LENGTH &&
+    (use.quantity === null || (typeof use.quantity === 'number' && use.quantity > 0)) &&
+    typeof use.unit === 'string';
+}
+
+// Turns the model's outline into one slot per day and meal. Entries for days or meals we
+// didn't ask for are dropped, and slots the model skipped are left empty.
+export function parseMealPlanOutline(data: unknown, days: number, meals: string[]): MealSlot[] {
+  const entries = data && typeof data === 'object' && Array.isArray((data as { meals?: unknown }).meals)
+    ? (data as { meals: unknown[] }).meals
+    : null;
+  if (!entries) {
+    throw new Error('The model returned a meal plan without any meals.');
+  }
+
+  const planned = new Map<string, MealSlot>();
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+    const meal = typeof raw.meal === 'string' ? raw.meal.trim().toLowerCase() : '';
+    if (typeof raw.day !== 'number' || !Number.isInteger(raw.day) || raw.day < 1 || raw.day > days) continue;
+    if (!meals.includes(meal) || typeof raw.title !== 'string') continue;
+    const uses = Array.isArray(raw.uses) ? raw.uses.filter(isPlannedUse) : [];
+    const slot = { day: raw.day, meal, title: raw.title.trim(), uses };
+    // The first entry for a slot wins
+    if (!planned.has(slotKey(slot))) planned.set(slotKey(slot), slot);
+  }
+
+  const slots: MealSlot[] = [];
+  for (let day = 1; day <= days; day++) {
+    for (const meal of meals) {
+      slots.push(planned.get(slotKey({ day, meal })) ?? { day, meal, title: '', uses: [] });
+    }
+  }
+  return slots;
+}
+
+// A meal's share in the leftover's own unit. Cups and grams convert through the density
+// table, since the model often measures "400 g chickpeas" out in cups.
+export function shareInStockUnit(use: PlannedUse, item: LeftoverStock): number | null {
+  if (use.quantity === null) return null;
+  const direct = convertForStock(use.quantity, use.unit, item.unit);
+  if (direct !== null) return direct;
+  const density = gramsPerCup(item.name);
+  const from = toBaseUnit(use.quantity, use.unit);
+  const to = toBaseUnit(1, item.unit);
+  if (density === null || !from || !to || from.dimension === to.dimension) return null;
+  const base = from.dimension === 'volume'
+    ? (from.amount / ML_PER_CUP) * density
+    : (from.amount / density) * ML_PER_CUP;
+  return base / to.amount;
+}
+
+// Hands out the leftovers in slot order, so nothing is used twice: each meal gets what
+// it asked for, or whatever is still left. A leftover without an amount goes entirely to
+// the first meal that uses it. Anything the model asked for that isn't in `stock` (pantry
+// staples, made-up ingredients) is dropped.
+export function allocateLeftovers(slots: MealSlot[], stock: LeftoverStock[]): Pick<MealPlan, 'slots' | 'unused'> {
+  const remaining = stock.map(item => item.quantity);
+  const claimed = stock.map(() => false);
+
+  const allocated = slots.map(slot => {
+    const uses: PlannedUse[] = [];
+    for (const use of slot.uses) {
+      const index = stock.findIndex(item => matchesLeftover(use.name, item.name));
+      if (index === -1) continue;
+      const item = stock[index];
+      const left = remaining[index];
+      if (left === null) {
+        if (claimed[index]) continue;
+        claimed[index] = true;
+        uses.push({ name: item.name, quantity: null, unit: '' });
+        continue;
+      }
+      if (left < EPSILON) continue;
+      const wanted = shareInStockUnit(use, item);
+      // Without a comparable amount, the meal gets whatever is left
+      const granted = wanted === null ? left : Math.min(wanted, left);
+      if (granted < EPSILON) continue;
+      remaining[index] = left - granted;
+      claimed[index] = true;
+      const existing = uses.find(other => other.name === item.name);
+      if (existing && existing.quantity !== null) {
+        existing.quantity = Number((existing.quantity + granted).toFixed(3));
+      } else {
+        uses.push({ name: item.name, quantity: Number(granted.toFixed(3)), unit: item.unit });
+      }
+    }
+    return { ...slot, uses };
+  });
+
+  const unused = stock.flatMap((item, index): LeftoverStock[] => {
+    const left = remaining[index];
+    if (left === null) return claimed[index] ? [] : [item];
+    return left < EPSILON ? [] : [{ ...item, quantity: Number(left.toFixed(3)) }];
+  });
+  return { slots: allocated, unused };
+}
+
+// Validates a slot sent back by the browser (e.g. to regenerate its recipe)
+export function parseMealSlot(input: unknown): MealSlot {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Meal slot is missing.');
+  }
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.day !== 'number' || !Number.isInteger(raw.day) || raw.day < 1 || raw.day > MAX_PLAN_DAYS) {
+    throw new Error(`Meal slot "day" must be a whole number from 1 to ${MAX_PLAN_DAYS}.`);
+  }
+  if (typeof raw.meal !== 'string' || !mealNames(MAX_MEALS_PER_DAY).includes(raw.meal)) {
+    throw new Error('Meal slot "meal" must be breakfast, lunch or dinner.');
+  }
+  if (typeof raw.title !== 'string' || raw.title.length > MAX_TEXT_LENGTH) {
+    throw new Error('Meal slot "title" must be a short string.');
+  }
+  if (!Array.isArray(raw.uses) || raw.uses.length > MAX_LIST_LENGTH || !raw.uses.every(isPlannedUse)) {
+    throw new Error('Meal slot "uses" must be a short list of leftovers with amounts.');
+  }
+  return { day: raw.day, meal: raw.meal, title: raw.title.trim(), uses: raw.uses };
+}
+
+export function loadMealPlan(): SavedMealPlan | null {
+  return readJSON<SavedMealPlan | null>(STORAGE_KEY, null);
+}
+
+export function saveMealPlan(plan: SavedMealPlan | null): void {
+  writeJSON(STORAGE_KEY, plan);
+}
@@ -0,0 +1,206 @@
+// Bundled nutrient data, per 100 g of the ingredient as usually bought (raw, dry or
+// canned-and-drained), rounded from USDA FoodData Central. Small on purpose: it covers
+// the staples that make up most of a leftovers recipe.
+
+export interface NutrientProfile {
+  calories: number;
+  // Grams
+  protein: number;
+  carbs: number;
+  fat: number;
+  fibre: number;
+  // Milligrams
+  sodium: number;
+}
+
+export interface Food {
+  per100g: NutrientProfile;
+  // Weight of one typical (medium) item, for counted ingredients like "2 eggs"
+  pieceGrams?: number;
+  // For volume measures, when the density table doesn't know the ingredient
+  gramsPerMl?: number;
+}
+
+// Spices, dried herbs and leafy herbs are much lighter than water by volume
+const SPICE = 0.5;
+const LEAFY = 0.07;
+
+// calories, protein, carbs, fat, fibre, sodium; then grams per piece and grams per ml
+type Row = [number, number, number, number, number, number, number?, number?];
+
+const ROWS: Record<string, Row> = {
+  // Oils and fats
+  'olive oil': [884, 0, 0, 100, 0, 2, undefined, 0.91],
+  'oil': [884, 0, 0, 100, 0, 0, undefined, 0.92],
+  'butter': [717, 0.9, 0.1, 81, 0, 576],
+  'ghee': [900, 0, 0, 100, 0, 0],
+  'mayonnaise': [680, 1, 0.6, 75, 0, 635],
+  'coconut milk': [230, 2.3, 5.5, 24, 2.2, 15],
+
+  // Vegetables
+  'onion': [40, 1.1, 9.3, 0.1, 1.7, 4, 110],
+  'spring onion': [32, 1.8, 7.3, 0.2, 2.6, 16, 15],
+  'garlic': [149, 6.4, 33, 0.5, 2.1, 17, 3],
+  'ginger': [80, 1.8, 18, 0.8, 2, 13, 5],
+  'tomato': [18, 0.9, 3.9, 0.2, 1.2, 5, 120],
+  'tomato paste': [82, 4.3, 19, 0.5, 4.1, 59],
+  'potato': [77, 2, 17, 0.1, 2.2, 6, 170],
+  'sweet potato': [86, 1.6, 20, 0.1, 3, 55, 130],
+  'carrot': [41, 0.9, 10, 0.2, 2.8, 69, 60],
+  'bell pepper': [26, 1, 6, 0.3, 2.1, 4, 120],
+  'capsicum': [26, 1, 6, 0.3, 2.1, 4, 120],
+  'chilli': [40, 1.9, 9, 0.4, 1.5, 9, 15],
+  'chili': [40, 1.9, 9, 0.4, 1.5, 9, 15],
+  'spinach': [23, 2.9, 3.6, 0.4, 2.2, 79],
+  'kale': [49, 4.3, 8.8, 0.9, 3.6, 38],
+  'broccoli': [34, 2.8, 7, 0.4, 2.6, 33, 300],
+  'cauliflower': [25, 1.9, 5, 0.3, 2, 30, 575],
+  'cabbage': [25, 1.3, 5.8, 0.1, 2.5, 18, 900],
+  'lettuce': [15, 1.4, 2.9, 0.2, 1.3, 28, 300],
+  'mushroom': [22, 3.1, 3.3, 0.3, 1, 5, 18],
+  'zucchini': [17, 1.2, 3.1, 0.3, 1, 8, 200],
+  'courgette': [17, 1.2, 3.1, 0.3, 1, 8, 200],
+  'aubergine': [25, 1, 5.9, 0.2, 3, 2, 450],
+  'eggplant': [25, 1, 5.9, 0.2, 3, 2, 450],
+  'cucumber': [15, 0.7, 3.6, 0.1, 0.5, 2, 300],
+  'celery': [16, 0.7, 3, 0.2, 1.6, 80, 40],
+  'peas': [81, 5.4, 14, 0.4, 5.7, 5],
+  'corn': [86, 3.3, 19, 1.4, 2, 15],
+  'green beans': [31, 1.8, 7, 0.2, 2.7, 6],
+  'avocado': [160, 2, 8.5, 14.7, 6.7, 7, 150],
+
+  // Fresh herbs
+  'cilantro': [23, 2.1, 3.7, 0.5, 2.8, 46, undefined, LEAFY],
+  'coriander leaves': [23, 2.1, 3.7, 0.5, 2.8, 46, undefined, LEAFY],
+  'parsley': [36, 3, 6.3, 0.8, 3.3, 56, undefined, LEAFY],
+  'basil': [23, 3.2, 2.7, 0.6, 1.6, 4, undefined, LEAFY],
+  'mint': [70, 3.8, 15, 0.9, 8, 31, undefined, LEAFY],
+
+  // Fruit
+  'lemon': [29, 1.1, 9.3, 0.3, 2.8, 2, 60],
+  'lemon juice': [22, 0.4, 6.9, 0.2, 0.3, 1],
+  'lime': [30, 0.7, 10.5, 0.2, 2.8, 2, 45],
+  'lime juice': [25, 0.4, 8.4, 0.1, 0.4, 2],
+  'apple': [52, 0.3, 14, 0.2, 2.4, 1, 180],
+  'banana': [89, 1.1, 23, 0.3, 2.6, 1, 118],
+  'raisins': [299, 3.1, 79, 0.5, 3.7, 11],
+
+  // Grains, legumes and starches
+  'rice': [365, 7.1, 80, 0.7, 1.3, 5],
+  'cooked rice': [130, 2.7, 28, 0.3, 0.4, 1],
+  'brown rice': [370, 7.9, 77, 2.9, 3.5, 7],
+  'cooked brown rice': [123, 2.7, 25.6, 1, 1.6, 4],
+  'pasta': [371, 13, 75, 1.5, 3.2, 6],
+  'noodles': [371, 13, 75, 1.5, 3.2, 6],
+  'quinoa': [368, 14, 64, 6, 7, 5],
+  'couscous': [376, 12.8, 77, 0.6, 5, 10],
+  'oats': [389, 16.9, 66, 6.9, 10.6, 2],
+  'flour': [364, 10.3, 76, 1, 2.7, 2],
+  'whole wheat flour': [340, 13, 72, 2.5, 10.7, 2],
+  'chickpea flour': [387, 22, 58, 6.7, 10.8, 64],
+  'besan': [387, 22, 58, 6.7, 10.8, 64],
+  'cornstarch': [381, 0.3, 91, 0.1, 0.9, 9],
+  'bread': [265, 9, 49, 3.2, 2.7, 491, 30],
+  'tortilla': [310, 8, 50, 8, 3.5, 600, 45],
+  'breadcrumbs': [395, 13, 72, 5.3, 4.5, 732],
+  'chickpeas': [164, 8.9, 27, 2.6, 7.6, 7],
+  'lentils': [352, 24.6, 63, 1.1, 10.7, 6],
+  'cooked lentils': [116, 9, 20, 0.4, 7.9, 2],
+  'dal': [352, 24.6, 63, 1.1, 10.7, 6],
+  'beans': [127, 8.7, 22.8, 0.5, 6.4, 2],
+
+  // Dairy and eggs
+  'milk': [61, 3.2, 4.8, 3.3, 0, 43, undefined, 1.03],
+  'cream': [340, 2.1, 2.8, 36, 0, 38, undefined, 1],
+  'yogurt': [61, 3.5, 4.7, 3.3, 0, 46],
+  'yoghurt': [61, 3.5, 4.7, 3.3, 0, 46],
+  'greek yogurt': [97, 9, 3.9, 5, 0, 36],
+  'cheese': [403, 25, 1.3, 33, 0, 621],
+  'mozzarella': [280, 28, 3.1, 17, 0, 627],
+  'parmesan': [431, 38, 4.1, 29, 0, 1529],
+  'feta': [264, 14, 4.1, 21, 0, 1116],
+  'goat cheese': [364, 22, 2.5, 30, 0, 515],
+  'paneer': [321, 25, 3.6, 25, 0, 18],
+  'cottage cheese': [98, 11, 3.4, 4.3, 0, 364],
+  'egg': [143, 12.6, 0.7, 9.5, 0, 142, 50],
+
+  // Meat, fish and plant proteins
+  'chicken': [215, 18.6, 0, 15, 0, 70, 170],
+  'chicken breast': [165, 31, 0, 3.6, 0, 74, 170],
+  'beef': [254, 17, 0, 20, 0, 66],
+  'pork': [242, 27, 0, 14, 0, 62],
+  'lamb': [294, 25, 0, 21, 0, 72],
+  'bacon': [541, 37, 1.4, 42, 0, 1717, 10],
+  'salmon': [208, 20, 0, 13, 0, 59, 150],
+  'tuna': [116, 26, 0, 0.8, 0, 247],
+  'shrimp': [99, 24, 0.2, 0.3, 0, 111],
+  'prawns': [99, 24, 0.2, 0.3, 0, 111],
+  'fish': [82, 18, 0, 0.7, 0, 54, 150],
+  'tofu': [76, 8, 1.9, 4.8, 0.3, 7],
+  'tempeh': [192, 20, 7.6, 11, 0, 9],
+
+  // Nuts and seeds
+  'nuts': [607, 20, 21, 54, 7, 5],
+  'almonds': [579, 21, 22, 50, 12.5, 1],
+  'peanuts': [567, 26, 16, 49, 8.5, 18],
+  'cashews': [553, 18, 30, 44, 3.3, 12],
+  'walnuts': [654, 15, 14, 65, 6.7, 2],
+  'peanut butter': [588, 25, 20, 50, 6, 17, undefined, 1.08],
+  'sesame seeds': [573, 17.7, 23, 50, 11.8, 11, undefined, SPICE],
+
+  // Sweeteners and baking
+  'sugar': [387, 0, 100, 0, 0, 1],
+  'brown sugar': [380, 0.1, 98, 0, 0, 28],
+  'honey': [304, 0.3, 82, 0, 0.2, 4],
+  'maple syrup': [260, 0, 67, 0.1, 0, 12],
+  'cocoa powder': [228, 19.6, 58, 13.7, 37, 21],
+  'dark chocolate': [546, 4.9, 61, 31, 7, 24],
+  'baking powder': [53, 0, 28, 0, 0.2, 10600],
+
+  // Sauces, stocks and condiments
+  'stock': [5, 0.2, 0.9, 0.1, 0, 300, undefined, 1],
+  'broth': [5, 0.2, 0.9, 0.1, 0, 300, undefined, 1],
+  'soy sauce': [53, 8.1, 4.9, 0.6, 0.8, 5493, undefined, 1.15],
+  'vinegar': [18, 0, 0, 0, 0, 2, undefined, 1],
+  'mustard': [66, 4, 5.8, 4, 3.3, 1135],
+  'ketchup': [101, 1, 27, 0.1, 0.3, 907],
+  'water': [0, 0, 0, 0, 0, 0, undefined, 1],
+
+  // Spices
+  'salt': [0, 0, 0, 0, 0, 38758, undefined, 1.2],
+  'black pepper': [251, 10, 64, 3.3, 25, 20, undefined, SPICE],
+  'pepper': [251, 10, 64, 3.3, 25, 20, undefined, SPICE],
+  'cumin': [375, 17.8, 44, 22, 10.5, 168, undefined, SPICE],
+  'turmeric': [312, 9.7, 67, 3.3, 22.7, 27, undefined, SPICE],
+  'coriander powder': [298, 12, 55, 18, 42, 35, undefined, SPICE],
+  'garam masala': [379, 14, 50, 15, 26, 96, undefined, SPICE],
+  'chilli powder': [282, 13.5, 50, 14, 35, 2867, undefined, SPICE],
+  'chili powder': [282, 13.5, 50, 14, 35, 2867, undefined, SPICE],
+  'red pepper flakes': [318, 12, 57, 17, 27, 30, undefined, SPICE],
+  'paprika': [282, 14, 54, 13, 35, 68, undefined, SPICE],
+  'cinnamon': [247, 4, 81, 1.2, 53, 10, undefined, SPICE],
+  'oregano': [265, 9, 69, 4.3, 42.5, 25, undefined, SPICE],
+};
+
+export const FOODS: Record<string, Food> = Object.fromEntries(
+  Object.entries(ROWS).map(([name, [calories, protein, carbs, fat, fibre, sodium, pieceGrams, gramsPerMl]]) => [
+    name,
+    { per100g: { calories, protein, carbs, fat, fibre, sodium }, pieceGrams, gramsPerMl },
+  ])
+);
+
+// Longest names first, so on a tie "chicken breast" wins over "chicken"
+const NAMES = Object.keys(FOODS).sort((a, b) => b.length - a.length);
+
+// Finds the entry for an ingredient name such as "ripe tomatoes" -> tomato. The match
+// ending last wins, since that's usually the head noun: "chicken stock" is stock.
+export function findFood(ingredientName: string): { name: string; food: Food } | null {
+  const name = ingredientName.toLowerCase();
+  let best: { key: string; end: number } | null = null;
+  for (const key of NAMES) {
+    const match = new RegExp(`\\b${key}(?:e?s)?\\b`).exec(name);
+    const end = match ? match.index + match[0].length : -1;
+    if (match && (!best || end > best.end)) best = { key, end };
+  }
+  return best ? { name: best.key, food: FOODS[best.key] } : null;
+}
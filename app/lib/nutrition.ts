@@ -0,0 +1,136 @@
+import { gramsPerCup } from './densities';
+import { findFood, NutrientProfile } from './nutrients';
+import type { Recipe, RecipeIngredient, RecipeNutrition } from './recipe';
+import { convertQuantity, normaliseUnit, toBaseUnit } from './units';
+
+// Works out a recipe's nutrition from its ingredients and the bundled nutrient table,
+// so we can check (or fill in) the model's own estimate.
+
+export interface ComputedNutrition {
+  // Per serving
+  perServing: NutrientProfile;
+  // Ingredient names we could weigh and look up, and those we couldn't
+  matched: string[];
+  unmatched: string[];
+  // Share of measured ingredients we accounted for, 0 to 1
+  coverage: number;
+}
+
+// Below this coverage the computed figures are too partial to check the model against
+export const RELIABLE_COVERAGE = 0.75;
+
+// Weights for counted units that don't depend on the ingredient
+const COUNT_UNIT_GRAMS: Record<string, number> = {
+  clove: 3,
+  pinch: 0.3,
+  dash: 0.6,
+  handful: 30,
+  bunch: 100,
+  sprig: 1,
+  slice: 25,
+  stalk: 40,
+  stick: 113,
+  inch: 5,
+  can: 400,
+  tin: 400,
+  jar: 300,
+  packet: 200,
+  package: 200,
+};
+
+// Units (or words in the name) that mean "one of the item" at a given size
+const SIZE_FACTORS: Record<string, number> = {
+  '': 1, piece: 1, whole: 1, each: 1, item: 1, medium: 1, small: 0.7, large: 1.4,
+};
+
+// Weight of an ingredient in grams, or null if we can't tell
+export function ingredientGrams(ingredient: RecipeIngredient): number | null {
+  if (ingredient.quantity === null) return null;
+  // Ranges count at their midpoint
+  const quantity = ingredient.maxQuantity !== undefined
+    ? (ingredient.quantity + ingredient.maxQuantity) / 2
+    : ingredient.quantity;
+  const food = findFood(ingredient.name)?.food;
+
+  const base = toBaseUnit(quantity, ingredient.unit);
+  if (base?.dimension === 'mass') return base.amount;
+  if (base?.dimension === 'volume') {
+    const perCup = gramsPerCup(ingredient.name);
+    const gramsPerMl = perCup !== null ? perCup / convertQuantity(1, 'cup', 'ml')! : food?.gramsPerMl ?? 1;
+    return base.amount * gramsPerMl;
+  }
+
+  const unit = normaliseUnit(ingredient.unit);
+  if (unit in SIZE_FACTORS) {
+    if (!food?.pieceGrams) return null;
+    const size = ingredient.name.toLowerCase().match(/\b(small|large)\b/)?.[1] ?? unit;
+    return quantity * food.pieceGrams * SIZE_FACTORS[size];
+  }
+  return unit in COUNT_UNIT_GRAMS ? quantity * COUNT_UNIT_GRAMS[unit] : null;
+}
+
+export function computeNutrition(recipe: Recipe): ComputedNutrition {
+  const total: NutrientProfile = { calories: 0, protein: 0, carbs: 0, fat: 0, fibre: 0, sodium: 0 };
+  const matched: string[] = [];
+  const unmatched: string[] = [];
+
+  for (const ingredient of recipe.ingredients) {
+    // Unmeasured extras ("salt to taste") don't count either way
+    if (ingredient.quantity === null) continue;
+    const food = findFood(ingredient.name)?.food;
+    const grams = food ? ingredientGrams(ingredient) : null;
+    if (!food || grams === null) {
+      unmatched.push(ingredient.name);
+      continue;
+    }
+    matched.push(ingredient.name);
+    for (const field of Object.keys(total) as (keyof NutrientProfile)[]) {
+      total[field] += (food.per100g[field] * grams) / 100;
+    }
+  }
+
+  const servings = Math.max(recipe.servings, 1);
+  const perServing = Object.fromEntries(
+    Object.entries(total).map(([field, value]) => [field, Math.round(value / servings)])
+  ) as unknown as NutrientProfile;
+  const measured = matched.length + unmatched.length;
+  return { perServing, matched, unmatched, coverage: measured > 0 ? matched.length / measured : 0 };
+}
+
+export interface NutritionDisagreement {
+  field: keyof RecipeNutrition;
+  model: number;
+  computed: number;
+}
+
+// How far apart the model and the table may be before we flag it: relative, plus an
+// absolute floor so a 2 g vs 4 g fat difference isn't called out
+const TOLERANCE = 0.3;
+const ABSOLUTE_FLOOR: Record<keyof RecipeNutrition, number> = { calories: 100, protein: 8, carbs: 15, fat: 8 };
+
+// Fields where the model's estimate and the computed value are far apart. Empty when
+// the computed figures don't cover enough of the recipe to judge.
+export function compareNutrition(model: RecipeNutrition, computed: ComputedNutrition): NutritionDisagreement[] {
+  if (computed.coverage < RELIABLE_COVERAGE) return [];
+  const disagreements: NutritionDisagreement[] = [];
+  for (const field of Object.keys(ABSOLUTE_FLOOR) as (keyof RecipeNutrition)[]) {
+    const estimate = model[field];
+    const value = computed.perServing[field];
+    if (estimate === null) continue;
+    const difference = Math.abs(estimate - value);
+    if (difference > ABSOLUTE_FLOOR[field] && difference > TOLERANCE * Math.max(estimate, value)) {
+      disagreements.push({ field, model: estimate, computed: value });
+    }
+  }
+  return disagreements;
+}
+
+// The warning for a recipe whose calories or protein the model left out, unless we can
+// compute them from the ingredients instead
+export function nutritionWarning(recipe: Recipe): string | undefined {
+  const missing = recipe.nutrition.calories === null || recipe.nutrition.protein === null;
+  if (missing && computeNutrition(recipe).coverage < RELIABLE_COVERAGE) {
+    return 'Nutrition information is incomplete: Calories or Protein is missing.';
+  }
+  return undefined;
+}
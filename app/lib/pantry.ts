@@ -0,0 +1,83 @@
+import { createId, readJSON, writeJSON } from './storage';
+
+// The pantry: what's in the kitchen, how much, where, and when it goes off.
+// Persisted in localStorage.
+
+const STORAGE_KEY = 'leftovers.pantry';
+
+export const STORAGE_LOCATIONS = ['fridge', 'freezer', 'pantry', 'counter'] as const;
+export type StorageLocation = (typeof STORAGE_LOCATIONS)[number];
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number | null;
+  unit: string;
+  location: StorageLocation;
+  // Best-before date as YYYY-MM-DD
+  bestBefore: string | null;
+  addedAt: string;
+}
+
+export type NewPantryItem = Omit<PantryItem, 'id' | 'addedAt'>;
+
+// Items this close to their best-before date are flagged and prioritised in prompts
+export const EXPIRING_SOON_DAYS = 3;
+
+export function listPantryItems(): PantryItem[] {
+  return readJSON<PantryItem[]>(STORAGE_KEY, []);
+}
+
+export function addPantryItem(item: NewPantryItem): PantryItem {
+  const name = item.name.trim();
+  if (!name) {
+    throw new Error('Give the pantry item a name.');
+  }
+  const added: PantryItem = { ...item, name, unit: item.unit.trim(), id: createId(), addedAt: new Date().toISOString() };
+  writeJSON(STORAGE_KEY, [...listPantryItems(), added]);
+  return added;
+}
+
+export function updatePantryItem(id: string, changes: Partial<NewPantryItem>): void {
+  writeJSON(STORAGE_KEY, listPantryItems().map(item => (item.id === id ? { ...item, ...changes } : item)));
+}
+
+export function deletePantryItem(id: string): void {
+  writeJSON(STORAGE_KEY, listPantryItems().filter(item => item.id !== id));
+}
+
+// Whole days until the best-before date (negative once expired); null if there is none
+export function daysUntilExpiry(item: PantryItem, today = new Date()): number | null {
+  if (!item.bestBefore) return null;
+  const [year, month, day] = item.bestBefore.split('-').map(Number);
+  const expiry = Date.UTC(year, month - 1, day);
+  const now = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry - now) / 86_400_000);
+}
+
+export function isExpiringSoon(item: PantryItem, today = new Date()): boolean {
+  const days = daysUntilExpiry(item, today);
+  return days !== null && days <= EXPIRING_SOON_DAYS;
+}
+
+// Soonest best-before first; items without a date go last, alphabetically
+export function sortBySoonestExpiry(items: PantryItem[], today = new Date()): PantryItem[] {
+  return [...items].sort((a, b) => {
+    const aDays = daysUntilExpiry(a, today);
+    const bDays = daysUntilExpiry(b, today);
+    if (aDays === null && bDays === null) return a.name.localeCompare(b.name);
+    if (aDays === null) return 1;
+    if (bDays === null) return -1;
+    return aDays - bDays;
+  });
+}
+
+// "1.5 cup rice"
+export function describePantryItem(item: PantryItem): string {
+  return [item.quantity ?? '', item.unit, item.name].filter(part => part !== '').join(' ');
+}
+
+// Builds the InputBox text from pantry items, keeping their order
+export function pantryToIngredients(items: PantryItem[]): string {
+  return items.map(describePantryItem).join(', ');
+}
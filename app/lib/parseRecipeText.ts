@@ -0,0 +1,159 @@
+import { parseIngredientLine, toRecipeIngredient } from './ingredients';
+import type { Recipe } from './recipe';
+
+// Fallback for providers that can't do structured output: scrapes the free-text recipe
+// layout requested by constructPrompt into a Recipe.
+
+function sanitizeText(text: string): string {
+  // Remove *, #, and leading/trailing whitespace
+  return text.replace(/[\*#]/g, '').trim();
+}
+
+function extractIngredientsFlexible(recipe: string): string[] {
+  const lines = recipe.split('\n').map(line => line.trim());
+  // Find the start of the ingredients section
+  const ingIdx = lines.findIndex(line => /ingredient/i.test(line));
+  if (ingIdx === -1) return [];
+  const ingredients: string[] = [];
+  for (let i = ingIdx + 1; i < lines.length; i++) {
+    const line = lines[i];
+    // Stop if we hit the next section (Instructions, Substitutions, etc.)
+    if (/^(\d+\.|step|instruction|substitution|tip|nutritional|time)/i.test(line)) break;
+    // Accept lines that look like ingredients
+    if (line &&
+      (line.startsWith('-') ||
+       line.startsWith('*') ||
+       /^\d+\./.test(line) ||
+       /^[A-Za-z0-9]/.test(line)) &&
+      !/ingredient/i.test(line)
+    ) {
+      // Remove only a single leading '-', '*', or bullet, and a single space, but keep numbers/fractions
+      ingredients.push(sanitizeText(line.replace(/^[-*•]\s?/, '')));
+    }
+  }
+  // Filter out empty or section heading lines
+  return ingredients.filter(Boolean).filter(l => !/^(instructions?|substitutions?|tips?|nutritional|time)/i.test(l));
+}
+
+function parseTimeToMinutes(timeStr: string): number {
+  const hours = timeStr.match(/(\d+)\s*h/i)?.[1] || '0';
+  const minutes = timeStr.match(/(\d+)\s*m/i)?.[1] || '0';
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+function parseNutrition(nutrition: string) {
+  const stripMarkdown = (str: string) => str.replace(/\*\*|\*/g, '').trim();
+  const firstNumber = (str: string) => {
+    const match = str.match(/\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  };
+  const facts = { calories: null as number | null, protein: null as number | null, carbs: null as number | null, fat: null as number | null };
+  let prepTime = '', cookTime = '';
+  const caloriesRegex = /^(calories( per serving)?|estimated calories|energy)[:]?/i;
+  nutrition.split('\n').forEach(line => {
+    const clean = stripMarkdown(line.replace(/^[-*•]+\s*/, ''));
+    const [label, ...rest] = clean.split(':');
+    const value = rest.join(':');
+    if (caloriesRegex.test(clean)) {
+      facts.calories = firstNumber(value);
+    } else if (/^protein/i.test(label)) {
+      facts.protein = firstNumber(value);
+    } else if (/^carb/i.test(label)) {
+      facts.carbs = firstNumber(value);
+    } else if (/^fat/i.test(label)) {
+      facts.fat = firstNumber(value);
+    } else if (/prep time/i.test(label)) {
+      prepTime = value;
+    } else if (/cook time/i.test(label)) {
+      cookTime = value;
+    }
+  });
+  return { facts, prepTime, cookTime };
+}
+
+export function parseRecipeText(recipe: string): Recipe {
+  const lines = recipe.split('\n').map(line => line.trim()).filter(Boolean);
+
+  // Helper to find section indices
+  const findSection = (header: string) =>
+    lines.findIndex(line => line.toLowerCase().includes(header.toLowerCase()));
+
+  // Section indices
+  const titleIndex = 0;
+  const ingredientsIndex = findSection('ingredient');
+  const instructionsIndex = findSection('instruction');
+  const substitutionsIndex = findSection('substitution');
+  const tipsIndex = findSection('tip');
+  const nutritionIndex = findSection('nutrition');
+  const timeIndex = findSection('total time');
+  const servesIndex = findSection('serves');
+
+  // Section extraction helpers
+  function extractSection(start: number, end: number) {
+    return lines.slice(start, end).filter(Boolean);
+  }
+
+  // Ingredients: Remove bullets, numbers, and pointer artifacts
+  let ingredientLines = ingredientsIndex !== -1 && instructionsIndex !== -1
+    ? extractSection(ingredientsIndex + 1, instructionsIndex)
+        .map(line => sanitizeText(line.replace(/^[-*•]+\s*/, '')))
+        .filter(line => line.length > 0 && !/^(instructions?|substitutions?|tips?|nutritional|time)/i.test(line))
+    : [];
+  // Fallback: If ingredients are missing, try to extract them more flexibly
+  if (ingredientLines.length === 0) {
+    ingredientLines = extractIngredientsFlexible(recipe);
+  }
+
+  // Instructions: Remove leading numbers and pointer artifacts
+  const steps = instructionsIndex !== -1
+    ? extractSection(instructionsIndex + 1, substitutionsIndex !== -1 ? substitutionsIndex : lines.length)
+        .map(line => sanitizeText(line.replace(/^\d+\.\s*/, '')))
+        .filter(line => line.length > 0)
+    : [];
+
+  // Substitutions and tips (optional)
+  const substitutions = substitutionsIndex !== -1 && tipsIndex !== -1
+    ? extractSection(substitutionsIndex + 1, tipsIndex)
+        .map(line => sanitizeText(line.replace(/^[-*•\d.]+\s*/, '')))
+        .filter(line => line.length > 0)
+    : [];
+  const tips = tipsIndex !== -1
+    ? extractSection(tipsIndex + 1, nutritionIndex !== -1 ? nutritionIndex : lines.length)
+        .map(line => sanitizeText(line.replace(/^[-*•\d.]+\s*/, '')))
+        .filter(line => line.length > 0)
+    : [];
+
+  // Nutrition extraction
+  let nutrition = '';
+  if (nutritionIndex !== -1) {
+    for (let i = nutritionIndex + 1; i < lines.length; i++) {
+      if (/^(serves|total time|yield|serving size|difficulty)/i.test(sanitizeText(lines[i]))) break;
+      nutrition += lines[i] + '\n';
+    }
+  }
+  const { facts, prepTime, cookTime } = parseNutrition(nutrition);
+
+  const prepMinutes = prepTime ? parseTimeToMinutes(prepTime) || null : null;
+  const cookMinutes = cookTime ? parseTimeToMinutes(cookTime) || null : null;
+  const statedTotal = timeIndex !== -1 ? parseTimeToMinutes(lines[timeIndex].replace(/total time( required)?:?/i, '')) : 0;
+  const totalMinutes = prepMinutes !== null && cookMinutes !== null
+    ? prepMinutes + cookMinutes
+    : statedTotal || null;
+
+  const servingsMatch = servesIndex !== -1 ? lines[servesIndex].match(/\d+/) : null;
+  const difficultyMatch = lines.map(sanitizeText).join('\n').match(/^difficulty:?\s*(\d)/im);
+
+  return {
+    title: sanitizeText(lines[titleIndex] || '') || 'Untitled Recipe',
+    servings: servingsMatch ? parseInt(servingsMatch[0]) : 1,
+    ingredients: ingredientLines.map(line => toRecipeIngredient(parseIngredientLine(line))),
+    steps,
+    substitutions,
+    tips,
+    nutrition: facts,
+    prepMinutes,
+    cookMinutes,
+    totalMinutes,
+    difficulty: difficultyMatch ? parseInt(difficultyMatch[1]) : null,
+  };
+}
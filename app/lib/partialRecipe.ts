@@ -0,0 +1,154 @@
+import { parseRecipeText } from './parseRecipeText';
+import type { Recipe, RecipeIngredient } from './recipe';
+
+// Turns the text streamed so far into a draft Recipe, plus which sections are finished
+// and safe to render.
+
+export type RecipeSection = 'title' | 'ingredients' | 'steps' | 'tips' | 'nutrition';
+
+export const RECIPE_SECTIONS: RecipeSection[] = ['title', 'ingredients', 'steps', 'tips', 'nutrition'];
+
+export interface DraftRecipe {
+  recipe: Recipe;
+  completed: RecipeSection[];
+}
+
+// Which section each structured-output key belongs to
+const KEY_SECTIONS: Record<string, RecipeSection | undefined> = {
+  title: 'title',
+  servings: 'title',
+  ingredients: 'ingredients',
+  steps: 'steps',
+  tips: 'tips',
+  nutrition: 'nutrition',
+  prepMinutes: 'nutrition',
+  cookMinutes: 'nutrition',
+  totalMinutes: 'nutrition',
+  difficulty: 'nutrition',
+};
+
+// Section headers in the free-text layout, in the order constructPrompt asks for them
+const TEXT_HEADERS: [RegExp, RecipeSection | null][] = [
+  [/^ingredient/i, 'ingredients'],
+  [/^instruction/i, 'steps'],
+  [/^substitution/i, null],
+  [/^(cooking )?tips?\b/i, 'tips'],
+  [/^nutrition/i, 'nutrition'],
+];
+
+// Parses a JSON document that may have been cut off mid-stream by closing any open
+// string, array or object. Falls back to the last complete element when the tail
+// can't be salvaged (e.g. a half-written key). Returns undefined if nothing parses.
+export function parsePartialJSON(text: string): unknown {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeCut = -1;
+  let safeStack: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      safeCut = i + 1;
+      safeStack = [...stack];
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      safeCut = i + 1;
+      safeStack = [...stack];
+    } else if (char === ',') {
+      safeCut = i;
+      safeStack = [...stack];
+    }
+  }
+
+  const close = (open: string[]) => [...open].reverse().join('');
+  const attempts = [text + (inString && !escaped ? '"' : '') + close(stack)];
+  if (safeCut >= 0) attempts.push(text.slice(0, safeCut) + close(safeStack));
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Try the next, shorter candidate
+    }
+  }
+  return undefined;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
+
+// Lenient counterpart of validateRecipe: keeps whatever is usable and defaults the rest
+function toDraft(raw: Record<string, unknown>): Recipe {
+  const ingredients: RecipeIngredient[] = (Array.isArray(raw.ingredients) ? raw.ingredients : [])
+    .filter(item => item && typeof item.name === 'string' && item.name.trim())
+    .map(item => ({
+      quantity: asNumber(item.quantity),
+      unit: typeof item.unit === 'string' ? item.unit : '',
+      name: item.name,
+      ...(typeof item.note === 'string' && item.note ? { note: item.note } : {}),
+    }));
+  const nutrition = (raw.nutrition && typeof raw.nutrition === 'object' ? raw.nutrition : {}) as Record<string, unknown>;
+  const servings = asNumber(raw.servings);
+
+  return {
+    title: typeof raw.title === 'string' ? raw.title : '',
+    servings: servings && servings >= 1 ? Math.round(servings) : 1,
+    ingredients,
+    steps: asStrings(raw.steps),
+    tips: asStrings(raw.tips),
+    substitutions: asStrings(raw.substitutions),
+    nutrition: {
+      calories: asNumber(nutrition.calories),
+      protein: asNumber(nutrition.protein),
+      carbs: asNumber(nutrition.carbs),
+      fat: asNumber(nutrition.fat),
+    },
+    prepMinutes: asNumber(raw.prepMinutes),
+    cookMinutes: asNumber(raw.cookMinutes),
+    totalMinutes: asNumber(raw.totalMinutes),
+    difficulty: asNumber(raw.difficulty),
+  };
+}
+
+// A section is complete once the model has moved on past every part of it
+function completedSections(order: (RecipeSection | null)[], done: boolean): RecipeSection[] {
+  if (done) return RECIPE_SECTIONS;
+  return RECIPE_SECTIONS.filter(section => {
+    const last = order.lastIndexOf(section);
+    return last !== -1 && last < order.length - 1;
+  });
+}
+
+export function parsePartialRecipe(text: string, structured: boolean, done = false): DraftRecipe {
+  if (structured) {
+    const json = text.replace(/^\s*```(?:json)?\s*/, '').replace(/\s*```\s*$/, '');
+    const parsed = parsePartialJSON(json);
+    const raw = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+    // JSON.parse keeps keys in the order they were written
+    const order = Object.keys(raw).map(key => KEY_SECTIONS[key] ?? null);
+    return { recipe: toDraft(raw), completed: completedSections(order, done) };
+  }
+
+  const headers = text
+    .split('\n')
+    .map(line => line.replace(/[\*#:]/g, '').trim())
+    .map(line => TEXT_HEADERS.find(([pattern]) => pattern.test(line)))
+    .filter((header): header is [RegExp, RecipeSection | null] => header !== undefined)
+    .map(([, section]) => section);
+  const order: (RecipeSection | null)[] = text.trim() ? ['title', ...headers] : [];
+  return { recipe: parseRecipeText(text), completed: completedSections(order, done) };
+}
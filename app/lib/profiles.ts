@@ -0,0 +1,134 @@
+import type { RecipeOptions } from './recipeOptions';
+import { createId, readJSON, writeJSON } from './storage';
+
+// Household profiles: named sets of preferences ("Weeknight family", "Guest with nut
+// allergy") stored in localStorage, with an optional default applied on startup.
+
+const STORAGE_KEY = 'leftovers.profiles';
+const DEFAULT_KEY = 'leftovers.defaultProfile';
+
+// The form options a profile remembers
+const PROFILE_FIELDS = [
+  'diet', 'customDiet', 'cuisine', 'customCuisine', 'dishType', 'customDishType', 'allergens',
+  'servings', 'difficulty', 'highProtein', 'lowCarb', 'maxCalories', 'proteinTarget',
+] as const;
+
+export type ProfilePreferences = Pick<RecipeOptions, (typeof PROFILE_FIELDS)[number]>;
+
+export interface Profile {
+  id: string;
+  name: string;
+  preferences: ProfilePreferences;
+  createdAt: string;
+}
+
+// Diets that contain each other, strictest first: a vegan meal suits a vegetarian too
+const DIET_STRICTNESS = ['vegan', 'vegetarian', 'pescatarian'];
+// Diets the form offers directly; anything else goes in customDiet
+const FORM_DIETS = ['vegetarian', 'vegan', 'keto', 'non-vegetarian', 'pescatarian'];
+
+export function preferencesFrom(options: ProfilePreferences): ProfilePreferences {
+  return Object.fromEntries(PROFILE_FIELDS.map(field => [field, options[field]])) as ProfilePreferences;
+}
+
+export function listProfiles(): Profile[] {
+  return readJSON<Profile[]>(STORAGE_KEY, []);
+}
+
+export function saveProfile(name: string, preferences: ProfilePreferences): Profile {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Give the profile a name.');
+  }
+  const profiles = listProfiles();
+  if (profiles.some(profile => profile.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`There is already a profile called "${trimmed}".`);
+  }
+  const profile: Profile = {
+    id: createId(),
+    name: trimmed,
+    preferences: preferencesFrom(preferences),
+    createdAt: new Date().toISOString(),
+  };
+  writeJSON(STORAGE_KEY, [...profiles, profile]);
+  return profile;
+}
+
+export function updateProfile(id: string, preferences: ProfilePreferences): Profile | undefined {
+  let updated: Profile | undefined;
+  const profiles = listProfiles().map(profile => {
+    if (profile.id !== id) return profile;
+    updated = { ...profile, preferences: preferencesFrom(preferences) };
+    return updated;
+  });
+  writeJSON(STORAGE_KEY, profiles);
+  return updated;
+}
+
+export function deleteProfile(id: string): void {
+  writeJSON(STORAGE_KEY, listProfiles().filter(profile => profile.id !== id));
+  if (getDefaultProfileId() === id) setDefaultProfile(null);
+}
+
+export function getDefaultProfileId(): string | null {
+  return readJSON<string | null>(DEFAULT_KEY, null);
+}
+
+export function setDefaultProfile(id: string | null): void {
+  writeJSON(DEFAULT_KEY, id);
+}
+
+export function getDefaultProfile(): Profile | undefined {
+  const id = getDefaultProfileId();
+  return id ? listProfiles().find(profile => profile.id === id) : undefined;
+}
+
+// Every diet named by the profiles, splitting "other" diets such as "keto, halal"
+function dietsOf(preferences: ProfilePreferences): string[] {
+  if (preferences.diet !== 'other') return [preferences.diet];
+  return preferences.customDiet.split(/,|\band\b/).map(diet => diet.trim().toLowerCase()).filter(Boolean);
+}
+
+function combineDiets(profiles: ProfilePreferences[]): Pick<ProfilePreferences, 'diet' | 'customDiet'> {
+  const diets = Array.from(new Set(profiles.flatMap(dietsOf))).filter(diet => diet !== 'non-vegetarian');
+  const strictest = DIET_STRICTNESS.find(diet => diets.includes(diet));
+  const combined = [
+    ...(strictest ? [strictest] : []),
+    ...diets.filter(diet => !DIET_STRICTNESS.includes(diet)),
+  ];
+  if (combined.length === 0) return { diet: 'non-vegetarian', customDiet: '' };
+  if (combined.length === 1 && FORM_DIETS.includes(combined[0])) return { diet: combined[0], customDiet: '' };
+  return { diet: 'other', customDiet: combined.join(', ') };
+}
+
+function combineAllergens(profiles: ProfilePreferences[]): string {
+  const allergens = new Map<string, string>();
+  for (const entry of profiles.flatMap(profile => profile.allergens.split(','))) {
+    const allergen = entry.trim();
+    if (allergen && !allergens.has(allergen.toLowerCase())) allergens.set(allergen.toLowerCase(), allergen);
+  }
+  return Array.from(allergens.values()).join(', ');
+}
+
+// Preferences for one meal that suits several household members: the strictest diet,
+// every allergen, everyone's servings, the easiest difficulty and the tightest macro
+// goals. Cuisine and dish type come from the first profile.
+export function combineProfiles(profiles: ProfilePreferences[]): ProfilePreferences {
+  if (profiles.length === 0) {
+    throw new Error('Pick at least one profile.');
+  }
+  const [first] = profiles;
+  const calorieLimits = profiles.map(profile => profile.maxCalories).filter((limit): limit is number => limit !== null);
+  const proteinTargets = profiles.map(profile => profile.proteinTarget).filter((target): target is number => target !== null);
+  return {
+    ...first,
+    ...combineDiets(profiles),
+    allergens: combineAllergens(profiles),
+    servings: Math.min(profiles.reduce((total, profile) => total + profile.servings, 0), 50),
+    difficulty: Math.min(...profiles.map(profile => profile.difficulty)),
+    highProtein: profiles.some(profile => profile.highProtein),
+    lowCarb: profiles.some(profile => profile.lowCarb),
+    maxCalories: calorieLimits.length > 0 ? Math.min(...calorieLimits) : null,
+    proteinTarget: proteinTargets.length > 0 ? Math.max(...proteinTargets) : null,
+  };
+}
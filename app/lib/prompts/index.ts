@@ -0,0 +1,69 @@
+import { config } from '../../config';
+import { mealPlanV1 } from './mealPlan';
+import { recipeV1, recipeV2 } from './recipe';
+import { refineV1 } from './refine';
+import { substitutionsV1, substitutionsV2 } from './substitutions';
+import type { PromptId, PromptTemplate } from './types';
+
+export type {
+  MealPlanPromptVariables,
+  PromptId,
+  PromptTemplate,
+  PromptVariables,
+  RecipePromptVariables,
+  RefinePromptVariables,
+  SubstitutionPromptVariables,
+} from './types';
+
+// Every version of every prompt. Add new wordings here as a new version rather than
+// editing one in place; `npm run eval:prompts` compares them.
+export const PROMPT_TEMPLATES: { [Id in PromptId]: PromptTemplate<Id>[] } = {
+  recipe: [recipeV1, recipeV2],
+  // Version 1 asks for free text, which the app no longer reads as substitutions. It stays
+  // so earlier recordings still replay; don't make it the active version.
+  substitutions: [substitutionsV1, substitutionsV2],
+  refine: [refineV1],
+  'meal-plan': [mealPlanV1],
+};
+
+// The versions the app uses unless PROMPT_VERSIONS says otherwise
+const DEFAULT_VERSIONS: Record<PromptId, number> = {
+  recipe: 1,
+  substitutions: 2,
+  refine: 1,
+  'meal-plan': 1,
+};
+
+function isPromptId(value: string): value is PromptId {
+  return value in PROMPT_TEMPLATES;
+}
+
+// PROMPT_VERSIONS looks like "recipe=2,substitutions=1"; prompts it doesn't name keep the default
+function parseVersionOverrides(value: string): Partial<Record<PromptId, number>> {
+  const overrides: Partial<Record<PromptId, number>> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [id, version] = entry.split('=').map(part => part.trim());
+    if (!isPromptId(id) || !/^\d+$/.test(version ?? '')) {
+      throw new Error(`PROMPT_VERSIONS entry "${entry}" should look like "recipe=2".`);
+    }
+    overrides[id] = Number(version);
+  }
+  return overrides;
+}
+
+const activeVersions: Record<PromptId, number> = { ...DEFAULT_VERSIONS, ...parseVersionOverrides(config.promptVersions) };
+
+// The given version of a prompt, or the active one
+export function getPrompt<Id extends PromptId>(id: Id, version: number = activeVersions[id]): PromptTemplate<Id> {
+  const templates: PromptTemplate<Id>[] = PROMPT_TEMPLATES[id];
+  const template = templates.find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`There's no version ${version} of the ${id} prompt. Versions: ${templates.map(candidate => candidate.version).join(', ')}.`);
+  }
+  return template;
+}
+
+// "recipe@2": how reports and cache keys name a template
+export function promptLabel({ id, version }: PromptTemplate): string {
+  return `${id}@${version}`;
+}
@@ -0,0 +1,49 @@
+import { describeAllergens } from '../allergens';
+import { macroGoalInstructions } from '../macroGoals';
+import type { RecipeOptions } from '../recipeOptions';
+import type { UnitSystem } from '../unitSystems';
+
+// Lines shared between prompt templates, each starting on a new "- " line
+
+export const UNIT_INSTRUCTIONS: Record<UnitSystem, string> = {
+  original: 'Use appropriate units (e.g., use tablespoons instead of cups for small quantities)',
+  metric: 'Use metric units: grams for solids, millilitres or litres for liquids, teaspoons/tablespoons for small amounts, and °C for temperatures',
+  us: 'Use US customary units: cups, tablespoons and teaspoons for volume, ounces and pounds for weight, and °F for temperatures',
+};
+
+export function people(servings: number): string {
+  return `${servings} ${servings === 1 ? 'person' : 'people'}`;
+}
+
+// Just the diet line, for prompts that aren't writing a whole recipe
+export function suitableForDiet(options: RecipeOptions): string {
+  if (options.diet === 'other' && options.customDiet) {
+    return `\n- Only use ingredients and methods suitable for: ${options.customDiet}.`;
+  }
+  return options.diet ? `\n- Only use ingredients and methods suitable for: ${options.diet}.` : '';
+}
+
+// Diet, health, nutrition goal and cuisine lines, shared by the recipe and meal plan prompts
+export function dietInstructions(options: RecipeOptions): string {
+  let prompt = suitableForDiet(options);
+  if (options.healthy) prompt += "\n- Only show healthy recipes. Avoid deep frying, excess oil, sugar, and processed foods. Prefer whole grains, lean proteins, and lots of vegetables.";
+  prompt += macroGoalInstructions(options);
+  if (options.cuisine === 'other' && options.customCuisine) {
+    prompt += `\n- Focus on ${options.customCuisine} cuisine.`;
+  } else if (options.cuisine !== 'other') {
+    prompt += `\n- Focus on ${options.cuisine} cuisine.`;
+  }
+  return prompt;
+}
+
+export function allergenInstructions(options: RecipeOptions): string {
+  if (!options.allergens || options.allergens.trim().length === 0) return '';
+  return `\n- Avoid all of these allergens: ${describeAllergens(options.allergens)}`;
+}
+
+export function dishTypeInstructions(options: RecipeOptions): string {
+  if (options.dishType === 'other' && options.customDishType) {
+    return `\n- This should be a ${options.customDishType} dish.`;
+  }
+  return options.dishType ? `\n- This should be a ${options.dishType} dish.` : '';
+}
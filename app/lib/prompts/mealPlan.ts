@@ -0,0 +1,24 @@
+import { allergenInstructions, dietInstructions, people } from './instructions';
+import type { PromptTemplate } from './types';
+
+export const mealPlanV1: PromptTemplate<'meal-plan'> = {
+  id: 'meal-plan',
+  version: 1,
+  summary: 'Outline of dishes with each meal\'s share of the leftovers',
+  render({ ingredients, options, days, meals, structured }) {
+    let prompt = `You are a helpful home cook planning how to use up a fridge of leftovers over ${days} ${days === 1 ? 'day' : 'days'}. The leftovers are: ${ingredients}.
+Plan ${meals.join(', ')} for each day (${days * meals.length} meals in total), each for ${people(options.servings)}.
+- Share the leftovers out between the meals. Together, the meals must not use more of a leftover than is listed, so give each meal its own share with an amount.
+- Use the most perishable leftovers (fresh herbs, leafy greens, cooked rice, seafood, opened dairy) in the earliest meals.
+- Meals may also use common pantry staples (oil, salt, pepper, spices, flour); don't list those.
+- Keep the plan varied: never repeat a dish, and avoid the same main ingredient in back-to-back meals where you can.
+- Breakfasts should be breakfast dishes.`;
+    prompt += dietInstructions(options);
+    prompt += allergenInstructions(options);
+    prompt += `\n\nFor each meal give the day number (1 to ${days}), the meal (${meals.join(', ')}), a dish title, and the leftovers it uses as a list of name, quantity (a number, or null if the leftover has no amount) and unit (in the same unit as the leftover list, or "" for counts).`;
+    prompt += structured
+      ? '\n\nRespond only with JSON matching the provided schema.'
+      : '\n\nRespond only with JSON of the form {"meals": [{"day": 1, "meal": "dinner", "title": "...", "uses": [{"name": "...", "quantity": 1, "unit": "cup"}]}]}.';
+    return prompt;
+  },
+};
@@ -0,0 +1,99 @@
+import { describeAllergens } from '../allergens';
+import type { RecipeOptions } from '../recipeOptions';
+import { allergenInstructions, dietInstructions, dishTypeInstructions, people, UNIT_INSTRUCTIONS } from './instructions';
+import type { PromptTemplate } from './types';
+
+const STRUCTURED_INSTRUCTIONS = '\n\nRespond only with JSON matching the provided schema. Give quantities as numbers (0.25 rather than 1/4), nutrition per serving, and times in minutes.';
+
+function difficultyInstructions(options: RecipeOptions): string {
+  let prompt = '';
+  if (options.difficulty) {
+    prompt += `\n- Set the recipe difficulty to: ${options.difficulty} (1=easy, 5=hard).`;
+  }
+  if (options.difficulty >= 4) {
+    prompt += "\n- Make the recipe especially innovative, creative, or unique. Use advanced or unexpected techniques, flavor combinations, or presentation ideas.";
+  } else if (options.difficulty === 3) {
+    prompt += "\n- Add a touch of creativity or a unique twist to the recipe.";
+  }
+  return prompt;
+}
+
+function perishableInstructions(options: RecipeOptions): string {
+  if (options.useFirst.length === 0) return '';
+  return `\n- Prioritise using up these ingredients, which are about to go off (soonest first): ${options.useFirst.join(', ')}.`;
+}
+
+export const recipeV1: PromptTemplate<'recipe'> = {
+  id: 'recipe',
+  version: 1,
+  summary: 'Numbered list of sections, with the options added as instructions after it',
+  render({ ingredients, options, structured, extraInstructions }) {
+    let prompt = `You are a helpful home cook. Given these ingredients: ${ingredients}, return a detailed recipe for ${people(options.servings)} with:
+1. Recipe Title
+2. Ingredients List (format each ingredient as "quantity unit ingredient", e.g. "2 cups rice", "1 medium onion", "3 tablespoons oil")
+   - IMPORTANT: Use only a proportional amount of each ingredient based on the number of people (do NOT use the entire amount of any ingredient unless it matches the portion size for that many people)
+   - Use standard adult portion sizes for each ingredient (e.g., 30-50g cheese per person, 1/2 cup cooked rice per person, etc.)
+   - If a user inputs a large amount (e.g., 200g goat cheese), use only what is appropriate for the number of people and leave the rest unused
+   - ${UNIT_INSTRUCTIONS[options.units]}
+   - Round quantities to reasonable amounts (e.g., 1/4 cup instead of 0.25 cups)
+3. Instructions (step-by-step)
+4. Substitutions
+5. Cooking Tips
+6. Nutritional Information (calories, protein, carbs, fat per serving)
+   - ALWAYS compute and show calories per serving, even if you have to estimate
+7. Total Time Required (prep + cook time in minutes)
+8. Serving size (e.g., "serves ${people(options.servings)}")
+9. Difficulty (a whole number from 1=easy to 5=hard)
+
+Only return the recipe.`;
+
+    prompt += dishTypeInstructions(options);
+    prompt += dietInstructions(options);
+    if (options.quick) prompt += "\n- Limit prep time to under 20 minutes.";
+    prompt += perishableInstructions(options);
+    prompt += allergenInstructions(options);
+    prompt += difficultyInstructions(options);
+    prompt += extraInstructions;
+    if (structured) prompt += STRUCTURED_INSTRUCTIONS;
+    return prompt;
+  },
+};
+
+export const recipeV2: PromptTemplate<'recipe'> = {
+  id: 'recipe',
+  version: 2,
+  summary: 'Requirements first, phrased as the checks the recipe is reviewed against; spells out the quick time limits and hidden allergen sources',
+  render({ ingredients, options, structured, extraInstructions }) {
+    let requirements = `\n- It serves exactly ${people(options.servings)}. Scale every quantity to standard adult portions for that many, and leave the rest of a large leftover unused.`;
+    requirements += dishTypeInstructions(options);
+    requirements += dietInstructions(options);
+    if (options.quick) {
+      requirements += '\n- It must be quick: no more than 20 minutes of prep, and no more than 40 minutes in total.';
+    }
+    requirements += perishableInstructions(options);
+    if (options.allergens && options.allergens.trim().length > 0) {
+      requirements += `\n- It must not contain any of these allergens, including hidden in stocks, sauces, pastes or garnishes: ${describeAllergens(options.allergens)}`;
+    }
+    requirements += difficultyInstructions(options);
+
+    let prompt = `You are a helpful home cook. Write one recipe that uses these leftovers: ${ingredients}.
+
+Requirements (the recipe is checked against every one):${requirements}
+
+Include, in this order:
+1. A title
+2. Ingredients, each as "quantity unit ingredient" (e.g. "2 cups rice", "1 medium onion"). ${UNIT_INSTRUCTIONS[options.units]}. Round quantities to sensible kitchen amounts.
+3. Step-by-step instructions
+4. Substitutions
+5. Cooking tips
+6. Nutrition per serving: calories, protein, carbs and fat. Always give calories, estimating if you must.
+7. Prep time and cook time in minutes, and their total
+8. Servings ("serves ${people(options.servings)}")
+9. Difficulty, a whole number from 1 (easy) to 5 (hard)
+
+Only return the recipe.`;
+    prompt += extraInstructions;
+    if (structured) prompt += STRUCTURED_INSTRUCTIONS;
+    return prompt;
+  },
+};
@@ -0,0 +1,33 @@
+import { allergenInstructions, dietInstructions, people } from './instructions';
+import type { PromptTemplate } from './types';
+
+// Non-structured providers get the recipe back as plain text, so they're told the sections
+const TEXT_SECTIONS = 'Return the whole updated recipe, not just what changed, with the same sections: title, ingredients ("quantity unit ingredient"), step-by-step instructions, substitutions, cooking tips, nutritional information per serving, total time required, serving size and difficulty (1 to 5).';
+
+export const refineV1: PromptTemplate<'refine'> = {
+  id: 'refine',
+  version: 1,
+  summary: 'The recipe as JSON, the change and the diet and allergen rules on the first turn, then just each further change',
+  render({ instruction, recipe, options, structured }) {
+    let prompt: string;
+    if (recipe) {
+      prompt = `You are a helpful home cook. Here is a recipe for ${people(recipe.servings)}:
+
+${JSON.stringify(recipe)}
+
+Change it as follows: ${instruction}
+
+- Keep everything the change doesn't touch, and make sure the ingredients, steps, times and nutrition still agree with each other.
+- If the change means a different cooking method (for example no oven), rewrite the steps for it rather than just removing some.`;
+      // Said once; later turns build on this one
+      prompt += dietInstructions(options);
+      prompt += allergenInstructions(options);
+    } else {
+      prompt = `Now change the latest version as follows: ${instruction}`;
+    }
+    prompt += structured
+      ? '\n\nRespond only with the whole updated recipe as JSON matching the provided schema.'
+      : `\n\n${TEXT_SECTIONS}`;
+    return prompt;
+  },
+};
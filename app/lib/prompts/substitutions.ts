@@ -0,0 +1,53 @@
+import { SUBSTITUTIONS_PER_INGREDIENT } from '../substitutions';
+import { allergenInstructions, suitableForDiet } from './instructions';
+import type { PromptTemplate } from './types';
+
+export const substitutionsV1: PromptTemplate<'substitutions'> = {
+  id: 'substitutions',
+  version: 1,
+  summary: 'Three substitutions per ingredient as indented lines with a note each',
+  render({ ingredients, options }) {
+    return `Given these ingredients that need substitutions: ${ingredients.join(', ')}, suggest possible substitutions for each ingredient that would work well in the same recipe.
+
+For each ingredient, provide the information in this exact format:
+
+• [original ingredient name]
+  [substitution option 1] (Note: [brief note about taste/texture/cooking changes])
+  [substitution option 2] (Note: [brief note about taste/texture/cooking changes])
+  [substitution option 3] (Note: [brief note about taste/texture/cooking changes])
+
+Do NOT add a hyphen, dash, or bullet before each substitution. Just start each substitution on a new line, indented under the ingredient. Make sure to:
+- Keep each substitution concise and clear
+- Include specific quantities where relevant
+- Make notes brief but informative
+- Consider the cuisine style (${options.cuisine === 'other' ? options.customCuisine : options.cuisine})
+- Add a blank line between different ingredients
+- Keep the response clean and easy to read`;
+  },
+};
+
+export const substitutionsV2: PromptTemplate<'substitutions'> = {
+  id: 'substitutions',
+  version: 2,
+  summary: 'Substitutions as JSON with a ratio and impact, skipping the ones the table already offers',
+  render({ ingredients, offered, options, structured }) {
+    const lines = ingredients.map(ingredient => {
+      const skip = offered[ingredient] ?? [];
+      return skip.length > 0 ? `- ${ingredient} (already suggested: ${skip.join('; ')})` : `- ${ingredient}`;
+    });
+    let prompt = `Suggest up to ${SUBSTITUTIONS_PER_INGREDIENT} substitutions for each of these recipe ingredients that would work well in the same recipe:
+${lines.join('\n')}
+
+- Don't repeat a substitution that has already been suggested.
+- Word each replacement so it reads well after an amount on an ingredient line, e.g. "kale" or "Greek yogurt thinned with milk".
+- Give the ratio as the amount of the replacement per 1 of the original, with a unit if it differs from the original's (e.g. 3 tbsp aquafaba per egg), and say in one short sentence how it changes the flavour, texture or cooking.`;
+    const cuisine = options.cuisine === 'other' ? options.customCuisine : options.cuisine;
+    if (cuisine) prompt += `\n- Suit the ${cuisine} style of the recipe.`;
+    prompt += suitableForDiet(options);
+    prompt += allergenInstructions(options);
+    prompt += structured
+      ? '\n\nRespond only with JSON matching the provided schema, repeating each ingredient exactly as listed.'
+      : '\n\nRespond only with JSON of the form {"ingredients": [{"ingredient": "(exactly as listed)", "substitutions": [{"replacement": "...", "ratio": 1, "unit": "", "impact": "..."}]}]}.';
+    return prompt;
+  },
+};
@@ -0,0 +1,61 @@
+import type { Recipe } from '../recipe';
+import type { RecipeOptions } from '../recipeOptions';
+
+// What each prompt is filled in with
+export interface RecipePromptVariables {
+  ingredients: string;
+  options: RecipeOptions;
+  // Whether the provider is given RECIPE_JSON_SCHEMA, so the prompt can ask for JSON
+  structured: boolean;
+  // Appended as is: candidate styles, meal plan slots, repair requests
+  extraInstructions: string;
+}
+
+export interface SubstitutionPromptVariables {
+  // Ingredient lines as shown on the recipe
+  ingredients: string[];
+  // Replacements already offered for each line (from the curated table), not to repeat
+  offered: Record<string, string[]>;
+  options: RecipeOptions;
+  // Whether the provider is given SUBSTITUTIONS_JSON_SCHEMA
+  structured: boolean;
+}
+
+// One turn of refining a recipe in conversation
+export interface RefinePromptVariables {
+  // What the user wants changed, in their words
+  instruction: string;
+  // The recipe to change. Only given on the first turn: after that the model changes its
+  // own latest version, which is already in the conversation.
+  recipe?: Recipe;
+  options: RecipeOptions;
+  structured: boolean;
+}
+
+export interface MealPlanPromptVariables {
+  ingredients: string;
+  options: RecipeOptions;
+  days: number;
+  // The meals planned each day, e.g. ['lunch', 'dinner']
+  meals: string[];
+  structured: boolean;
+}
+
+export interface PromptVariables {
+  recipe: RecipePromptVariables;
+  substitutions: SubstitutionPromptVariables;
+  refine: RefinePromptVariables;
+  'meal-plan': MealPlanPromptVariables;
+}
+
+export type PromptId = keyof PromptVariables;
+
+// One wording of a prompt. Versions are never edited once they've been used: change the
+// wording by adding a version, so cached answers and evaluation results stay comparable.
+export interface PromptTemplate<Id extends PromptId = PromptId> {
+  id: Id;
+  version: number;
+  // What changed in this version, shown in evaluation reports
+  summary: string;
+  render(variables: PromptVariables[Id]): string;
+}
@@ -0,0 +1,27 @@
+import { getFixture } from './fixtures';
+import { GenerateRequest, LLMProvider } from './types';
+
+// Size of each streamed chunk, roughly a handful of tokens
+const STREAM_CHUNK_SIZE = 24;
+
+// Deterministic offline provider: always returns the same canned response for a task.
+// Used by tests and offline demos, and needs no API key.
+export function createFixtureProvider(): LLMProvider {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    supportsStructuredOutput: true,
+    async generate({ task, schema }: GenerateRequest) {
+      return getFixture(task, Boolean(schema));
+    },
+    async *stream({ task, schema, signal }: GenerateRequest) {
+      const text = getFixture(task, Boolean(schema));
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        signal?.throwIfAborted();
+        // A short pause so the demo streams visibly
+        await new Promise(resolve => setTimeout(resolve, 20));
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
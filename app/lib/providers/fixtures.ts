@@ -0,0 +1,129 @@
+import type { Recipe } from '../recipe';
+import type { GenerationTask } from './types';
+
+// Canned model responses used by the fixture provider. They follow the same layout the
+// prompts in app/lib/prompts ask for, so the rest of the app can't tell them apart from a live model.
+
+const RECIPE_FIXTURE = `**Spinach and Chickpea Masala**
+
+**Ingredients:**
+- 1 tablespoon olive oil
+- 1 medium onion, finely chopped
+- 2 cloves garlic, minced
+- 1/2 inch ginger, grated
+- 1/2 teaspoon turmeric powder
+- 1 teaspoon cumin powder
+- 1 cup cooked chickpeas
+- 2 cups spinach
+- 1/2 cup cooked brown rice
+
+**Instructions:**
+1. Heat the olive oil in a pan over medium heat.
+2. Add the onion and cook for 5 minutes until soft.
+3. Stir in the garlic, ginger, turmeric and cumin and cook for 1 minute.
+4. Add the chickpeas and 1/4 cup water and simmer for 5 minutes.
+5. Fold in the spinach until wilted and serve over the brown rice.
+
+**Substitutions:**
+- Use kale instead of spinach.
+- Use quinoa instead of brown rice.
+
+**Cooking Tips:**
+- Mash a few chickpeas to thicken the sauce.
+- Finish with a squeeze of lemon juice.
+
+**Nutritional Information (per serving):**
+- Calories: 450
+- Protein: 17g
+- Carbs: 62g
+- Fat: 15g
+- Prep time: 10 minutes
+- Cook time: 15 minutes
+
+**Total Time Required:** 25 minutes
+
+**Difficulty:** 1
+
+**Serves:** 1 person`;
+
+// The same recipe as structured output
+const RECIPE_JSON_FIXTURE: Recipe = {
+  title: 'Spinach and Chickpea Masala',
+  servings: 1,
+  ingredients: [
+    { quantity: 1, unit: 'tablespoon', name: 'olive oil' },
+    { quantity: 1, unit: 'medium', name: 'onion', note: 'finely chopped' },
+    { quantity: 2, unit: 'cloves', name: 'garlic', note: 'minced' },
+    { quantity: 0.5, unit: 'inch', name: 'ginger', note: 'grated' },
+    { quantity: 0.5, unit: 'teaspoon', name: 'turmeric powder' },
+    { quantity: 1, unit: 'teaspoon', name: 'cumin powder' },
+    { quantity: 1, unit: 'cup', name: 'cooked chickpeas' },
+    { quantity: 2, unit: 'cups', name: 'spinach' },
+    { quantity: 0.5, unit: 'cup', name: 'cooked brown rice' },
+  ],
+  steps: [
+    'Heat the olive oil in a pan over medium heat.',
+    'Add the onion and cook for 5 minutes until soft.',
+    'Stir in the garlic, ginger, turmeric and cumin and cook for 1 minute.',
+    'Add the chickpeas and 1/4 cup water and simmer for 5 minutes.',
+    'Fold in the spinach until wilted and serve over the brown rice.',
+  ],
+  tips: [
+    'Mash a few chickpeas to thicken the sauce.',
+    'Finish with a squeeze of lemon juice.',
+  ],
+  substitutions: [
+    'Use kale instead of spinach.',
+    'Use quinoa instead of brown rice.',
+  ],
+  nutrition: { calories: 450, protein: 17, carbs: 62, fat: 15 },
+  prepMinutes: 10,
+  cookMinutes: 15,
+  totalMinutes: 25,
+  difficulty: 1,
+};
+
+const SUBSTITUTIONS_FIXTURE = JSON.stringify({
+  ingredients: [
+    {
+      ingredient: 'spinach',
+      substitutions: [
+        { replacement: 'kale', ratio: 1, unit: '', impact: 'Slightly more bitter; cook it 2 minutes longer.' },
+        { replacement: 'Swiss chard', ratio: 1, unit: '', impact: 'A similar texture and a milder flavour.' },
+      ],
+    },
+    {
+      ingredient: 'brown rice',
+      substitutions: [
+        { replacement: 'quinoa', ratio: 1, unit: '', impact: 'Cooks faster and adds protein.' },
+        { replacement: 'cauliflower rice', ratio: 1.5, unit: '', impact: 'Lower in carbs with a much lighter texture.' },
+      ],
+    },
+  ],
+});
+
+// Two days of three meals; slots outside that are left empty by the planner
+const MEAL_PLAN_FIXTURE = JSON.stringify({
+  meals: [
+    { day: 1, meal: 'breakfast', title: 'Spinach Omelette', uses: [{ name: 'eggs', quantity: 2, unit: '' }, { name: 'spinach', quantity: 1, unit: 'cup' }] },
+    { day: 1, meal: 'lunch', title: 'Chickpea and Rice Bowl', uses: [{ name: 'chickpeas', quantity: 1, unit: 'cup' }, { name: 'brown rice', quantity: 1, unit: 'cup' }] },
+    { day: 1, meal: 'dinner', title: 'Spinach and Chickpea Masala', uses: [{ name: 'chickpeas', quantity: 1, unit: 'cup' }, { name: 'spinach', quantity: 2, unit: 'cup' }, { name: 'onion', quantity: 1, unit: '' }] },
+    { day: 2, meal: 'breakfast', title: 'Masala Scrambled Eggs', uses: [{ name: 'eggs', quantity: 2, unit: '' }, { name: 'onion', quantity: 1, unit: '' }] },
+    { day: 2, meal: 'lunch', title: 'Spinach Rice Soup', uses: [{ name: 'brown rice', quantity: 1, unit: 'cup' }, { name: 'spinach', quantity: 1, unit: 'cup' }] },
+    { day: 2, meal: 'dinner', title: 'Crispy Chickpea Fried Rice', uses: [{ name: 'brown rice', quantity: 1, unit: 'cup' }, { name: 'chickpeas', quantity: 1, unit: 'cup' }, { name: 'eggs', quantity: 1, unit: '' }] },
+  ],
+});
+
+const FIXTURES: Record<GenerationTask, string> = {
+  recipe: RECIPE_FIXTURE,
+  substitutions: SUBSTITUTIONS_FIXTURE,
+  'meal-plan': MEAL_PLAN_FIXTURE,
+};
+
+// `structured` returns the JSON form where the task has one
+export function getFixture(task: GenerationTask, structured = false): string {
+  if (structured && task === 'recipe') {
+    return JSON.stringify(RECIPE_JSON_FIXTURE);
+  }
+  return FIXTURES[task];
+}
@@ -0,0 +1,142 @@
+import { parseRetryAfter } from './retry';
+import { GenerateRequest, JsonSchema, LLMProvider, ProviderError } from './types';
+
+interface GeminiSettings {
+  apiKey?: string;
+  model: string;
+}
+
+export function createGeminiProvider({ apiKey, model }: GeminiSettings): LLMProvider {
+  if (!apiKey) {
+    console.error('API Key missing: GEMINI_API_KEY is not set.');
+    throw new Error('Gemini API key is not set. Please check your .env.local file.');
+  }
+
+  // Both endpoints take the same body; streamGenerateContent answers with server-sent events
+  async function callGemini(method: 'generateContent' | 'streamGenerateContent', { prompt, history = [], schema, signal }: GenerateRequest) {
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+    let response: Response;
+    try {
+      response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${query}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            contents: [
+              // Gemini calls the assistant "model"
+              ...history.map(message => ({
+                role: message.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: message.content }],
+              })),
+              {
+                role: 'user',
+                parts: [{
+                  text: prompt
+                }]
+              },
+            ],
+            ...(schema && {
+              generationConfig: {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(schema),
+              },
+            }),
+          }),
+          signal,
+        }
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Network trouble is worth retrying, like a server error
+      throw new ProviderError(`Could not reach the Gemini API: ${(error as Error).message}`, 503);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('API Error Response:', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText
+      });
+      const status = errorText.toLowerCase().includes('rate limit') ? 429 : response.status;
+      throw new ProviderError(`Gemini API error: ${response.statusText}`, status, parseRetryAfter(response.headers.get('retry-after')));
+    }
+    return response;
+  }
+
+  return {
+    name: 'gemini',
+    model,
+    supportsStructuredOutput: true,
+    async generate(request: GenerateRequest) {
+      const response = await callGemini('generateContent', request);
+      const data = await response.json();
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new ProviderError('Invalid response format from Gemini API');
+      }
+      return text;
+    },
+    async *stream(request: GenerateRequest) {
+      const response = await callGemini('streamGenerateContent', request);
+      if (!response.body) {
+        throw new ProviderError('Invalid response format from Gemini API');
+      }
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event);
+        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+// Yields the payload of each `data:` line in a server-sent event stream
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Gemini takes an OpenAPI-style schema: no additionalProperties, `nullable`
+// instead of union types such as ['number', 'null'], and explicit key ordering.
+function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties') continue;
+    if (key === 'type' && Array.isArray(value)) {
+      result.type = value.find(type => type !== 'null');
+      if (value.includes('null')) result.nullable = true;
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property as JsonSchema)])
+      );
+      // Without this Gemini orders keys alphabetically, and streamed recipes would
+      // arrive nutrition-first
+      result.propertyOrdering = Object.keys(value);
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as JsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,66 @@
+import { InferenceClient } from '@huggingface/inference';
+import { GenerateRequest, LLMProvider, ProviderError } from './types';
+
+interface HuggingFaceSettings {
+  apiKey?: string;
+  model: string;
+}
+
+export function createHuggingFaceProvider({ apiKey, model }: HuggingFaceSettings): LLMProvider {
+  if (!apiKey) {
+    throw new Error('Hugging Face API key is not set. Please set HF_API_KEY in your .env.local file.');
+  }
+
+  const client = new InferenceClient(apiKey);
+
+  function toProviderError(error: unknown): ProviderError {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = /rate limit|too many requests/i.test(message) ? 429 : undefined;
+    return new ProviderError(`Hugging Face API error: ${message}`, status);
+  }
+
+  return {
+    name: 'huggingface',
+    model,
+    // Grammar support differs between inference providers, so we stick to plain text
+    supportsStructuredOutput: false,
+    async generate({ prompt, history = [], signal }: GenerateRequest) {
+      let text: string | undefined;
+      try {
+        const output = await client.chatCompletion(
+          {
+            model,
+            messages: [...history, { role: 'user', content: prompt }],
+            max_tokens: 2048,
+          },
+          { signal }
+        );
+        text = output.choices[0]?.message?.content;
+      } catch (error) {
+        throw toProviderError(error);
+      }
+      if (!text) {
+        throw new ProviderError('Invalid response format from Hugging Face API');
+      }
+      return text;
+    },
+    async *stream({ prompt, history = [], signal }: GenerateRequest) {
+      try {
+        const stream = client.chatCompletionStream(
+          {
+            model,
+            messages: [...history, { role: 'user', content: prompt }],
+            max_tokens: 2048,
+          },
+          { signal }
+        );
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { config } from '../../config';
+import { createFixtureProvider } from './fixture';
+import { createGeminiProvider } from './gemini';
+import { createHuggingFaceProvider } from './huggingface';
+import { createOpenAIProvider } from './openai';
+import { withRetries } from './retry';
+import type { LLMProvider, ProviderName } from './types';
+
+export type { ChatMessage, GenerateRequest, GenerationTask, JsonSchema, LLMProvider, ProviderName } from './types';
+export { ProviderError } from './types';
+
+// Returns the provider selected by config.llmProvider (LLM_PROVIDER), or the one named,
+// with retries and timeouts around its calls
+export function getProvider(name: ProviderName = config.llmProvider): LLMProvider {
+  return withRetries(createProvider(name), {
+    maxRetries: config.modelMaxRetries,
+    timeoutMs: config.modelTimeoutSeconds * 1000,
+  });
+}
+
+function createProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.geminiApiKey, model: config.geminiModel });
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: config.openaiApiKey,
+        baseURL: config.openaiBaseUrl,
+        model: config.openaiModel,
+      });
+    case 'huggingface':
+      return createHuggingFaceProvider({ apiKey: config.huggingfaceApiKey, model: config.huggingfaceModel });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${name}". Use gemini, openai, huggingface or fixture.`);
+  }
+}
@@ -0,0 +1,79 @@
+import OpenAI from 'openai';
+import { parseRetryAfter } from './retry';
+import { GenerateRequest, LLMProvider, ProviderError } from './types';
+
+interface OpenAISettings {
+  apiKey?: string;
+  // Point this at any OpenAI-compatible server (Ollama, LM Studio, vLLM...) to run locally
+  baseURL?: string;
+  model: string;
+}
+
+export function createOpenAIProvider({ apiKey, baseURL, model }: OpenAISettings): LLMProvider {
+  if (!apiKey && !baseURL) {
+    throw new Error('OpenAI API key is not set. Please set OPENAI_API_KEY, or OPENAI_BASE_URL for a local server.');
+  }
+
+  // Local servers usually ignore the key, but the SDK insists on having one. Retries are
+  // left to withRetries, so they're counted and paced the same for every provider.
+  const client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL, maxRetries: 0 });
+
+  function toParams({ task, prompt, history = [], schema }: GenerateRequest) {
+    return {
+      model,
+      messages: [...history, { role: 'user' as const, content: prompt }],
+      ...(schema && {
+        response_format: {
+          type: 'json_schema' as const,
+          json_schema: { name: task, schema, strict: true },
+        },
+      }),
+    };
+  }
+
+  function toProviderError(error: unknown): unknown {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      // Network trouble is worth retrying, like a server error
+      return new ProviderError(`Could not reach the OpenAI API: ${error.message}`, 503);
+    }
+    if (error instanceof OpenAI.APIError) {
+      return new ProviderError(`OpenAI API error: ${error.message}`, error.status, parseRetryAfter(error.headers?.['retry-after']));
+    }
+    return error;
+  }
+
+  return {
+    name: 'openai',
+    model,
+    supportsStructuredOutput: true,
+    async generate(request: GenerateRequest) {
+      try {
+        const completion = await client.chat.completions.create(toParams(request), { signal: request.signal });
+        const text = completion.choices[0]?.message?.content;
+        if (!text) {
+          throw new ProviderError('Invalid response format from OpenAI API');
+        }
+        return text;
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+    async *stream(request: GenerateRequest) {
+      try {
+        const stream = await client.chat.completions.create(
+          { ...toParams(request), stream: true },
+          { signal: request.signal }
+        );
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import { GenerateRequest, LLMProvider, ProviderError } from './types';
+
+// The request layer every provider goes through (see getProvider). Each attempt gets a
+// timeout, and attempts that fail with a rate limit, a server error or a timeout are
+// retried with exponential backoff and jitter, waiting at least as long as the
+// upstream's Retry-After asks.
+
+export interface RetrySettings {
+  // Retries after the first attempt; 0 turns retrying off
+  maxRetries: number;
+  // An attempt gives up after this long without an answer (for streams, without a chunk)
+  timeoutMs: number;
+  baseDelayMs?: number;
+  // Longest we wait between attempts. A Retry-After longer than this fails straight away,
+  // rather than holding the request open.
+  maxDelayMs?: number;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: unknown): error is ProviderError {
+  if (!(error instanceof ProviderError) || error.status === undefined) return false;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+// Resolves after `ms`, or rejects as soon as `signal` is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', stop);
+      resolve();
+    }, ms);
+    function stop() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener('abort', stop, { once: true });
+  });
+}
+
+// A signal that aborts when the caller's does, or once `timeoutMs` passes without
+// `restart()`. `timedOut` tells the two apart.
+function createDeadline(timeoutMs: number, outer?: AbortSignal) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  const forward = () => controller.abort(outer?.reason);
+  outer?.addEventListener('abort', forward);
+
+  const pause = () => clearTimeout(timer);
+  const restart = () => {
+    pause();
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  restart();
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    restart,
+    pause,
+    clear() {
+      pause();
+      outer?.removeEventListener('abort', forward);
+    },
+  };
+}
+
+export function withRetries(
+  provider: LLMProvider,
+  { maxRetries, timeoutMs, baseDelayMs = 500, maxDelayMs = 8000 }: RetrySettings
+): LLMProvider {
+  // Turns the abort we caused into an error that says what happened
+  function describeFailure(error: unknown, deadline: ReturnType<typeof createDeadline>): unknown {
+    if (!deadline.timedOut()) return error;
+    return new ProviderError(`The ${provider.name} model didn't answer within ${Math.round(timeoutMs / 1000)} seconds.`, 504);
+  }
+
+  // Waits before the next attempt, or throws `error` if there shouldn't be one
+  async function backOff(error: unknown, attempt: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted || attempt >= maxRetries || !isRetryable(error)) throw error;
+    // "Full jitter": anywhere up to the exponential delay, so retries from many clients spread out
+    const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    const retryAfter = error.retryAfterMs ?? 0;
+    if (retryAfter > maxDelayMs) throw error;
+    const delay = Math.round(Math.max(backoff, retryAfter));
+    console.warn(`${provider.name} request failed (${error.message}), retrying in ${delay}ms (${attempt + 1} of ${maxRetries})...`);
+    await sleep(delay, signal);
+  }
+
+  return {
+    ...provider,
+    async generate(request: GenerateRequest) {
+      for (let attempt = 0; ; attempt++) {
+        const deadline = createDeadline(timeoutMs, request.signal);
+        try {
+          return await provider.generate({ ...request, signal: deadline.signal });
+        } catch (error) {
+          await backOff(describeFailure(error, deadline), attempt, request.signal);
+        } finally {
+          deadline.clear();
+        }
+      }
+    },
+    async *stream(request: GenerateRequest) {
+      for (let attempt = 0; ; attempt++) {
+        const deadline = createDeadline(timeoutMs, request.signal);
+        let started = false;
+        try {
+          for await (const text of provider.stream({ ...request, signal: deadline.signal })) {
+            started = true;
+            // The clock only runs while we're waiting on the model, not on our caller
+            deadline.pause();
+            yield text;
+            deadline.restart();
+          }
+          return;
+        } catch (error) {
+          const failure = describeFailure(error, deadline);
+          // Part of the answer has already gone out, so starting over would repeat it
+          if (started) throw failure;
+          await backOff(failure, attempt, request.signal);
+        } finally {
+          deadline.clear();
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export type ProviderName = 'gemini' | 'openai' | 'huggingface' | 'fixture';
+
+// What the prompt is for. Providers don't need it, but the fixture provider uses it
+// to pick a canned response.
+export type GenerationTask = 'recipe' | 'substitutions' | 'meal-plan';
+
+// The subset of JSON Schema we use for structured output
+export type JsonSchema = { [key: string]: unknown };
+
+// One earlier turn of a conversation with the model
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerateRequest {
+  task: GenerationTask;
+  prompt: string;
+  // Earlier turns, oldest first, for a multi-turn conversation; `prompt` is the next user turn
+  history?: ChatMessage[];
+  // Ask for JSON matching this schema. Only honoured when supportsStructuredOutput is true.
+  schema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  // The model behind it, as configured
+  model: string;
+  supportsStructuredOutput: boolean;
+  generate(request: GenerateRequest): Promise<string>;
+  // Yields the response text in chunks as the model produces it
+  stream(request: GenerateRequest): AsyncIterable<string>;
+}
+
+// Thrown by providers when the upstream API answers with an error status. 504 also
+// stands for a model that didn't answer in time (see withRetries).
+export class ProviderError extends Error {
+  status?: number;
+  // From the upstream's Retry-After header, when it sent one
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
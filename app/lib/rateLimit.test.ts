@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clientId, createRateLimiter } from './rateLimit';
+
+const request = (headers: Record<string, string>) => new Request('http://localhost/api/recipe', { headers });
+
+describe('clientId', () => {
+  it('ignores forwarded headers unless the proxy is trusted', () => {
+    expect(clientId(request({ 'x-forwarded-for': '203.0.113.7' }), false)).toBe('local');
+    expect(clientId(request({ 'x-real-ip': '203.0.113.7' }), false)).toBe('local');
+  });
+
+  it.each([
+    [{ 'x-forwarded-for': '203.0.113.7' }, '203.0.113.7'],
+    [{ 'x-forwarded-for': 'spoofed, 203.0.113.7' }, '203.0.113.7'],
+    [{ 'x-real-ip': '203.0.113.7' }, '203.0.113.7'],
+    [{}, 'local'],
+  ])('behind a trusted proxy reads %j as %s', (headers, expected) => {
+    expect(clientId(request(headers), true)).toBe(expected);
+  });
+});
+
+describe('createRateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst, then refills over time', () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ capacity: 3, refillPerSecond: 1 });
+    expect(limiter.take('a', 3).allowed).toBe(true);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterSeconds: 1 });
+    expect(limiter.take('b').allowed).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
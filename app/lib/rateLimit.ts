@@ -0,0 +1,70 @@
+// Token buckets, one per client: a client starts with `capacity` tokens, each request
+// takes some, and they refill at a steady rate. Bursts are fine; a sustained flood isn't.
+// Kept in memory, so the limits are per server process.
+
+export interface RateLimitSettings {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // When not allowed: how long until there are enough tokens
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take(client: string, cost?: number): RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Past this many clients, buckets that have filled back up are forgotten (a full bucket
+// is the same as a new one)
+const PRUNE_ABOVE = 10_000;
+
+export function createRateLimiter({ capacity, refillPerSecond }: RateLimitSettings): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  function refill(bucket: Bucket, now: number) {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = now;
+  }
+
+  function prune(now: number) {
+    buckets.forEach((bucket, client) => {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity) buckets.delete(client);
+    });
+  }
+
+  return {
+    take(client, cost = 1) {
+      const now = Date.now();
+      if (buckets.size > PRUNE_ABOVE) prune(now);
+      const bucket = buckets.get(client) ?? { tokens: capacity, updatedAt: now };
+      buckets.set(client, bucket);
+      refill(bucket, now);
+      // A request costing more than a full bucket would never get through, so it takes them all
+      const needed = Math.min(cost, capacity);
+      if (bucket.tokens >= needed) {
+        bucket.tokens -= needed;
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+      return { allowed: false, retryAfterSeconds: Math.ceil((needed - bucket.tokens) / refillPerSecond) };
+    },
+  };
+}
+
+// Who's asking, for rate limiting. Forwarded headers can be sent by anyone, so they're
+// only read when `trustProxy` says a proxy in front of us sets them; then it's the last
+// X-Forwarded-For entry, the one the proxy added (earlier ones come from the client).
+// Otherwise every client shares one allowance, as there's no address to go on.
+export function clientId(request: Request, trustProxy: boolean): string {
+  if (!trustProxy) return 'local';
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || request.headers.get('x-real-ip') || 'local';
+}
@@ -0,0 +1,179 @@
+import { formatQuantity } from './ingredients';
+
+// The structured recipe shared by the generation layer, the API routes and RecipeCard.
+
+export interface RecipeIngredient {
+  quantity: number | null;
+  // Upper end of a range such as "2-3 cloves", with quantity as the lower end
+  maxQuantity?: number;
+  // Empty for counted items, e.g. "2 eggs"
+  unit: string;
+  name: string;
+  // Preparation or other detail, e.g. "finely chopped"
+  note?: string;
+}
+
+// Per serving. Macros are in grams.
+export interface RecipeNutrition {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+}
+
+export interface Recipe {
+  title: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  tips: string[];
+  substitutions: string[];
+  nutrition: RecipeNutrition;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  totalMinutes: number | null;
+  // 1 (easy) to 5 (hard), as rated by the model
+  difficulty: number | null;
+}
+
+// JSON Schema sent to providers that support structured output. Every property is
+// required (nullable where optional) so it also satisfies OpenAI's strict mode.
+export const RECIPE_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', 'servings', 'ingredients', 'steps', 'tips', 'substitutions', 'nutrition', 'prepMinutes', 'cookMinutes', 'totalMinutes', 'difficulty'],
+  properties: {
+    title: { type: 'string' },
+    servings: { type: 'integer' },
+    ingredients: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['quantity', 'unit', 'name', 'note'],
+        properties: {
+          quantity: { type: ['number', 'null'], description: 'Numeric amount, e.g. 0.5 for 1/2. Null if unmeasured ("salt to taste").' },
+          unit: { type: 'string', description: 'Unit such as cup, tablespoon, g. Empty string for counted items.' },
+          name: { type: 'string' },
+          note: { type: 'string', description: 'Preparation detail such as "finely chopped", or an empty string.' },
+        },
+      },
+    },
+    steps: { type: 'array', items: { type: 'string' } },
+    tips: { type: 'array', items: { type: 'string' } },
+    substitutions: { type: 'array', items: { type: 'string' } },
+    nutrition: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['calories', 'protein', 'carbs', 'fat'],
+      properties: {
+        calories: { type: ['number', 'null'], description: 'Calories per serving' },
+        protein: { type: ['number', 'null'], description: 'Grams per serving' },
+        carbs: { type: ['number', 'null'], description: 'Grams per serving' },
+        fat: { type: ['number', 'null'], description: 'Grams per serving' },
+      },
+    },
+    prepMinutes: { type: ['integer', 'null'] },
+    cookMinutes: { type: ['integer', 'null'] },
+    totalMinutes: { type: ['integer', 'null'] },
+    difficulty: { type: ['integer', 'null'], description: '1 (easy) to 5 (hard)' },
+  },
+} as const;
+
+function isNumberOrNull(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Runtime check for data claiming to be a Recipe (model output, request bodies, storage).
+// Throws an Error listing every problem found; returns a normalised copy otherwise.
+export function validateRecipe(data: unknown): Recipe {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid recipe: expected an object.');
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (typeof raw.title !== 'string' || !raw.title.trim()) problems.push('title is missing');
+  if (typeof raw.servings !== 'number' || !Number.isInteger(raw.servings) || raw.servings < 1) {
+    problems.push('servings must be a positive whole number');
+  }
+
+  const ingredients: RecipeIngredient[] = [];
+  if (!Array.isArray(raw.ingredients)) {
+    problems.push('ingredients must be a list');
+  } else {
+    raw.ingredients.forEach((item, index) => {
+      const ingredient = (item ?? {}) as Record<string, unknown>;
+      if (typeof ingredient.name !== 'string' || !ingredient.name.trim()) {
+        problems.push(`ingredient ${index + 1} has no name`);
+        return;
+      }
+      const quantity = ingredient.quantity ?? null;
+      if (!isNumberOrNull(quantity)) {
+        problems.push(`ingredient ${index + 1} has an invalid quantity`);
+        return;
+      }
+      const note = typeof ingredient.note === 'string' ? ingredient.note.trim() : '';
+      const maxQuantity = ingredient.maxQuantity;
+      ingredients.push({
+        quantity,
+        ...(typeof maxQuantity === 'number' && quantity !== null && maxQuantity > quantity ? { maxQuantity } : {}),
+        unit: typeof ingredient.unit === 'string' ? ingredient.unit.trim() : '',
+        name: ingredient.name.trim(),
+        ...(note ? { note } : {}),
+      });
+    });
+  }
+
+  for (const field of ['steps', 'tips', 'substitutions'] as const) {
+    if (raw[field] !== undefined && !isStringArray(raw[field])) problems.push(`${field} must be a list of strings`);
+  }
+  if (!isStringArray(raw.steps)) problems.push('steps are missing');
+
+  const nutrition = (raw.nutrition ?? {}) as Record<string, unknown>;
+  for (const field of ['calories', 'protein', 'carbs', 'fat'] as const) {
+    if (!isNumberOrNull(nutrition[field] ?? null)) problems.push(`nutrition.${field} must be a number`);
+  }
+  for (const field of ['prepMinutes', 'cookMinutes', 'totalMinutes', 'difficulty'] as const) {
+    if (!isNumberOrNull(raw[field] ?? null)) problems.push(`${field} must be a number`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid recipe: ${problems.join('; ')}.`);
+  }
+
+  const clean = (list: unknown) => ((list as string[] | undefined) ?? []).map(item => item.trim()).filter(Boolean);
+  return {
+    title: (raw.title as string).trim(),
+    servings: raw.servings as number,
+    ingredients,
+    steps: clean(raw.steps),
+    tips: clean(raw.tips),
+    substitutions: clean(raw.substitutions),
+    nutrition: {
+      calories: (nutrition.calories as number | null) ?? null,
+      protein: (nutrition.protein as number | null) ?? null,
+      carbs: (nutrition.carbs as number | null) ?? null,
+      fat: (nutrition.fat as number | null) ?? null,
+    },
+    prepMinutes: (raw.prepMinutes as number | null) ?? null,
+    cookMinutes: (raw.cookMinutes as number | null) ?? null,
+    totalMinutes: (raw.totalMinutes as number | null) ?? null,
+    difficulty: (raw.difficulty as number | null) ?? null,
+  };
+}
+
+// Renders an ingredient back to a single line, e.g. "1/2 cup rice, rinsed" or "2-3 cloves garlic"
+export function ingredientToString(ingredient: RecipeIngredient): string {
+  let amount = '';
+  if (ingredient.quantity !== null) {
+    amount = formatQuantity(ingredient.quantity, ingredient.unit);
+    if (ingredient.maxQuantity !== undefined) amount += `-${formatQuantity(ingredient.maxQuantity, ingredient.unit)}`;
+  }
+  const parts = [amount, ingredient.unit, ingredient.name].filter(Boolean);
+  return parts.join(' ') + (ingredient.note ? `, ${ingredient.note}` : '');
+}
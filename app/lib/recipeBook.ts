@@ -0,0 +1,98 @@
+import type { Recipe } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+import { createId, readJSON, writeJSON } from './storage';
+
+// The saved recipe book, persisted in localStorage so saved recipes survive reloads
+// without calling the model again.
+
+const STORAGE_KEY = 'leftovers.recipeBook';
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  // The leftovers and options that produced the recipe
+  ingredients: string;
+  options: RecipeOptions;
+  tags: string[];
+  favourite: boolean;
+  savedAt: string;
+}
+
+export interface RecipeBookFilter {
+  query?: string;
+  tag?: string;
+  favouritesOnly?: boolean;
+}
+
+export function listSavedRecipes(): SavedRecipe[] {
+  return readJSON<SavedRecipe[]>(STORAGE_KEY, []);
+}
+
+export function getSavedRecipe(id: string): SavedRecipe | undefined {
+  return listSavedRecipes().find(saved => saved.id === id);
+}
+
+export function saveRecipe(recipe: Recipe, ingredients: string, options: RecipeOptions, tags: string[] = []): SavedRecipe {
+  const saved: SavedRecipe = {
+    id: createId(),
+    recipe,
+    ingredients,
+    options,
+    tags: normaliseTags(tags),
+    favourite: false,
+    savedAt: new Date().toISOString(),
+  };
+  writeJSON(STORAGE_KEY, [saved, ...listSavedRecipes()]);
+  return saved;
+}
+
+export function updateSavedRecipe(id: string, changes: Partial<Pick<SavedRecipe, 'tags' | 'favourite'>>): SavedRecipe | undefined {
+  let updated: SavedRecipe | undefined;
+  const recipes = listSavedRecipes().map(saved => {
+    if (saved.id !== id) return saved;
+    updated = {
+      ...saved,
+      ...changes,
+      ...(changes.tags && { tags: normaliseTags(changes.tags) }),
+    };
+    return updated;
+  });
+  writeJSON(STORAGE_KEY, recipes);
+  return updated;
+}
+
+export function deleteSavedRecipe(id: string): void {
+  writeJSON(STORAGE_KEY, listSavedRecipes().filter(saved => saved.id !== id));
+}
+
+export function normaliseTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Every tag used in the book, alphabetically
+export function allTags(recipes: SavedRecipe[]): string[] {
+  return Array.from(new Set(recipes.flatMap(saved => saved.tags))).sort();
+}
+
+function searchableText(saved: SavedRecipe): string {
+  const { recipe } = saved;
+  return [
+    recipe.title,
+    ...recipe.ingredients.map(ingredient => ingredient.name),
+    ...recipe.steps,
+    ...recipe.tips,
+    ...saved.tags,
+    saved.ingredients,
+  ].join('\n').toLowerCase();
+}
+
+// Full-text search: every word of the query must appear somewhere in the saved recipe
+export function filterSavedRecipes(recipes: SavedRecipe[], { query = '', tag, favouritesOnly }: RecipeBookFilter): SavedRecipe[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return recipes.filter(saved => {
+    if (favouritesOnly && !saved.favourite) return false;
+    if (tag && !saved.tags.includes(tag)) return false;
+    const text = searchableText(saved);
+    return terms.every(term => text.includes(term));
+  });
+}
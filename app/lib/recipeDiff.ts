@@ -0,0 +1,105 @@
+import { ingredientToString, Recipe } from './recipe';
+
+// What changed between two versions of a recipe, for showing refinements side by side.
+// Ingredients and steps are compared line by line; everything else field by field.
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface FieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RecipeDiff {
+  fields: FieldChange[];
+  ingredients: LineChange[];
+  steps: LineChange[];
+}
+
+// Longest-common-subsequence diff: unchanged lines stay in place, and each change is a
+// removal of the old line followed by the new one
+export function diffLines(before: string[], after: string[]): LineChange[] {
+  // common[i][j]: length of the longest common run of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      changes.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && common[i + 1][j] >= common[i][j + 1])) {
+      changes.push({ type: 'removed', text: before[i] });
+      i++;
+    } else {
+      changes.push({ type: 'added', text: after[j] });
+      j++;
+    }
+  }
+  return changes;
+}
+
+function minutes(value: number | null): string {
+  return value === null ? '–' : `${value} min`;
+}
+
+function amount(value: number | null, unit: string): string {
+  return value === null ? '–' : `${value}${unit}`;
+}
+
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  const fields: FieldChange[] = [
+    { label: 'Title', before: before.title, after: after.title },
+    { label: 'Serves', before: String(before.servings), after: String(after.servings) },
+    { label: 'Prep time', before: minutes(before.prepMinutes), after: minutes(after.prepMinutes) },
+    { label: 'Cook time', before: minutes(before.cookMinutes), after: minutes(after.cookMinutes) },
+    { label: 'Total time', before: minutes(before.totalMinutes), after: minutes(after.totalMinutes) },
+    { label: 'Difficulty', before: String(before.difficulty ?? '–'), after: String(after.difficulty ?? '–') },
+    { label: 'Calories', before: amount(before.nutrition.calories, ' kcal'), after: amount(after.nutrition.calories, ' kcal') },
+    { label: 'Protein', before: amount(before.nutrition.protein, 'g'), after: amount(after.nutrition.protein, 'g') },
+    { label: 'Carbs', before: amount(before.nutrition.carbs, 'g'), after: amount(after.nutrition.carbs, 'g') },
+    { label: 'Fat', before: amount(before.nutrition.fat, 'g'), after: amount(after.nutrition.fat, 'g') },
+  ].filter(field => field.before !== field.after);
+
+  return {
+    fields,
+    ingredients: diffLines(before.ingredients.map(ingredientToString), after.ingredients.map(ingredientToString)),
+    steps: diffLines(before.steps, after.steps),
+  };
+}
+
+function listLabels(labels: string[]): string {
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+}
+
+// "2 ingredients changed; 1 step added; title and calories changed", or "No changes"
+export function summariseDiff({ fields, ingredients, steps }: RecipeDiff): string {
+  const count = (lines: LineChange[], type: LineChange['type']) => lines.filter(line => line.type === type).length;
+  const describe = (lines: LineChange[], noun: string) => {
+    const added = count(lines, 'added');
+    const removed = count(lines, 'removed');
+    const changed = Math.min(added, removed);
+    return [
+      changed > 0 && `${changed} ${noun}${changed === 1 ? '' : 's'} changed`,
+      added > changed && `${added - changed} ${noun}${added - changed === 1 ? '' : 's'} added`,
+      removed > changed && `${removed - changed} ${noun}${removed - changed === 1 ? '' : 's'} removed`,
+    ];
+  };
+  const parts = [
+    ...describe(ingredients, 'ingredient'),
+    ...describe(steps, 'step'),
+    fields.length > 0 && `${listLabels(fields.map(field => field.label.toLowerCase()))} changed`,
+  ].filter(Boolean);
+  return parts.length === 0 ? 'No changes' : parts.join('; ');
+}
@@ -0,0 +1,158 @@
+import { scaleIngredient } from './ingredients';
+import type { NutrientProfile } from './nutrients';
+import { computeNutrition, RELIABLE_COVERAGE } from './nutrition';
+import { Recipe, ingredientToString } from './recipe';
+import { readJSON, writeJSON } from './storage';
+import { convertIngredient, convertTemperatures, UnitSystem } from './unitSystems';
+
+// Getting a recipe out of the app: Markdown, a schema.org Recipe in JSON-LD, and the
+// print view. All of them use the servings and units currently chosen on the card.
+
+const PRINT_KEY = 'leftovers.print';
+
+// Nutrition figures in display order: field, label and unit
+export const NUTRITION_ROWS: { field: keyof NutrientProfile; label: string; unit: string }[] = [
+  { field: 'calories', label: 'Calories', unit: 'kcal' },
+  { field: 'protein', label: 'Protein', unit: 'g' },
+  { field: 'carbs', label: 'Carbs', unit: 'g' },
+  { field: 'fat', label: 'Fat', unit: 'g' },
+  { field: 'fibre', label: 'Fibre', unit: 'g' },
+  { field: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+// A recipe as shown: scaled, converted and with the best nutrition figures we have
+export interface PresentedRecipe {
+  title: string;
+  servings: number;
+  ingredients: string[];
+  steps: string[];
+  tips: string[];
+  substitutions: string[];
+  // Per serving
+  nutrition: Record<keyof NutrientProfile, number | null>;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  totalMinutes: number | null;
+  difficulty: number | null;
+}
+
+// What the print page should show
+export interface PrintJob {
+  recipe: Recipe;
+  servings: number;
+  units: UnitSystem;
+}
+
+export function presentRecipe(recipe: Recipe, servings: number, units: UnitSystem): PresentedRecipe {
+  const factor = servings / recipe.servings;
+  const computed = computeNutrition(recipe);
+  const reliable = computed.coverage >= RELIABLE_COVERAGE;
+  // The model's figure where it gave one, otherwise ours if the ingredients were covered well enough
+  const figure = (field: keyof NutrientProfile, model?: number | null) =>
+    model ?? (reliable ? computed.perServing[field] : null);
+
+  return {
+    title: recipe.title,
+    servings,
+    ingredients: recipe.ingredients.map(ingredient =>
+      ingredientToString(convertIngredient(scaleIngredient(ingredient, factor), units))
+    ),
+    steps: recipe.steps.map(step => convertTemperatures(step, units)),
+    tips: recipe.tips,
+    substitutions: recipe.substitutions,
+    nutrition: {
+      calories: figure('calories', recipe.nutrition.calories),
+      protein: figure('protein', recipe.nutrition.protein),
+      carbs: figure('carbs', recipe.nutrition.carbs),
+      fat: figure('fat', recipe.nutrition.fat),
+      fibre: figure('fibre'),
+      sodium: figure('sodium'),
+    },
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    // Prep plus cook where we have both, since models often add them up wrong
+    totalMinutes: recipe.prepMinutes !== null && recipe.cookMinutes !== null
+      ? recipe.prepMinutes + recipe.cookMinutes
+      : recipe.totalMinutes,
+    difficulty: recipe.difficulty,
+  };
+}
+
+// 75 -> "PT1H15M", 0 -> "PT0M"
+export function toIsoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `PT${rest}M`;
+  return rest === 0 ? `PT${hours}H` : `PT${hours}H${rest}M`;
+}
+
+export function recipeToMarkdown(recipe: Recipe, servings: number, units: UnitSystem): string {
+  const view = presentRecipe(recipe, servings, units);
+  const details = [
+    `Serves ${view.servings}`,
+    view.prepMinutes !== null ? `Prep ${view.prepMinutes} min` : null,
+    view.cookMinutes !== null ? `Cook ${view.cookMinutes} min` : null,
+    view.totalMinutes !== null ? `Total ${view.totalMinutes} min` : null,
+    view.difficulty !== null ? `Difficulty ${view.difficulty}/5` : null,
+  ].filter(Boolean);
+  const nutrition = NUTRITION_ROWS.filter(({ field }) => view.nutrition[field] !== null);
+
+  const sections = [
+    `# ${view.title}`,
+    details.join(' · '),
+    ['## Ingredients', '', ...view.ingredients.map(line => `- ${line}`)].join('\n'),
+    ['## Instructions', '', ...view.steps.map((step, index) => `${index + 1}. ${step}`)].join('\n'),
+  ];
+  if (view.substitutions.length > 0) {
+    sections.push(['## Substitutions', '', ...view.substitutions.map(line => `- ${line}`)].join('\n'));
+  }
+  if (view.tips.length > 0) {
+    sections.push(['## Tips', '', ...view.tips.map(line => `- ${line}`)].join('\n'));
+  }
+  if (nutrition.length > 0) {
+    sections.push(['## Nutrition per serving', '', ...nutrition.map(({ field, label, unit }) => `- ${label}: ${Math.round(view.nutrition[field]!)} ${unit}`)].join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+// A schema.org Recipe (https://schema.org/Recipe), as search engines and recipe apps read it
+export function recipeToJsonLd(recipe: Recipe, servings: number, units: UnitSystem): Record<string, unknown> {
+  const view = presentRecipe(recipe, servings, units);
+  const amount = (value: number | null, unit: string) => (value === null ? undefined : `${Math.round(value)} ${unit}`);
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: view.title,
+    recipeYield: `${view.servings} ${view.servings === 1 ? 'serving' : 'servings'}`,
+    recipeIngredient: view.ingredients,
+    recipeInstructions: view.steps.map(text => ({ '@type': 'HowToStep', text })),
+    prepTime: view.prepMinutes !== null ? toIsoDuration(view.prepMinutes) : undefined,
+    cookTime: view.cookMinutes !== null ? toIsoDuration(view.cookMinutes) : undefined,
+    totalTime: view.totalMinutes !== null ? toIsoDuration(view.totalMinutes) : undefined,
+    nutrition: {
+      '@type': 'NutritionInformation',
+      servingSize: '1 serving',
+      calories: amount(view.nutrition.calories, 'calories'),
+      proteinContent: amount(view.nutrition.protein, 'g'),
+      carbohydrateContent: amount(view.nutrition.carbs, 'g'),
+      fatContent: amount(view.nutrition.fat, 'g'),
+      fiberContent: amount(view.nutrition.fibre, 'g'),
+      sodiumContent: amount(view.nutrition.sodium, 'mg'),
+    },
+  };
+}
+
+// "Spinach & Chickpea Masala" -> "spinach-chickpea-masala.md"
+export function exportFilename(recipe: Recipe, extension: string): string {
+  const slug = recipe.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'recipe'}.${extension}`;
+}
+
+// The print page runs in its own tab, so the recipe is handed over through localStorage
+export function savePrintJob(job: PrintJob): void {
+  writeJSON(PRINT_KEY, job);
+}
+
+export function loadPrintJob(): PrintJob | null {
+  return readJSON<PrintJob | null>(PRINT_KEY, null);
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { importRecipe, parseIsoDuration } from './recipeImport';
+
+describe('parseIsoDuration', () => {
+  it.each([
+    ['PT20M', 20],
+    ['PT1H30M', 90],
+    ['P0DT0H20M', 20],
+    ['PT90S', 2],
+    ['P1D', 1440],
+    ['20 minutes', null],
+    ['P', null],
+  ])('%s -> %s', (value, expected) => {
+    expect(parseIsoDuration(value)).toBe(expected);
+  });
+});
+
+const GRAPH_PAGE = `<html><head>
+<script type="application/ld+json">${JSON.stringify({
+  '@context': 'https://schema.org',
+  '@graph': [
+    { '@type': 'WebSite', name: 'Someone\'s Kitchen' },
+    { '@type': 'WebPage', name: 'Lentil Soup' },
+    {
+      '@type': 'Recipe',
+      name: 'Lentil Soup &amp; Toast',
+      recipeYield: ['4', '4 servings'],
+      recipeIngredient: ['1 cup red lentils', '2 carrots, diced', '1 litre stock'],
+      recipeInstructions: [
+        {
+          '@type': 'HowToSection',
+          name: 'Soup',
+          itemListElement: [
+            { '@type': 'HowToStep', text: 'Soften the carrots.' },
+            { '@type': 'HowToStep', text: 'Add the lentils and stock and simmer.' },
+          ],
+        },
+        {
+          '@type': 'HowToSection',
+          name: 'To serve',
+          itemListElement: [{ '@type': 'HowToStep', text: 'Toast the bread.' }],
+        },
+      ],
+      nutrition: { '@type': 'NutritionInformation', calories: '1255 kJ', proteinContent: '18 g' },
+      prepTime: 'PT10M',
+      cookTime: 'PT30M',
+    },
+  ],
+})}</script>
+</head><body><h1>Not the title</h1></body></html>`;
+
+describe('importRecipe', () => {
+  it('reads the Recipe node from a JSON-LD @graph on a page', () => {
+    const { recipe, format } = importRecipe(GRAPH_PAGE);
+    expect(format).toBe('json-ld');
+    expect(recipe.title).toBe('Lentil Soup & Toast');
+    expect(recipe.servings).toBe(4);
+    expect(recipe.ingredients.map(ingredient => [ingredient.quantity, ingredient.unit, ingredient.name])).toEqual([
+      [1, 'cup', 'red lentils'],
+      [2, '', 'carrots'],
+      [1, 'litre', 'stock'],
+    ]);
+    expect(recipe.nutrition).toEqual({ calories: 300, protein: 18, carbs: null, fat: null });
+    expect([recipe.prepMinutes, recipe.cookMinutes, recipe.totalMinutes]).toEqual([10, 30, 40]);
+  });
+
+  it.each([
+    ['HowToSections of HowToSteps', [
+      { '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', text: 'Boil.' }, { '@type': 'HowToStep', text: 'Drain.' }] },
+      { '@type': 'HowToSection', itemListElement: [{ '@type': 'HowToStep', name: 'Serve.' }] },
+    ], ['Boil.', 'Drain.', 'Serve.']],
+    ['a list of text', ['Boil.', 'Drain.'], ['Boil.', 'Drain.']],
+    ['one block of text', '1. Boil.\n2. Drain.', ['Boil.', 'Drain.']],
+    ['one block of HTML', '<p>Boil.</p><p>Drain.</p>', ['Boil.', 'Drain.']],
+  ])('reads steps given as %s', (_, recipeInstructions, expected) => {
+    const json = JSON.stringify({ '@type': 'Recipe', name: 'Pasta', recipeIngredient: ['200 g pasta'], recipeInstructions });
+    expect(importRecipe(json).recipe.steps).toEqual(expected);
+  });
+
+  it('reads a page without structured data like text, titled by its <h1>', () => {
+    const html = `<html><body><nav><a href="/">Home</a></nav><main>
+      <h1>Egg &amp; Rice Bowl</h1>
+      <p>Serves 2</p>
+      <h2>Ingredients</h2>
+      <ul><li>1 cup cooked rice</li><li>2 eggs</li></ul>
+      <h2>Method</h2>
+      <ol><li>Fry the eggs.</li><li>Serve over the rice.</li></ol>
+    </main></body></html>`;
+    const { recipe, format } = importRecipe(html);
+    expect(format).toBe('html');
+    expect(recipe.title).toBe('Egg & Rice Bowl');
+    expect(recipe.servings).toBe(2);
+    expect(recipe.ingredients.map(ingredient => ingredient.name)).toEqual(['cooked rice', 'eggs']);
+    expect(recipe.steps).toEqual(['Fry the eggs.', 'Serve over the rice.']);
+  });
+
+  it('reads headed text', () => {
+    const { recipe, format } = importRecipe([
+      'Quick Fried Rice',
+      'Prep time: 5 mins',
+      'Cook time: 1 hr 5 mins',
+      '',
+      '## Ingredients',
+      'For the rice:',
+      '- 2 cups cooked rice',
+      '- 1 tbsp soy sauce',
+      '',
+      'Instructions:',
+      'Step 1: Heat the oil.',
+      'Step 2: Fry the rice.',
+      '',
+      'Notes',
+      'Day-old rice fries best.',
+    ].join('\n'));
+    expect(format).toBe('text');
+    expect(recipe.title).toBe('Quick Fried Rice');
+    expect(recipe.ingredients.map(ingredient => ingredient.name)).toEqual(['cooked rice', 'soy sauce']);
+    expect(recipe.steps).toEqual(['Heat the oil.', 'Fry the rice.']);
+    expect(recipe.tips).toEqual(['Day-old rice fries best.']);
+    expect([recipe.prepMinutes, recipe.cookMinutes, recipe.totalMinutes]).toEqual([5, 65, 70]);
+  });
+
+  it('takes lines with an amount before the method as the ingredients when there is no heading', () => {
+    const { recipe } = importRecipe([
+      'Tomato Toast',
+      'A quick lunch.',
+      '2 slices bread',
+      '1 tomato',
+      'Method',
+      'Toast the bread and top with tomato.',
+    ].join('\n'));
+    expect(recipe.ingredients.map(ingredient => ingredient.name)).toEqual(['bread', 'tomato']);
+    expect(recipe.steps).toEqual(['Toast the bread and top with tomato.']);
+  });
+
+  it.each([
+    ['nothing', '   ', 'Paste a recipe'],
+    ['broken JSON', '{"@type": "Recipe",', 'couldn\'t be read'],
+    ['JSON without a Recipe', '{"@type": "Article"}', 'doesn\'t contain a schema.org Recipe'],
+    ['text without ingredients', 'Just some thoughts about dinner.', 'couldn\'t find an ingredients list'],
+  ])('rejects %s', (_, input, message) => {
+    expect(() => importRecipe(input)).toThrow(message);
+  });
+});
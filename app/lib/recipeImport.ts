@@ -0,0 +1,354 @@
+import { parseIngredientLine, toRecipeIngredient } from './ingredients';
+import { Recipe, RecipeNutrition, validateRecipe } from './recipe';
+
+// Brings someone else's recipe in, so it can be remade with what's in the fridge. Accepts
+// pasted text, a schema.org Recipe in JSON-LD, or the HTML of a recipe page (which almost
+// always embeds that JSON-LD). Runs entirely in the browser; nothing is fetched.
+
+export type ImportFormat = 'json-ld' | 'html' | 'text';
+
+export interface ImportedRecipe {
+  recipe: Recipe;
+  // What the input turned out to be
+  format: ImportFormat;
+}
+
+// A saved recipe page is rarely over a megabyte; anything much bigger wasn't meant for us
+export const MAX_IMPORT_LENGTH = 2_000_000;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', deg: '°',
+  frac12: '½', frac14: '¼', frac34: '¾', frac13: '⅓', frac23: '⅔',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// One line of text from a snippet that may contain markup: "<b>2</b> cups &frac12;" -> "2 cups ½"
+function cleanText(value: string): string {
+  return tidySpaces(decodeEntities(value.replace(/<[^>]*>/g, ' ')));
+}
+
+// Tags become spaces, which leaves "the <b>lentils</b>." as "the lentils ."
+function tidySpaces(line: string): string {
+  return line.replace(/\s+/g, ' ').replace(/ ([.,;:!?)])/g, '$1').replace(/\( /g, '(').trim();
+}
+
+// A page as lines of text, one per paragraph, list item or heading
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|li|ul|ol|h[1-6]|tr|section|article|header|footer|table)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ');
+  return decodeEntities(text)
+    .split('\n')
+    .map(tidySpaces)
+    .filter(Boolean)
+    .join('\n');
+}
+
+// The first number in "350 kcal", "12.5 g" or "Makes 12"
+function firstNumber(text: string): number | null {
+  const match = text.match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+// "PT1H30M" -> 90, "P0DT0H20M" -> 20
+export function parseIsoDuration(value: string): number | null {
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || !match.slice(1).some(Boolean)) return null;
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => (part ? parseFloat(part) : 0));
+  return Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+}
+
+// Minutes from an ISO duration or text like "1 hr 15 mins"; null for zero or unknown
+function parseMinutes(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const iso = parseIsoDuration(value);
+  if (iso !== null) return iso || null;
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*h/i);
+  const minutes = value.match(/(\d+)\s*m(?!l)/i);
+  const total = Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0));
+  return total || null;
+}
+
+// recipeYield comes as 4, "4", "4 servings", "Serves 4-6" or a list of those
+function parseServings(value: unknown): number | null {
+  for (const item of Array.isArray(value) ? value : [value]) {
+    const count = typeof item === 'number' ? item : typeof item === 'string' ? firstNumber(item) : null;
+    if (count !== null && count >= 1) return Math.round(count);
+  }
+  return null;
+}
+
+// Calories are sometimes only given in kilojoules
+function parseCalories(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const amount = firstNumber(value);
+  if (amount === null) return null;
+  return /kj/i.test(value) && !/cal/i.test(value) ? Math.round(amount / 4.184) : amount;
+}
+
+function parseGrams(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? firstNumber(value) : null;
+}
+
+// "Step 3:", "3.", "3)", bullets and checkboxes copied from recipe sites
+function stripMarker(line: string): string {
+  return line
+    .replace(/^(?:[-*•▢☐□✓]\s*)+/, '')
+    .replace(/^(?:step\s*)?\d+\s*[.):]\s+/i, '')
+    .replace(/\*\*|__/g, '')
+    .trim();
+}
+
+function ingredientsFrom(lines: string[]) {
+  return lines.map(line => toRecipeIngredient(parseIngredientLine(line)));
+}
+
+// Fills the fields the source left out and checks we have something worth showing
+function finishRecipe(draft: Omit<Recipe, 'tips' | 'substitutions' | 'difficulty'> & Partial<Recipe>): Recipe {
+  if (draft.ingredients.length === 0) {
+    throw new Error('We couldn\'t find an ingredients list. Put the ingredients under an "Ingredients" heading and try again.');
+  }
+  const { prepMinutes, cookMinutes } = draft;
+  return validateRecipe({
+    tips: [],
+    substitutions: [],
+    difficulty: null,
+    ...draft,
+    title: draft.title || 'Imported recipe',
+    totalMinutes: draft.totalMinutes ?? (prepMinutes !== null && cookMinutes !== null ? prepMinutes + cookMinutes : null),
+  });
+}
+
+// ---- JSON-LD ----
+
+function isRecipeType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  // "Recipe", "schema:Recipe" or "https://schema.org/Recipe"
+  return types.some(item => typeof item === 'string' && /(?:^|[/:])Recipe$/.test(item));
+}
+
+// The Recipe node anywhere in a JSON-LD document: at the top, in a list, in "@graph"
+// (as most WordPress sites publish it) or under "mainEntity"
+function findRecipeNode(data: unknown): Record<string, unknown> | null {
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+  const node = data as Record<string, unknown>;
+  if (isRecipeType(node['@type'])) return node;
+  for (const value of Object.values(node)) {
+    const found = value && typeof value === 'object' ? findRecipeNode(value) : null;
+    if (found) return found;
+  }
+  return null;
+}
+
+// The contents of every <script type="application/ld+json"> that parses
+function jsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  for (const match of Array.from(html.matchAll(pattern))) {
+    const json = match[1].trim().replace(/^<!--|-->$/g, '').replace(/^<!\[CDATA\[|\]\]>$/g, '');
+    try {
+      blocks.push(JSON.parse(json));
+    } catch {
+      // Broken markup on someone else's site; try the next block
+    }
+  }
+  return blocks;
+}
+
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return cleanText(value);
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.length > 0 ? textOf(value[0]) : '';
+  return '';
+}
+
+// Steps from a single block of text: one per line, or per paragraph in HTML
+function splitSteps(text: string): string[] {
+  const lines = /<[a-z][^>]*>/i.test(text) ? htmlToText(text).split('\n') : decodeEntities(text).split(/\n+/);
+  return lines.map(line => stripMarker(line.replace(/\s+/g, ' '))).filter(Boolean);
+}
+
+// recipeInstructions may be text, a list of text, HowToStep objects, or HowToSections
+// holding those in itemListElement
+function instructionSteps(value: unknown): string[] {
+  if (typeof value === 'string') return splitSteps(value);
+  if (Array.isArray(value)) return value.flatMap(instructionSteps);
+  if (!value || typeof value !== 'object') return [];
+  const node = value as Record<string, unknown>;
+  if (node.itemListElement !== undefined) return instructionSteps(node.itemListElement);
+  return instructionSteps(node.text ?? node.name);
+}
+
+function recipeFromJsonLd(node: Record<string, unknown>): Recipe {
+  const lines = (Array.isArray(node.recipeIngredient) ? node.recipeIngredient : [node.recipeIngredient ?? node.ingredients])
+    .flat()
+    .map(textOf)
+    .filter(Boolean);
+  const nutrition = (node.nutrition && typeof node.nutrition === 'object' ? node.nutrition : {}) as Record<string, unknown>;
+  return finishRecipe({
+    title: textOf(node.name) || textOf(node.headline),
+    servings: parseServings(node.recipeYield) ?? 1,
+    ingredients: ingredientsFrom(lines),
+    steps: instructionSteps(node.recipeInstructions),
+    nutrition: {
+      calories: parseCalories(nutrition.calories),
+      protein: parseGrams(nutrition.proteinContent),
+      carbs: parseGrams(nutrition.carbohydrateContent),
+      fat: parseGrams(nutrition.fatContent),
+    },
+    prepMinutes: parseMinutes(node.prepTime),
+    cookMinutes: parseMinutes(node.cookTime),
+    totalMinutes: parseMinutes(node.totalTime),
+  });
+}
+
+// ---- Plain text ----
+
+type TextSection = 'ingredients' | 'steps' | 'tips' | 'substitutions' | 'nutrition';
+
+// Headings as written by recipe sites, cookbooks and people typing from memory
+const HEADINGS: [TextSection, RegExp][] = [
+  ['ingredients', /^(?:ingredients?|ingredient list|you(?:'ll)? need|what you need)$/],
+  ['steps', /^(?:instructions?|method|directions?|steps?|preparation|how to make it)$/],
+  ['substitutions', /^(?:substitutions?|swaps?|variations?)$/],
+  ['tips', /^(?:tips?|notes?|cook'?s notes?|recipe notes?)$/],
+  ['nutrition', /^(?:nutrition(?:al)?(?: facts| information| info)?(?: per serving)?)$/],
+];
+
+function headingOf(line: string): TextSection | null {
+  // "## Ingredients", "INGREDIENTS:", "Ingredients (serves 4)"
+  const heading = line.replace(/[#*_]/g, '').replace(/\([^)]*\)/g, '').replace(/:\s*$/, '').trim().toLowerCase();
+  return HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+}
+
+const SERVINGS_LINE = /^(?:serves|servings|yield|yields|makes|portions)\b/i;
+const TIME_LINE = /^(prep(?:aration)?|cook(?:ing)?|total)\s*time\b\s*:?\s*(.*)$/i;
+
+function nutritionFromLines(lines: string[]): RecipeNutrition {
+  const nutrition: RecipeNutrition = { calories: null, protein: null, carbs: null, fat: null };
+  for (const line of lines) {
+    const [label, ...rest] = line.split(':');
+    const value = rest.join(':') || label;
+    if (/calorie|energy|kcal/i.test(label)) nutrition.calories = parseCalories(value);
+    else if (/protein/i.test(label)) nutrition.protein = parseGrams(value);
+    else if (/carb/i.test(label)) nutrition.carbs = parseGrams(value);
+    else if (/^\s*(?:total\s+)?fat/i.test(label)) nutrition.fat = parseGrams(value);
+  }
+  return nutrition;
+}
+
+// Text laid out the usual way: a title, maybe some details, then headed sections. If
+// there's no ingredients heading, lines before the method that start with an amount are
+// taken as the ingredients. `title` overrides the first line, e.g. a page's <h1>.
+function recipeFromText(text: string, title = ''): Recipe {
+  const sections: Record<TextSection | 'intro', string[]> = { intro: [], ingredients: [], steps: [], tips: [], substitutions: [], nutrition: [] };
+  let current: TextSection | 'intro' = 'intro';
+  let servings: number | null = null;
+  const times: Record<'prep' | 'cook' | 'total', number | null> = { prep: null, cook: null, total: null };
+
+  for (const raw of text.split('\n')) {
+    const line = stripMarker(raw.replace(/^#+\s*/, ''));
+    if (!line) continue;
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      continue;
+    }
+    const time = line.match(TIME_LINE);
+    if (time && /\d/.test(time[2]) && current !== 'steps') {
+      const kind = time[1].toLowerCase();
+      times[kind.startsWith('prep') ? 'prep' : kind.startsWith('cook') ? 'cook' : 'total'] = parseMinutes(time[2]);
+      continue;
+    }
+    if (SERVINGS_LINE.test(line) && current !== 'steps' && servings === null) {
+      servings = parseServings(line);
+      if (servings !== null) continue;
+    }
+    // "For the sauce:" inside the ingredients groups them; it isn't an ingredient
+    if (current === 'ingredients' && /:$/.test(line) && !/\d/.test(line)) continue;
+    sections[current].push(line);
+  }
+
+  const [first = '', ...intro] = sections.intro;
+  const ingredientLines = sections.ingredients.length > 0
+    ? sections.ingredients
+    : intro.filter(line => parseIngredientLine(line).quantity !== null);
+
+  return finishRecipe({
+    title: title || first.replace(/^title:\s*/i, ''),
+    servings: servings ?? 1,
+    ingredients: ingredientsFrom(ingredientLines),
+    steps: sections.steps,
+    tips: sections.tips,
+    substitutions: sections.substitutions,
+    nutrition: nutritionFromLines(sections.nutrition),
+    prepMinutes: times.prep,
+    cookMinutes: times.cook,
+    totalMinutes: times.total,
+  });
+}
+
+// ---- Entry point ----
+
+// Works out what was pasted and turns it into a Recipe. Throws an Error with a message
+// for the user when there's no recipe to be found.
+export function importRecipe(input: string): ImportedRecipe {
+  const text = input.trim();
+  if (!text) {
+    throw new Error('Paste a recipe to import.');
+  }
+  if (text.length > MAX_IMPORT_LENGTH) {
+    throw new Error('That\'s too long to be one recipe. Paste just the recipe, or the page\'s HTML.');
+  }
+
+  if (/^[[{]/.test(text)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('That looks like JSON but couldn\'t be read. Check it was copied in full.');
+    }
+    const node = findRecipeNode(data);
+    if (!node) {
+      throw new Error('That JSON doesn\'t contain a schema.org Recipe.');
+    }
+    return { recipe: recipeFromJsonLd(node), format: 'json-ld' };
+  }
+
+  if (/<\/?[a-z][^>]*>/i.test(text)) {
+    for (const block of jsonLdBlocks(text)) {
+      const node = findRecipeNode(block);
+      if (node) return { recipe: recipeFromJsonLd(node), format: 'json-ld' };
+    }
+    // No structured data: read the page like pasted text, but prefer its main heading
+    // as the title over whatever navigation comes first
+    const heading = text.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    const body = text.match(/<(main|article)\b[^>]*>([\s\S]*)<\/\1>/i)?.[2] ?? text;
+    return { recipe: recipeFromText(htmlToText(body), heading ? cleanText(heading[1]) : ''), format: 'html' };
+  }
+
+  return { recipe: recipeFromText(text), format: 'text' };
+}
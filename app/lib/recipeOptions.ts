@@ -0,0 +1,160 @@
+import { isUnitSystem, UnitSystem } from './unitSystems';
+
+export interface RecipeOptions {
+  diet: string;
+  customDiet: string;
+  quick: boolean;
+  healthy: boolean;
+  // Macro goals, checked against the finished recipe (see macroGoals.ts)
+  highProtein: boolean;
+  lowCarb: boolean;
+  // Per serving; null for no limit
+  maxCalories: number | null;
+  proteinTarget: number | null;
+  cuisine: string;
+  customCuisine: string;
+  allergens: string;
+  difficulty: number;
+  dishType: string;
+  customDishType: string;
+  servings: number;
+  // Ingredients close to their best-before date that the recipe should use up first
+  useFirst: string[];
+  // Measurement system the model should write the recipe in
+  units: UnitSystem;
+}
+
+// What the form starts with before a household profile is applied
+export const DEFAULT_RECIPE_OPTIONS: RecipeOptions = {
+  diet: 'vegetarian',
+  customDiet: '',
+  quick: false,
+  healthy: true,
+  highProtein: false,
+  lowCarb: false,
+  maxCalories: null,
+  proteinTarget: null,
+  cuisine: 'indian',
+  customCuisine: '',
+  allergens: '',
+  difficulty: 1,
+  dishType: 'main',
+  customDishType: '',
+  servings: 1,
+  useFirst: [],
+  units: 'original',
+};
+
+const STRING_FIELDS = ['diet', 'customDiet', 'cuisine', 'customCuisine', 'allergens', 'dishType', 'customDishType'] as const;
+const BOOLEAN_FIELDS = ['quick', 'healthy', 'highProtein', 'lowCarb'] as const;
+
+// Longest free-text value we forward to the model
+export const MAX_TEXT_LENGTH = 200;
+export const MAX_LIST_LENGTH = 30;
+
+// Longest leftovers text we accept; it goes into the prompt and the cache key whole
+export const MAX_INGREDIENTS_LENGTH = 2000;
+
+// A whole number within [min, max], or null when left blank
+function parseOptionalLimit(value: unknown, field: string, min: number, max: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Recipe option "${field}" must be a whole number from ${min} to ${max}.`);
+  }
+  return value;
+}
+
+// The options reduced to what reaches the prompt, for telling whether two requests ask
+// for the same thing. Letter case and a custom value left behind after switching away
+// from "other" don't count; the order of allergens doesn't either.
+export function canonicalOptions(options: RecipeOptions): RecipeOptions {
+  const lower = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+  return {
+    diet: lower(options.diet),
+    customDiet: options.diet === 'other' ? lower(options.customDiet) : '',
+    quick: options.quick,
+    healthy: options.healthy,
+    highProtein: options.highProtein,
+    lowCarb: options.lowCarb,
+    maxCalories: options.maxCalories,
+    proteinTarget: options.proteinTarget,
+    cuisine: lower(options.cuisine),
+    customCuisine: options.cuisine === 'other' ? lower(options.customCuisine) : '',
+    allergens: options.allergens.split(',').map(lower).filter(Boolean).sort().join(', '),
+    difficulty: options.difficulty,
+    dishType: lower(options.dishType),
+    customDishType: options.dishType === 'other' ? lower(options.customDishType) : '',
+    servings: options.servings,
+    // Soonest first, so the order matters
+    useFirst: options.useFirst.map(lower),
+    units: options.units,
+  };
+}
+
+// Validates an untrusted payload (e.g. a request body) and returns clean RecipeOptions.
+// Throws an Error describing the first invalid field.
+export function parseRecipeOptions(input: unknown): RecipeOptions {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Recipe options are missing.');
+  }
+  const raw = input as Record<string, unknown>;
+
+  const strings = {} as Record<(typeof STRING_FIELDS)[number], string>;
+  for (const field of STRING_FIELDS) {
+    const value = raw[field] ?? '';
+    if (typeof value !== 'string') {
+      throw new Error(`Recipe option "${field}" must be a string.`);
+    }
+    if (value.length > MAX_TEXT_LENGTH) {
+      throw new Error(`Recipe option "${field}" is too long.`);
+    }
+    strings[field] = value.trim();
+  }
+
+  const booleans = {} as Record<(typeof BOOLEAN_FIELDS)[number], boolean>;
+  for (const field of BOOLEAN_FIELDS) {
+    const value = raw[field] ?? false;
+    if (typeof value !== 'boolean') {
+      throw new Error(`Recipe option "${field}" must be true or false.`);
+    }
+    booleans[field] = value;
+  }
+
+  const difficulty = raw.difficulty ?? 1;
+  if (typeof difficulty !== 'number' || !Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+    throw new Error('Recipe option "difficulty" must be a whole number from 1 to 5.');
+  }
+
+  const servings = raw.servings ?? 1;
+  if (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > 50) {
+    throw new Error('Recipe option "servings" must be a whole number from 1 to 50.');
+  }
+
+  const useFirst = raw.useFirst ?? [];
+  if (
+    !Array.isArray(useFirst) ||
+    useFirst.length > MAX_LIST_LENGTH ||
+    !useFirst.every(item => typeof item === 'string' && item.length <= MAX_TEXT_LENGTH)
+  ) {
+    throw new Error('Recipe option "useFirst" must be a short list of ingredient names.');
+  }
+
+  const maxCalories = parseOptionalLimit(raw.maxCalories, 'maxCalories', 100, 3000);
+  const proteinTarget = parseOptionalLimit(raw.proteinTarget, 'proteinTarget', 1, 300);
+
+  const units = raw.units ?? 'original';
+  if (!isUnitSystem(units)) {
+    throw new Error('Recipe option "units" must be "original", "metric" or "us".');
+  }
+
+  return {
+    ...strings,
+    ...booleans,
+    difficulty,
+    servings,
+    maxCalories,
+    proteinTarget,
+    useFirst: useFirst.map(item => item.trim()).filter(Boolean),
+    units,
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RECIPE_OPTIONS } from './recipeOptions';
+import { QUICK_PREP_MINUTES, QUICK_TOTAL_MINUTES, reviewRecipe } from './recipeReview';
+import { testRecipe } from './testRecipe';
+
+const recipe = (prepMinutes: number | null, totalMinutes: number | null) => testRecipe({
+  title: 'Dal',
+  servings: 1,
+  ingredients: [{ quantity: 1, unit: 'cup', name: 'red lentils' }],
+  steps: ['Simmer the lentils.'],
+  nutrition: { calories: 300, protein: 18, carbs: 50, fat: 2 },
+  prepMinutes,
+  totalMinutes,
+  difficulty: 1,
+});
+
+describe('reviewRecipe with the quick filter', () => {
+  const quick = { ...DEFAULT_RECIPE_OPTIONS, quick: true, healthy: false };
+
+  it.each([
+    [QUICK_PREP_MINUTES, QUICK_TOTAL_MINUTES, []],
+    [null, null, []],
+    [QUICK_PREP_MINUTES + 1, null, ['too-slow']],
+    [10, QUICK_TOTAL_MINUTES + 1, ['too-slow']],
+  ])('prep %s, total %s', (prep, total, codes) => {
+    expect(reviewRecipe(recipe(prep, total), quick).map(issue => issue.code)).toEqual(codes);
+  });
+
+  it('ignores time when the filter is off', () => {
+    expect(reviewRecipe(recipe(60, 90), { ...quick, quick: false })).toEqual([]);
+  });
+});
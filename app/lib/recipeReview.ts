@@ -0,0 +1,75 @@
+import { findConflicts } from './allergens';
+import { checkMacroGoals } from './macroGoals';
+import type { Recipe } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+
+// Checks a generated recipe against what was asked for. Each issue is phrased so it can
+// be shown to the user and also sent back to the model as a repair instruction.
+
+export type RecipeIssueCode = 'missing-section' | 'servings' | 'diet' | 'allergen' | 'too-slow' | 'nutrition-goal';
+
+export interface RecipeIssue {
+  code: RecipeIssueCode;
+  message: string;
+}
+
+// The longest prep (and total) time we accept for quick recipes; the filter's label is
+// built from these so the two can't drift apart
+export const QUICK_PREP_MINUTES = 20;
+export const QUICK_TOTAL_MINUTES = 40;
+
+function checkSections(recipe: Recipe): RecipeIssue[] {
+  const issues: RecipeIssue[] = [];
+  if (!recipe.title.trim() || recipe.title === 'Untitled Recipe') {
+    issues.push({ code: 'missing-section', message: 'The recipe has no title.' });
+  }
+  if (recipe.ingredients.length === 0) {
+    issues.push({ code: 'missing-section', message: 'The ingredients list is missing.' });
+  }
+  if (recipe.steps.length === 0) {
+    issues.push({ code: 'missing-section', message: 'The instructions are missing.' });
+  }
+  return issues;
+}
+
+// Ingredients that break the diet or contain a declared allergen, one issue per category
+function checkRestrictions(recipe: Recipe, options: RecipeOptions): RecipeIssue[] {
+  const grouped = new Map<string, { reason: 'diet' | 'allergen'; label: string; names: string[] }>();
+  for (const conflict of findConflicts(recipe, options)) {
+    if (conflict.source !== 'ingredient') continue;
+    const key = `${conflict.reason}:${conflict.label}`;
+    const group = grouped.get(key) ?? { reason: conflict.reason, label: conflict.label, names: [] };
+    if (!group.names.includes(conflict.text)) group.names.push(conflict.text);
+    grouped.set(key, group);
+  }
+  return Array.from(grouped.values()).map(({ reason, label, names }) => ({
+    code: reason,
+    message: reason === 'diet'
+      ? `It isn't ${options.diet === 'other' ? options.customDiet : options.diet}: ${names.join(', ')} (${label}).`
+      : `It contains ${label}, which you're avoiding: ${names.join(', ')}.`,
+  }));
+}
+
+function checkQuick(recipe: Recipe): RecipeIssue[] {
+  if (recipe.prepMinutes !== null && recipe.prepMinutes > QUICK_PREP_MINUTES) {
+    return [{ code: 'too-slow', message: `Prep takes ${recipe.prepMinutes} minutes; quick recipes need ${QUICK_PREP_MINUTES} or less.` }];
+  }
+  if (recipe.totalMinutes !== null && recipe.totalMinutes > QUICK_TOTAL_MINUTES) {
+    return [{ code: 'too-slow', message: `It takes ${recipe.totalMinutes} minutes in total; quick recipes need ${QUICK_TOTAL_MINUTES} or less.` }];
+  }
+  return [];
+}
+
+// Everything about the recipe that doesn't match the request; empty if it all checks out
+export function reviewRecipe(recipe: Recipe, options: RecipeOptions): RecipeIssue[] {
+  const issues = checkSections(recipe);
+  if (recipe.servings !== options.servings) {
+    issues.push({ code: 'servings', message: `It serves ${recipe.servings} instead of ${options.servings}.` });
+  }
+  issues.push(...checkRestrictions(recipe, options));
+  if (options.quick) issues.push(...checkQuick(recipe));
+  for (const miss of checkMacroGoals(recipe, options)) {
+    issues.push({ code: 'nutrition-goal', message: `It ${miss}.` });
+  }
+  return issues;
+}
@@ -0,0 +1,478 @@
+import { ApiError, ApiErrorBody } from './apiErrors';
+import { config } from '../config';
+import { normaliseLeftovers } from './leftovers';
+import { ChatMessage, GenerateRequest, getProvider, LLMProvider, ProviderError } from './providers';
+import {
+  allocateLeftovers,
+  describeUses,
+  MEAL_PLAN_JSON_SCHEMA,
+  MealPlan,
+  MealSlot,
+  mealNames,
+  parseLeftoverStock,
+  parseMealPlanOutline,
+} from './mealPlan';
+import { nutritionWarning } from './nutrition';
+import { parseRecipeText } from './parseRecipeText';
+import { getPrompt, PromptTemplate, promptLabel } from './prompts';
+import { Recipe, RECIPE_JSON_SCHEMA, validateRecipe } from './recipe';
+import { canonicalOptions, RecipeOptions } from './recipeOptions';
+import { RecipeIssue, reviewRecipe } from './recipeReview';
+import { createResponseCache } from './responseCache';
+import {
+  mergeSubstitutions,
+  normaliseLine,
+  parseModelSubstitutions,
+  SubstitutionGroup,
+  SUBSTITUTIONS_JSON_SCHEMA,
+  SUBSTITUTIONS_PER_INGREDIENT,
+  suitsRestrictions,
+  tableSubstitutions,
+} from './substitutions';
+
+// A finished recipe, plus whatever still doesn't match the request after repairs
+export interface RecipeResult {
+  recipe: Recipe;
+  warning?: string;
+  issues: RecipeIssue[];
+  // Served from the cache: the same answer as last time this was asked
+  cached?: boolean;
+}
+
+export type RecipeStreamEvent =
+  | { type: 'start'; structured: boolean }
+  | { type: 'delta'; text: string }
+  | { type: 'repairing'; issues: RecipeIssue[] }
+  | ({ type: 'done' } & RecipeResult)
+  | ({ type: 'error' } & ApiErrorBody);
+
+// How many times we send a recipe back to the model to fix review issues
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Most model calls one recipe can take, the first draft and every repair, which is
+// what the routes charge against the rate limit
+export const CALLS_PER_RECIPE = 1 + MAX_REPAIR_ATTEMPTS;
+
+const cacheSettings = {
+  maxEntries: config.cacheMaxEntries,
+  ttlMs: config.cacheTtlSeconds * 1000,
+  dir: config.cacheDir,
+};
+const recipeCache = createResponseCache<RecipeResult>(cacheSettings);
+const candidateCache = createResponseCache<RecipeResult[]>(cacheSettings);
+const substitutionCache = createResponseCache<SubstitutionGroup[]>(cacheSettings);
+
+// Requests that differ only in spacing, letter case or the order of the leftovers share
+// a key. The prompt version and the model are part of it, as changing either should give
+// new answers.
+function cacheKey(
+  task: string,
+  prompt: PromptTemplate,
+  provider: LLMProvider,
+  ingredients: string[],
+  options: RecipeOptions,
+  extra: unknown = null
+): string {
+  return JSON.stringify([task, promptLabel(prompt), provider.name, provider.model, ingredients, canonicalOptions(options), extra]);
+}
+
+// A recipe for the leftovers. Asking again for the same thing gets the cached answer,
+// unless `regenerate` is set.
+export async function generateRecipe(
+  ingredients: string,
+  options: RecipeOptions,
+  regenerate = false,
+  provider: LLMProvider = getProvider()
+): Promise<RecipeResult> {
+  const key = cacheKey('recipe', getPrompt('recipe'), provider, normaliseLeftovers(ingredients), options);
+  const { value, cached } = await recipeCache.getOrCreate(key, () => writeRecipe(ingredients, options, provider), regenerate);
+  return { ...value, cached };
+}
+
+async function writeRecipe(
+  ingredients: string,
+  options: RecipeOptions,
+  provider: LLMProvider,
+  extraInstructions = ''
+): Promise<RecipeResult> {
+  const request = buildRecipeRequest(ingredients, options, provider, extraInstructions);
+  
+  try {
+    console.log(`Generating recipe with the ${provider.name} provider...`);
+    const result = finishRecipe(await provider.generate(request), provider.supportsStructuredOutput, options);
+    return await repairRecipe(result, ingredients, options, provider);
+  } catch (error) {
+    console.error(`Error calling the ${provider.name} provider:`, error);
+    throw toApiError(error);
+  }
+}
+
+// Streaming variant of generateRecipe: yields the raw model output as it arrives, then
+// the parsed recipe. Errors are reported as an event rather than thrown, because by then
+// the HTTP response has already started. It shares generateRecipe's cache; an answer
+// from the cache (or from an identical request still running) skips straight to done.
+export async function* streamRecipe(
+  ingredients: string,
+  options: RecipeOptions,
+  signal?: AbortSignal,
+  regenerate = false,
+  provider: LLMProvider = getProvider()
+): AsyncGenerator<RecipeStreamEvent> {
+  const request = { ...buildRecipeRequest(ingredients, options, provider), signal };
+  yield { type: 'start', structured: provider.supportsStructuredOutput };
+
+  const key = cacheKey('recipe', getPrompt('recipe'), provider, normaliseLeftovers(ingredients), options);
+  try {
+    const running = await recipeCache.pending(key);
+    const earlier = running ?? (regenerate ? undefined : await recipeCache.get(key));
+    if (earlier) {
+      yield { type: 'done', ...earlier, cached: !running };
+      return;
+    }
+  } catch (error) {
+    yield errorEvent(toApiError(error));
+    return;
+  }
+
+  // Lets identical requests wait for this one. Abandoned on every way out that doesn't
+  // settle it, including the client going away while we're suspended at a yield, so
+  // requests that joined make their own call rather than failing with ours.
+  let settle!: { resolve: (result: RecipeResult) => void; reject: (error: unknown) => void };
+  let settled = false;
+  const answer = new Promise<RecipeResult>((resolve, reject) => {
+    settle = {
+      resolve: result => { settled = true; resolve(result); },
+      reject: error => { settled = true; reject(error); },
+    };
+  });
+  recipeCache.track(key, answer);
+  const abandon = () => {
+    if (settled) return;
+    recipeCache.abandon(key, answer);
+    settle.reject(new Error('The request was stopped.'));
+  };
+  signal?.addEventListener('abort', abandon);
+
+  let output = '';
+  try {
+    console.log(`Streaming recipe with the ${provider.name} provider...`);
+    for await (const text of provider.stream(request)) {
+      output += text;
+      yield { type: 'delta', text };
+    }
+    let result = finishRecipe(output, provider.supportsStructuredOutput, options);
+    // Repairs aren't streamed: the draft stays on screen while they run
+    if (result.issues.length > 0) {
+      yield { type: 'repairing', issues: result.issues };
+      result = await repairRecipe(result, ingredients, options, provider, signal);
+    }
+    settle.resolve(result);
+    yield { type: 'done', ...result, cached: false };
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error(`Error calling the ${provider.name} provider:`, error);
+    const failure = toApiError(error);
+    settle.reject(failure);
+    yield errorEvent(failure);
+  } finally {
+    abandon();
+  }
+}
+
+// Sends the recipe back with its review issues until it passes or we run out of
+// attempts. A failed repair keeps the last good recipe rather than failing the request.
+async function repairRecipe(
+  result: RecipeResult,
+  ingredients: string,
+  options: RecipeOptions,
+  provider: LLMProvider,
+  signal?: AbortSignal
+): Promise<RecipeResult> {
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && result.issues.length > 0; attempt++) {
+    console.log(`Repairing recipe (attempt ${attempt}): ${result.issues.map(issue => issue.code).join(', ')}`);
+    const request = { ...buildRepairRequest(result, ingredients, options, provider), signal };
+    try {
+      result = finishRecipe(await provider.generate(request), provider.supportsStructuredOutput, options);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Recipe repair failed:', error);
+      break;
+    }
+  }
+  return result;
+}
+
+// One refinement so far: what the user asked for and the recipe that came back
+export interface RefinementTurn {
+  instruction: string;
+  recipe: Recipe;
+}
+
+// How many refinements a conversation can hold, and the longest instruction we accept
+export const MAX_REFINEMENT_TURNS = 10;
+export const MAX_INSTRUCTION_LENGTH = 300;
+// Longest the recipe and earlier versions may be together, serialised; all of it goes into the prompt
+export const MAX_REFINEMENT_BYTES = 200_000;
+
+// Changes `recipe` as the user asks ("make it spicier", "no oven"), as a conversation:
+// earlier turns are replayed so the model builds on its own latest version. Not cached
+// and not repaired; review issues are returned for the page to show.
+export async function refineRecipe(
+  recipe: Recipe,
+  turns: RefinementTurn[],
+  instruction: string,
+  options: RecipeOptions,
+  provider: LLMProvider = getProvider()
+): Promise<RecipeResult> {
+  const template = getPrompt('refine');
+  const structured = provider.supportsStructuredOutput;
+  const history: ChatMessage[] = turns.flatMap((turn, index) => [
+    { role: 'user' as const, content: template.render({ instruction: turn.instruction, recipe: index === 0 ? recipe : undefined, options, structured }) },
+    { role: 'assistant' as const, content: JSON.stringify(turn.recipe) },
+  ]);
+
+  try {
+    console.log(`Refining recipe (turn ${turns.length + 1}) with the ${provider.name} provider...`);
+    const output = await provider.generate({
+      task: 'recipe',
+      prompt: template.render({ instruction, recipe: turns.length === 0 ? recipe : undefined, options, structured }),
+      history,
+      schema: structured ? RECIPE_JSON_SCHEMA : undefined,
+    });
+    return finishRecipe(output, structured, options);
+  } catch (error) {
+    console.error(`Error calling the ${provider.name} provider:`, error);
+    throw toApiError(error);
+  }
+}
+
+// Steers each candidate towards a different style of dish so the options are distinct
+const CANDIDATE_STYLES = [
+  'a one-pan, stir-fry or sauté style dish',
+  'a baked, roasted or grilled dish',
+  'a soup, stew or curry',
+  'a salad, wrap or bowl',
+  'a rice, noodle or pasta based dish',
+];
+
+export const MAX_CANDIDATES = CANDIDATE_STYLES.length;
+
+// Generates up to `count` distinct recipes for the same ingredients and options, in
+// parallel. Candidates that fail or repeat an earlier title are dropped; it only throws
+// if none succeed. Cached like generateRecipe, as a set.
+export async function generateRecipeCandidates(
+  ingredients: string,
+  options: RecipeOptions,
+  count: number,
+  regenerate = false,
+  provider: LLMProvider = getProvider()
+): Promise<RecipeResult[]> {
+  const key = cacheKey('candidates', getPrompt('recipe'), provider, normaliseLeftovers(ingredients), options, count);
+  const { value, cached } = await candidateCache.getOrCreate(key, () => writeCandidates(ingredients, options, count, provider), regenerate);
+  return value.map(candidate => ({ ...candidate, cached }));
+}
+
+async function writeCandidates(
+  ingredients: string,
+  options: RecipeOptions,
+  count: number,
+  provider: LLMProvider
+): Promise<RecipeResult[]> {
+  const styles = CANDIDATE_STYLES.slice(0, Math.min(Math.max(count, 1), MAX_CANDIDATES));
+  console.log(`Generating ${styles.length} recipe candidates with the ${provider.name} provider...`);
+
+  const results = await Promise.allSettled(styles.map(async style => {
+    const request = buildRecipeRequest(ingredients, options, provider,
+      `\n- This is one of ${styles.length} alternative options shown side by side. Make it ${style}, clearly different from the other options.`);
+    const output = await provider.generate(request);
+    return repairRecipe(finishRecipe(output, provider.supportsStructuredOutput, options), ingredients, options, provider);
+  }));
+
+  const candidates: RecipeResult[] = [];
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Error calling the ${provider.name} provider:`, result.reason);
+      continue;
+    }
+    const title = result.value.recipe.title.toLowerCase();
+    if (!candidates.some(candidate => candidate.recipe.title.toLowerCase() === title)) {
+      candidates.push(result.value);
+    }
+  }
+  if (candidates.length === 0) {
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw toApiError(failure?.reason ?? new Error('Failed to generate recipes'));
+  }
+  return candidates;
+}
+
+function buildRecipeRequest(
+  ingredients: string,
+  options: RecipeOptions,
+  provider: LLMProvider,
+  extraInstructions = ''
+): GenerateRequest {
+  if (!ingredients.trim()) {
+    throw new Error('Where are the ingredients at, bro?');
+  }
+  const structured = provider.supportsStructuredOutput;
+  return {
+    task: 'recipe',
+    prompt: getPrompt('recipe').render({ ingredients, options, structured, extraInstructions }),
+    schema: structured ? RECIPE_JSON_SCHEMA : undefined,
+  };
+}
+
+// Asks for the same recipe again with just the review issues fixed
+function buildRepairRequest(
+  result: RecipeResult,
+  ingredients: string,
+  options: RecipeOptions,
+  provider: LLMProvider
+): GenerateRequest {
+  const problems = result.issues.map(issue => `\n  - ${issue.message}`).join('');
+  return buildRecipeRequest(ingredients, options, provider,
+    `\n\nYou already wrote the recipe below, but it has these problems:${problems}\nReturn the whole recipe again with these problems fixed, changing as little else as possible.\n\nPrevious recipe:\n${JSON.stringify(result.recipe)}`);
+}
+
+// Parses the model's recipe and reviews it against the options
+export function finishRecipe(output: string, structured: boolean, options: RecipeOptions): RecipeResult {
+  const recipe = structured ? parseStructuredRecipe(output) : parseRecipeText(output);
+  return { recipe, warning: nutritionWarning(recipe), issues: reviewRecipe(recipe, options) };
+}
+
+function parseJSONOutput(output: string, what: string): unknown {
+  try {
+    // Some models still wrap JSON in a markdown code fence
+    return JSON.parse(output.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new Error(`The model returned malformed ${what} JSON.`);
+  }
+}
+
+function parseStructuredRecipe(output: string): Recipe {
+  return validateRecipe(parseJSONOutput(output, 'recipe'));
+}
+
+// Gives a failed model call the code the routes answer with. Anything that isn't the
+// upstream's own error (malformed JSON, an invalid recipe) is still the model's doing.
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  const message = error instanceof Error ? error.message : 'The model request failed.';
+  if (error instanceof ProviderError && error.status === 429) {
+    return new ApiError('rate_limited', message, error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : undefined);
+  }
+  if (error instanceof ProviderError && (error.status === 504 || error.status === 408)) {
+    return new ApiError('timeout', message);
+  }
+  return new ApiError('upstream_error', message);
+}
+
+function errorEvent(error: ApiError): RecipeStreamEvent {
+  return { type: 'error', error: error.message, code: error.code, retryAfter: error.retryAfterSeconds };
+}
+
+// Outlines a meal plan that shares the leftovers between `days` x `mealsPerDay` meals.
+// The model proposes how much of each leftover every meal uses; allocateLeftovers then
+// trims that so nothing is used twice.
+export async function generateMealPlan(
+  ingredients: string,
+  options: RecipeOptions,
+  days: number,
+  mealsPerDay: number,
+  provider: LLMProvider = getProvider()
+): Promise<MealPlan> {
+  if (!ingredients.trim()) {
+    throw new Error('Where are the ingredients at, bro?');
+  }
+  const meals = mealNames(mealsPerDay);
+  const structured = provider.supportsStructuredOutput;
+  const prompt = getPrompt('meal-plan').render({ ingredients, options, days, meals, structured });
+
+  try {
+    console.log(`Planning ${days} days of meals with the ${provider.name} provider...`);
+    const output = await provider.generate({
+      task: 'meal-plan',
+      prompt,
+      schema: structured ? MEAL_PLAN_JSON_SCHEMA : undefined,
+    });
+    const outline = parseMealPlanOutline(parseJSONOutput(output, 'meal plan'), days, meals);
+    return { days, meals, ...allocateLeftovers(outline, parseLeftoverStock(ingredients)) };
+  } catch (error) {
+    console.error(`Error calling the ${provider.name} provider:`, error);
+    throw toApiError(error);
+  }
+}
+
+// The full recipe for one meal plan slot, using only the leftovers allocated to it.
+// `avoid` lists dishes already in the plan, so a regenerated slot comes out different.
+// Not cached: the plan keeps its recipes itself, and regenerating must give a new one.
+export function generateMealRecipe(
+  slot: MealSlot,
+  options: RecipeOptions,
+  avoid: string[] = [],
+  provider: LLMProvider = getProvider()
+): Promise<RecipeResult> {
+  let instructions = `\n- This is ${slot.meal} on day ${slot.day} of a meal plan that shares the leftovers between several meals, so make it a ${slot.meal} dish. Use no more of each leftover than listed above; the rest is needed for other meals. Common pantry staples (oil, salt, pepper, spices, flour) are fine.`;
+  if (slot.title) instructions += `\n- Make "${slot.title}".`;
+  if (avoid.length > 0) instructions += `\n- Don't make any of these, which are already planned: ${avoid.join(', ')}.`;
+  const ingredients = slot.uses.length > 0 ? describeUses(slot.uses) : 'pantry staples only (the leftovers are used up by other meals)';
+  // The meal decides the kind of dish, not the form's dish type
+  return writeRecipe(ingredients, { ...options, dishType: '', customDishType: '' }, provider, instructions);
+}
+
+// Substitutions for each ingredient line: safe swaps from the curated table first, then
+// the model's suggestions for the lines the table doesn't cover well enough. `regenerate`
+// asks the model about every line, for ideas beyond the table, and skips the cache.
+export async function generateSubstitutions(
+  ingredients: string[],
+  options: RecipeOptions,
+  regenerate = false,
+  provider: LLMProvider = getProvider()
+): Promise<SubstitutionGroup[]> {
+  const groups = ingredients.map(ingredient => ({
+    ingredient,
+    substitutions: tableSubstitutions(ingredient).filter(substitution => suitsRestrictions(substitution, options)),
+  }));
+  const gaps = groups.filter(group => regenerate || group.substitutions.length < SUBSTITUTIONS_PER_INGREDIENT);
+  if (gaps.length === 0) return groups;
+
+  // Cached like generateRecipe, keyed on the lines asked about regardless of order,
+  // spacing or case. The model is asked about the lines in that same normalised form, so
+  // a cached answer reads the same whichever request wrote it; mergeSubstitutions matches
+  // it back to the lines as typed. What the table offered follows from the lines and
+  // options, so it needn't be in the key.
+  const asked = new Map(gaps.map(group => [normaliseLine(group.ingredient), group.substitutions]));
+  const selection = Array.from(asked.keys()).sort();
+  const key = cacheKey('substitutions', getPrompt('substitutions'), provider, selection, options);
+  const { value } = await substitutionCache.getOrCreate(
+    key,
+    () => writeSubstitutions(selection.map(ingredient => ({ ingredient, substitutions: asked.get(ingredient)! })), options, provider),
+    regenerate
+  );
+  return mergeSubstitutions(groups, value, options);
+}
+
+async function writeSubstitutions(
+  gaps: SubstitutionGroup[],
+  options: RecipeOptions,
+  provider: LLMProvider
+): Promise<SubstitutionGroup[]> {
+  const ingredients = gaps.map(group => group.ingredient);
+  const offered = Object.fromEntries(gaps.map(group => [group.ingredient, group.substitutions.map(substitution => substitution.replacement)]));
+  const structured = provider.supportsStructuredOutput;
+  const prompt = getPrompt('substitutions').render({ ingredients, offered, options, structured });
+
+  try {
+    console.log(`Generating substitutions for ${ingredients.length} ingredient(s) with the ${provider.name} provider...`);
+    const output = await provider.generate({
+      task: 'substitutions',
+      prompt,
+      schema: structured ? SUBSTITUTIONS_JSON_SCHEMA : undefined,
+    });
+    return parseModelSubstitutions(parseJSONOutput(output, 'substitutions'), ingredients);
+  } catch (error) {
+    console.error(`Error calling the ${provider.name} provider:`, error);
+    throw toApiError(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createResponseCache } from './responseCache';
+
+const settings = { maxEntries: 10, ttlMs: 60_000 };
+
+// A promise settled from outside, standing in for a model call
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('createResponseCache', () => {
+  it('answers repeats from the cache', async () => {
+    const cache = createResponseCache<string>(settings);
+    let calls = 0;
+    const produce = async () => `answer ${++calls}`;
+    expect(await cache.getOrCreate('key', produce)).toEqual({ value: 'answer 1', cached: false });
+    expect(await cache.getOrCreate('key', produce)).toEqual({ value: 'answer 1', cached: true });
+    expect(await cache.getOrCreate('key', produce, true)).toEqual({ value: 'answer 2', cached: false });
+  });
+
+  it('shares a call with identical requests that arrive while it runs', async () => {
+    const cache = createResponseCache<string>(settings);
+    const call = deferred<string>();
+    const first = cache.getOrCreate('key', () => call.promise);
+    const second = cache.getOrCreate('key', async () => 'second call');
+    call.resolve('shared');
+    expect(await first).toEqual({ value: 'shared', cached: false });
+    expect(await second).toEqual({ value: 'shared', cached: false });
+  });
+
+  it('fails joined requests along with the call they joined', async () => {
+    const cache = createResponseCache<string>(settings);
+    const call = deferred<string>();
+    cache.track('key', call.promise);
+    const joined = cache.getOrCreate('key', async () => 'own call');
+    call.reject(new Error('model failed'));
+    await expect(joined).rejects.toThrow('model failed');
+  });
+
+  it('lets joined requests make their own call when the tracked one is abandoned', async () => {
+    const cache = createResponseCache<string>(settings);
+    const call = deferred<string>();
+    cache.track('key', call.promise);
+    const joined = cache.getOrCreate('key', async () => 'own call');
+    const waiting = cache.pending('key');
+    cache.abandon('key', call.promise);
+    call.reject(new Error('The request was stopped.'));
+    expect(await joined).toEqual({ value: 'own call', cached: false });
+    expect(await waiting).toBeUndefined();
+    expect(cache.pending('key')).toBeUndefined();
+  });
+});
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Server-side cache for model responses, so asking for the same thing twice doesn't pay
+// for it twice. An in-memory LRU sits in front of an optional folder of JSON files, and
+// entries expire after a TTL either way. A request arriving while an identical one is
+// still running waits for that answer instead of calling the model again. Failures are
+// never cached.
+
+export interface ResponseCacheSettings {
+  // Most entries kept in memory; the least recently used are dropped first
+  maxEntries: number;
+  ttlMs: number;
+  // Folder to keep entries in across restarts; memory only when unset
+  dir?: string;
+}
+
+export interface CachedResponse<T> {
+  value: T;
+  // True when answered from the cache rather than by a new call
+  cached: boolean;
+}
+
+export interface ResponseCache<T> {
+  get(key: string): Promise<T | undefined>;
+  // The answer to an identical request that's still running, if any. Resolves to
+  // undefined if that request is abandoned.
+  pending(key: string): Promise<T | undefined> | undefined;
+  // Registers an answer being produced elsewhere (e.g. while streaming), so identical
+  // requests wait for it. It's cached once it resolves.
+  track(key: string, answer: Promise<T>): void;
+  // Gives up on a tracked answer (e.g. the user stopped the stream producing it). Requests
+  // waiting for it stop waiting and make their own call rather than failing with it.
+  abandon(key: string, answer: Promise<T>): void;
+  // Answers from the cache (unless `refresh`), joins an identical request in flight, or
+  // calls `produce` and caches what it returns
+  getOrCreate(key: string, produce: () => Promise<T>, refresh?: boolean): Promise<CachedResponse<T>>;
+}
+
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export function createResponseCache<T>({ maxEntries, ttlMs, dir }: ResponseCacheSettings): ResponseCache<T> {
+  // Map keeps insertion order, so re-inserting on every hit makes the first key the LRU
+  const memory = new Map<string, Entry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+  const abandoned = new WeakSet<Promise<T>>();
+
+  const filePath = (key: string) => path.join(dir!, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  function remember(key: string, entry: Entry<T>) {
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > maxEntries) memory.delete(memory.keys().next().value!);
+  }
+
+  async function readStored(key: string): Promise<Entry<T> | undefined> {
+    try {
+      const stored = JSON.parse(await readFile(filePath(key), 'utf8')) as Entry<T> & { key: string };
+      if (stored.key !== key) return undefined;
+      if (stored.expiresAt > Date.now()) return { value: stored.value, expiresAt: stored.expiresAt };
+      await rm(filePath(key), { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error('Could not read cached response:', error);
+    }
+    return undefined;
+  }
+
+  async function get(key: string): Promise<T | undefined> {
+    let entry = memory.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      memory.delete(key);
+      entry = undefined;
+    }
+    if (!entry && dir) entry = await readStored(key);
+    if (!entry) return undefined;
+    remember(key, entry);
+    return entry.value;
+  }
+
+  // Caching is best effort: a full disk shouldn't fail the request
+  async function set(key: string, value: T) {
+    const entry = { value, expiresAt: Date.now() + ttlMs };
+    remember(key, entry);
+    if (!dir) return;
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(filePath(key), JSON.stringify({ key, ...entry }));
+    } catch (error) {
+      console.error('Could not store cached response:', error);
+    }
+  }
+
+  // Done as soon as the answer is in; it's already in memory before the disk write starts
+  function track(key: string, answer: Promise<T>) {
+    inFlight.set(key, answer);
+    const settled = () => {
+      if (inFlight.get(key) === answer) inFlight.delete(key);
+    };
+    answer.then(value => {
+      settled();
+      return set(key, value);
+    }, settled);
+  }
+
+  function abandon(key: string, answer: Promise<T>) {
+    abandoned.add(answer);
+    if (inFlight.get(key) === answer) inFlight.delete(key);
+  }
+
+  // Waits for a request in flight; undefined if it's abandoned
+  async function join(running: Promise<T>): Promise<T | undefined> {
+    try {
+      return await running;
+    } catch (error) {
+      if (abandoned.has(running)) return undefined;
+      throw error;
+    }
+  }
+
+  return {
+    get,
+    pending: key => {
+      const running = inFlight.get(key);
+      return running && join(running);
+    },
+    track,
+    abandon,
+    async getOrCreate(key, produce, refresh = false) {
+      const running = inFlight.get(key);
+      const joined = running && await join(running);
+      if (joined !== undefined) return { value: joined, cached: false };
+      if (!refresh) {
+        const hit = await get(key);
+        if (hit !== undefined) return { value: hit, cached: true };
+      }
+      // An identical request may have started while we were reading the disk
+      const started = inFlight.get(key);
+      const joinedLater = started && await join(started);
+      if (joinedLater !== undefined) return { value: joinedLater, cached: false };
+      const answer = produce();
+      track(key, answer);
+      return { value: await answer, cached: false };
+    },
+  };
+}
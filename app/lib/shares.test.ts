@@ -0,0 +1,60 @@
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { testRecipe } from './testRecipe';
+
+const recipe = testRecipe({
+  title: 'Fried Rice',
+  ingredients: [{ quantity: 2, unit: 'cups', name: 'rice' }],
+  steps: ['Fry the rice.'],
+  prepMinutes: 5,
+  cookMinutes: 10,
+  difficulty: 1,
+});
+
+let dir: string;
+let shares: typeof import('./shares');
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'shares-'));
+  vi.stubEnv('SHARE_DIR', dir);
+  vi.stubEnv('SHARE_MAX_COUNT', '2');
+  vi.stubEnv('SHARE_TTL_DAYS', '30');
+  shares = await import('./shares');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('shares', () => {
+  it('reads back what was shared', async () => {
+    const { id } = await shares.createShare({ recipe, servings: 4, units: 'metric' });
+    expect(await shares.getShare(id)).toMatchObject({ id, servings: 4, units: 'metric', recipe: { title: 'Fried Rice' } });
+  });
+
+  it('treats a corrupt share file as not found', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await writeFile(path.join(dir, 'Corrupt1.json'), '{"id": "Corrupt1", "reci');
+    expect(await shares.getShare('Corrupt1')).toBeNull();
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+    await rm(path.join(dir, 'Corrupt1.json'));
+  });
+
+  it('stops sharing when full, until old shares expire', async () => {
+    const { id } = await shares.createShare({ recipe, servings: 2, units: 'original' });
+    await expect(shares.createShare({ recipe, servings: 2, units: 'original' })).rejects.toThrow('Too many recipes');
+
+    // Backdate it past SHARE_TTL_DAYS
+    const old = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    const file = path.join(dir, `${id}.json`);
+    await writeFile(file, JSON.stringify({ id, recipe, servings: 2, units: 'original', createdAt: old.toISOString() }));
+    await utimes(file, old, old);
+    expect(await shares.getShare(id)).toBeNull();
+
+    await expect(shares.createShare({ recipe, servings: 2, units: 'original' })).resolves.toMatchObject({ servings: 2 });
+  });
+});
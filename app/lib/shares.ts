@@ -0,0 +1,135 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { ApiError } from './apiErrors';
+import { Recipe, validateRecipe } from './recipe';
+import { UnitSystem, isUnitSystem } from './unitSystems';
+
+// Shared recipes: a snapshot of a recipe stored on the server under a short id, so it can
+// be opened by anyone with the link. Shares never change once made, and expire after
+// config.shareTtlDays. At most config.shareMaxCount are kept at a time. Server-only.
+
+const ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ID_LENGTH = 8;
+const ID_PATTERN = new RegExp(`^[0-9A-Za-z]{${ID_LENGTH}}$`);
+
+// Generous for one recipe, and keeps the share folder from being used as free storage
+export const MAX_SHARE_BYTES = 50_000;
+
+export interface SharedRecipe {
+  id: string;
+  recipe: Recipe;
+  // How the sharer was viewing it; the page opens at these
+  servings: number;
+  units: UnitSystem;
+  createdAt: string;
+}
+
+function createShareId(): string {
+  return Array.from(randomBytes(ID_LENGTH), byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+}
+
+function sharePath(id: string): string {
+  return path.join(config.shareDir, `${id}.json`);
+}
+
+function isExpired(createdAt: number, now = Date.now()): boolean {
+  return now - createdAt > config.shareTtlDays * 24 * 60 * 60 * 1000;
+}
+
+// Deletes expired shares and returns how many are left. Shares are never rewritten, so a
+// file's modification time is when it was shared.
+async function pruneShares(): Promise<number> {
+  const now = Date.now();
+  let left = 0;
+  for (const file of await readdir(config.shareDir)) {
+    if (!file.endsWith('.json')) continue;
+    const filePath = path.join(config.shareDir, file);
+    try {
+      if (isExpired((await stat(filePath)).mtimeMs, now)) {
+        await rm(filePath, { force: true });
+      } else {
+        left++;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  return left;
+}
+
+// Checks what the browser asked to share. Throws an Error describing the problem.
+export function parseShareRequest(input: { recipe?: unknown; servings?: unknown; units?: unknown }): Omit<SharedRecipe, 'id' | 'createdAt'> {
+  if (JSON.stringify(input.recipe ?? null).length > MAX_SHARE_BYTES) {
+    throw new Error('This recipe is too long to share.');
+  }
+  const recipe = validateRecipe(input.recipe);
+  const servings = input.servings ?? recipe.servings;
+  if (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > 50) {
+    throw new Error('"servings" must be a whole number from 1 to 50.');
+  }
+  const units = input.units ?? 'original';
+  if (!isUnitSystem(units)) {
+    throw new Error('"units" must be "original", "metric" or "us".');
+  }
+  return { recipe, servings, units };
+}
+
+// Stores the share. Throws a rate_limited ApiError when the share folder is full.
+export async function createShare(share: Omit<SharedRecipe, 'id' | 'createdAt'>): Promise<SharedRecipe> {
+  await mkdir(config.shareDir, { recursive: true });
+  if (await pruneShares() >= config.shareMaxCount) {
+    throw new ApiError('rate_limited', 'Too many recipes have been shared lately. Please try again later.');
+  }
+  // Ids are random, so a clash is all but impossible; 'wx' makes sure we never overwrite one
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const shared: SharedRecipe = { id: createShareId(), ...share, createdAt: new Date().toISOString() };
+    try {
+      await writeFile(sharePath(shared.id), JSON.stringify(shared), { flag: 'wx' });
+      return shared;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+  throw new Error('Could not create a share link. Please try again.');
+}
+
+// The share with this id, or null if there's none (or the id isn't one of ours, it has
+// expired or its file can't be read as a share)
+export async function getShare(id: string): Promise<SharedRecipe | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  let stored: string;
+  try {
+    stored = await readFile(sharePath(id), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  let shared: SharedRecipe;
+  try {
+    const parsed = JSON.parse(stored) as SharedRecipe;
+    shared = { ...parsed, recipe: validateRecipe(parsed.recipe) };
+  } catch (error) {
+    console.error(`Could not read shared recipe ${id}:`, error);
+    return null;
+  }
+  const createdAt = Date.parse(shared.createdAt);
+  if (Number.isNaN(createdAt) || isExpired(createdAt)) return null;
+  return shared;
+}
+
+// One line for link previews: "Serves 4 · 35 min · chickpeas, spinach, onion and 5 more"
+export function describeShare({ recipe, servings }: SharedRecipe): string {
+  const names = recipe.ingredients.map(ingredient => ingredient.name.toLowerCase());
+  const shown = names.slice(0, 4).join(', ');
+  const ingredients = names.length > 4 ? `${shown} and ${names.length - 4} more` : shown;
+  const minutes = recipe.prepMinutes !== null && recipe.cookMinutes !== null
+    ? recipe.prepMinutes + recipe.cookMinutes
+    : recipe.totalMinutes;
+  return [
+    `Serves ${servings}`,
+    minutes ? `${minutes} min` : null,
+    ingredients,
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from './recipe';
+import { buildShoppingList, ShoppingItem } from './shoppingList';
+import { testRecipe } from './testRecipe';
+
+function itemNames(ingredients: Recipe['ingredients'], leftovers: string): string[] {
+  const aisles = buildShoppingList([{ id: '1', recipe: testRecipe({ ingredients }), servings: 2 }], leftovers);
+  return aisles.flatMap(aisle => aisle.items).map((item: ShoppingItem) => item.name).sort();
+}
+
+describe('buildShoppingList', () => {
+  it('takes off leftovers that name the same food', () => {
+    expect(itemNames([
+      { quantity: 2, unit: '', name: 'eggs' },
+      { quantity: 1, unit: 'cup', name: 'rice' },
+      { quantity: 1, unit: '', name: 'onion' },
+    ], '3 eggs, 2 cups cooked rice')).toEqual(['onion']);
+  });
+
+  it('keeps ingredients whose name only contains a leftover', () => {
+    expect(itemNames([
+      { quantity: 1, unit: 'tsp', name: 'salt' },
+      { quantity: 1, unit: 'cup', name: 'peas' },
+    ], 'unsalted butter, chickpeas')).toEqual(['peas', 'salt']);
+  });
+
+  it('reads "and" inside a leftover as part of its name', () => {
+    expect(itemNames([
+      { quantity: 100, unit: 'g', name: 'cheese' },
+      { quantity: 1, unit: '', name: 'mac' },
+    ], 'mac and cheese')).toEqual(['cheese', 'mac']);
+  });
+});
@@ -0,0 +1,223 @@
+import { Aisle, AISLES, aisleOf } from './aisles';
+import { convertForStock } from './cooking';
+import { formatQuantity, normaliseAmount, pluraliseUnit, scaleIngredient } from './ingredients';
+import { matchesLeftover, splitLeftovers } from './leftovers';
+import { LeftoverStock, parseLeftoverStock, shareInStockUnit } from './mealPlan';
+import type { Recipe } from './recipe';
+import { createId, readJSON, writeJSON } from './storage';
+import { unitDimension } from './units';
+
+// The shopping list: everything the chosen recipes need, minus the leftovers the user
+// already has, merged across recipes and grouped by aisle. Persisted in localStorage
+// together with which items have been ticked off.
+
+const STORAGE_KEY = 'leftovers.shoppingList';
+
+// Amounts below this are rounding noise
+const EPSILON = 0.001;
+
+// A recipe on the list, at the servings it was added with
+export interface ShoppingSource {
+  id: string;
+  recipe: Recipe;
+  servings: number;
+}
+
+export interface ShoppingListState {
+  sources: ShoppingSource[];
+  // Leftovers typed for the recipes, as one comma-separated list; they aren't bought
+  leftovers: string;
+  // Keys of the items ticked off
+  checked: string[];
+}
+
+// Amounts that can't be added together ("2 cups" and "3 cloves") are kept apart.
+// quantity is null for "to taste" amounts.
+export interface ShoppingAmount {
+  quantity: number | null;
+  unit: string;
+}
+
+export interface ShoppingItem {
+  // Stable across rebuilds, so ticks survive adding another recipe
+  key: string;
+  name: string;
+  aisle: Aisle;
+  amounts: ShoppingAmount[];
+  // Titles of the recipes that need it
+  recipes: string[];
+}
+
+export interface ShoppingAisle {
+  aisle: Aisle;
+  label: string;
+  items: ShoppingItem[];
+}
+
+const EMPTY_LIST: ShoppingListState = { sources: [], leftovers: '', checked: [] };
+
+// "Tomatoes" and "tomato" are the same thing to buy
+function itemKey(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/ies$/, 'y')
+    .replace(/(o|ch|sh|x)es$/, '$1')
+    .replace(/(?<=[^s])s$/, '');
+}
+
+// Adds an amount to an item, merging it into an existing amount whose unit converts
+function addAmount(amounts: ShoppingAmount[], quantity: number | null, unit: string): void {
+  if (quantity === null) {
+    if (amounts.length === 0) amounts.push({ quantity: null, unit: '' });
+    return;
+  }
+  const unquantified = amounts.findIndex(amount => amount.quantity === null);
+  if (unquantified !== -1) amounts.splice(unquantified, 1);
+  for (const amount of amounts) {
+    const converted = convertForStock(quantity, unit, amount.unit);
+    if (converted !== null) {
+      amount.quantity! += converted;
+      return;
+    }
+  }
+  amounts.push({ quantity, unit });
+}
+
+// How much of an ingredient is still needed once the leftovers are used. `stock` is
+// shared between recipes and drawn down as we go, so two recipes can't both count on
+// the same leftover. A leftover typed without an amount covers the ingredient entirely.
+function stillNeeded(name: string, quantity: number | null, unit: string, stock: LeftoverStock[]): number | null {
+  const item = stock.find(candidate => matchesLeftover(name, candidate.name));
+  if (!item) return quantity;
+  if (item.quantity === null) return 0;
+  // Used up by an earlier recipe
+  if (item.quantity < EPSILON) return quantity;
+  if (quantity === null) return 0;
+  const wanted = shareInStockUnit({ name, quantity, unit }, item);
+  // Can't compare amounts: assume the leftover is enough, as the user listed it for this
+  if (wanted === null) return 0;
+  const used = Math.min(wanted, item.quantity);
+  item.quantity -= used;
+  return quantity * ((wanted - used) / wanted);
+}
+
+// Builds the list for the given recipes, leaving out what the leftovers cover
+export function buildShoppingList(sources: ShoppingSource[], leftovers: string): ShoppingAisle[] {
+  const stock = parseLeftoverStock(leftovers);
+  const items = new Map<string, ShoppingItem>();
+
+  for (const source of sources) {
+    const factor = source.servings / source.recipe.servings;
+    for (const original of source.recipe.ingredients) {
+      // Nobody buys tap water
+      if (/^(?:(?:cold|hot|warm|boiling|tap)\s+)?water$/i.test(original.name.trim())) continue;
+      const ingredient = scaleIngredient(original, factor);
+      // Buy enough for the top of a range
+      const quantity = ingredient.maxQuantity ?? ingredient.quantity;
+      const needed = stillNeeded(ingredient.name, quantity, ingredient.unit, stock);
+      if (needed === 0 || (needed !== null && needed < EPSILON)) continue;
+
+      const key = `${aisleOf(ingredient.name)}:${itemKey(ingredient.name)}`;
+      const item = items.get(key) ?? {
+        key,
+        name: ingredient.name.toLowerCase(),
+        aisle: aisleOf(ingredient.name),
+        amounts: [],
+        recipes: [],
+      };
+      addAmount(item.amounts, needed, ingredient.unit);
+      if (!item.recipes.includes(source.recipe.title)) item.recipes.push(source.recipe.title);
+      items.set(key, item);
+    }
+  }
+
+  return AISLES.map(({ value, label }) => ({
+    aisle: value,
+    label,
+    items: Array.from(items.values())
+      .filter(item => item.aisle === value)
+      .map(item => ({ ...item, amounts: item.amounts.map(tidyAmount) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  })).filter(group => group.items.length > 0);
+}
+
+// Readable units, and whole onions and cans: half an onion still means buying one
+function tidyAmount(amount: ShoppingAmount): ShoppingAmount {
+  if (amount.quantity === null) return amount;
+  if (unitDimension(amount.unit) === 'count') {
+    const quantity = Math.ceil(amount.quantity - EPSILON);
+    return { quantity, unit: pluraliseUnit(amount.unit, quantity) };
+  }
+  const tidy = normaliseAmount(amount.quantity, amount.unit);
+  return { quantity: tidy.quantity, unit: pluraliseUnit(tidy.unit, tidy.quantity) };
+}
+
+// "2 cups + 3 tbsp rice", or just "salt" for to-taste amounts
+export function formatShoppingItem(item: ShoppingItem): string {
+  const amounts = item.amounts
+    .filter(amount => amount.quantity !== null)
+    .map(amount => [formatQuantity(amount.quantity!, amount.unit), amount.unit].filter(Boolean).join(' '));
+  return amounts.length > 0 ? `${amounts.join(' + ')} ${item.name}` : item.name;
+}
+
+// Plain text for pasting into a message: only what's still to buy
+export function shoppingListToText(aisles: ShoppingAisle[], checked: string[] = []): string {
+  const sections = aisles
+    .map(group => ({ ...group, items: group.items.filter(item => !checked.includes(item.key)) }))
+    .filter(group => group.items.length > 0)
+    .map(group => [group.label.toUpperCase(), ...group.items.map(item => `- ${formatShoppingItem(item)}`)].join('\n'));
+  return ['Shopping list', ...sections].join('\n\n');
+}
+
+// Markdown task list, ticks included
+export function shoppingListToMarkdown(aisles: ShoppingAisle[], checked: string[] = []): string {
+  const sections = aisles.map(group => [
+    `## ${group.label}`,
+    '',
+    ...group.items.map(item => `- [${checked.includes(item.key) ? 'x' : ' '}] ${formatShoppingItem(item)}`),
+  ].join('\n'));
+  return ['# Shopping list', ...sections].join('\n\n') + '\n';
+}
+
+export function loadShoppingList(): ShoppingListState {
+  return readJSON<ShoppingListState>(STORAGE_KEY, EMPTY_LIST);
+}
+
+// Adds recipes to the list. Their leftovers join the list's leftovers, skipping entries
+// already there, so recipes cooked from the same fridge don't count it twice.
+export function addToShoppingList(recipes: { recipe: Recipe; servings: number }[], leftovers = ''): ShoppingListState {
+  const list = loadShoppingList();
+  const entries = splitLeftovers(list.leftovers);
+  for (const entry of splitLeftovers(leftovers)) {
+    if (!entries.some(existing => existing.toLowerCase() === entry.toLowerCase())) entries.push(entry);
+  }
+  const updated: ShoppingListState = {
+    ...list,
+    sources: [...list.sources, ...recipes.map(({ recipe, servings }) => ({ id: createId(), recipe, servings }))],
+    leftovers: entries.join(', '),
+  };
+  writeJSON(STORAGE_KEY, updated);
+  return updated;
+}
+
+export function updateShoppingList(changes: Partial<ShoppingListState>): ShoppingListState {
+  const updated = { ...loadShoppingList(), ...changes };
+  writeJSON(STORAGE_KEY, updated);
+  return updated;
+}
+
+export function removeShoppingSource(id: string): ShoppingListState {
+  return updateShoppingList({ sources: loadShoppingList().sources.filter(source => source.id !== id) });
+}
+
+export function toggleShoppingItem(key: string): ShoppingListState {
+  const { checked } = loadShoppingList();
+  return updateShoppingList({ checked: checked.includes(key) ? checked.filter(other => other !== key) : [...checked, key] });
+}
+
+export function clearShoppingList(): ShoppingListState {
+  writeJSON(STORAGE_KEY, EMPTY_LIST);
+  return EMPTY_LIST;
+}
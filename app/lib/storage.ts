@@ -0,0 +1,29 @@
+// Thin wrapper around localStorage for the features that persist data in the browser.
+// All reads are safe to call during server rendering, where they return the fallback.
+
+export function readJSON<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`Could not read "${key}" from local storage:`, error);
+    return fallback;
+  }
+}
+
+export function writeJSON<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not write "${key}" to local storage:`, error);
+    throw new Error('Could not save to this browser. Your storage may be full or disabled.');
+  }
+}
+
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,213 @@
+import type { FoodCategory } from './allergens';
+
+// Curated swaps for common ingredients, offered before asking the model. Each swap lists
+// the food categories it contains, so it can be checked against the diet and allergens
+// without guessing from its name ("flax egg" has no egg in it).
+
+export interface TableSwap {
+  replacement: string;
+  // Amount of the replacement per 1 of the original: in `unit` if set, else the original's unit
+  ratio: number;
+  unit?: string;
+  impact: string;
+  contains: FoodCategory[];
+}
+
+export interface TableEntry {
+  // Ingredient names the swaps apply to, matched as whole words
+  names: string[];
+  // Names that look like a match but aren't ("egg noodles", "peanut butter")
+  except?: string[];
+  swaps: TableSwap[];
+}
+
+export const SUBSTITUTION_TABLE: TableEntry[] = [
+  {
+    names: ['buttermilk'],
+    swaps: [
+      { replacement: 'milk with 1 tbsp lemon juice per cup, left to stand for 5 minutes', ratio: 1, impact: 'Same tang and tenderness in baking; a little thinner.', contains: ['dairy'] },
+      { replacement: 'plain yogurt thinned with a little milk', ratio: 1, impact: 'Tangier and thicker; good in marinades and batters.', contains: ['dairy'] },
+      { replacement: 'unsweetened soy milk with 1 tbsp lemon juice per cup', ratio: 1, impact: 'Curdles like buttermilk and bakes the same; slightly beany.', contains: ['soy'] },
+    ],
+  },
+  {
+    names: ['egg', 'whole egg'],
+    except: ['noodle', 'egg white', 'egg yolk', 'eggless'],
+    swaps: [
+      { replacement: 'ground flaxseed mixed with 3 times as much water', ratio: 1, unit: 'tbsp', impact: 'Binds well in muffins, cookies and veggie burgers; nutty and a denser crumb. Not for omelettes.', contains: [] },
+      { replacement: 'aquafaba (the liquid from a tin of chickpeas)', ratio: 3, unit: 'tbsp', impact: 'Whips and binds like egg white; good for light bakes.', contains: [] },
+      { replacement: 'unsweetened applesauce', ratio: 0.25, unit: 'cup', impact: 'Moist and slightly sweet; for cakes and quick breads only.', contains: [] },
+      { replacement: 'mashed ripe banana', ratio: 0.25, unit: 'cup', impact: 'Adds banana flavour and sweetness; best in sweet bakes.', contains: ['high-carb'] },
+    ],
+  },
+  {
+    names: ['cream', 'heavy cream', 'double cream', 'single cream', 'whipping cream', 'fresh cream', 'malai'],
+    except: ['sour cream', 'ice cream', 'cream cheese', 'cream of tartar', 'coconut cream', 'cashew cream'],
+    swaps: [
+      { replacement: 'whole milk mixed with melted butter (3 parts milk to 1 part butter)', ratio: 1, impact: 'Works in sauces and baking, but won\'t whip.', contains: ['dairy'] },
+      { replacement: 'full-fat coconut cream', ratio: 1, impact: 'Rich and dairy-free with a mild coconut flavour; whips when chilled.', contains: [] },
+      { replacement: 'cashew cream (soaked cashews blended with water)', ratio: 1, impact: 'Rich and neutral; good in curries and pasta sauces.', contains: ['tree-nut'] },
+      { replacement: 'silken tofu blended until smooth', ratio: 1, impact: 'Creamy and neutral in soups and sauces; lighter, and won\'t whip.', contains: ['soy'] },
+    ],
+  },
+  {
+    names: ['sour cream', 'soured cream', 'creme fraiche', 'crème fraîche'],
+    swaps: [
+      { replacement: 'plain Greek yogurt', ratio: 1, impact: 'Tangier and lower in fat; stir in off the heat so it doesn\'t split.', contains: ['dairy'] },
+      { replacement: 'coconut yogurt', ratio: 1, impact: 'Dairy-free and just as thick; faintly sweet.', contains: [] },
+      { replacement: 'cashew cream with a squeeze of lemon', ratio: 1, impact: 'Dairy-free with the same tang; a little looser.', contains: ['tree-nut'] },
+    ],
+  },
+  {
+    names: ['butter', 'unsalted butter', 'salted butter'],
+    except: ['peanut butter', 'nut butter', 'almond butter', 'cashew butter', 'apple butter', 'cocoa butter', 'vegan butter'],
+    swaps: [
+      { replacement: 'olive oil', ratio: 0.75, impact: 'For frying and savoury bakes; no buttery flavour, and bakes come out denser.', contains: [] },
+      { replacement: 'coconut oil', ratio: 1, impact: 'Solid like butter, so it suits baking; a faint coconut taste.', contains: [] },
+      { replacement: 'vegan butter', ratio: 1, impact: 'The closest match for baking and spreading.', contains: [] },
+      { replacement: 'ghee', ratio: 1, impact: 'Nuttier and fine at high heat; almost free of lactose.', contains: ['dairy'] },
+    ],
+  },
+  {
+    names: ['ghee'],
+    swaps: [
+      { replacement: 'butter', ratio: 1, impact: 'Burns more easily, so keep the heat at medium.', contains: ['dairy'] },
+      { replacement: 'coconut oil', ratio: 1, impact: 'Handles high heat; a faint coconut taste.', contains: [] },
+      { replacement: 'neutral oil such as sunflower', ratio: 1, impact: 'Loses the nutty flavour; fine for frying spices.', contains: [] },
+    ],
+  },
+  {
+    names: ['milk', 'whole milk', 'skimmed milk', 'semi-skimmed milk', 'full-fat milk'],
+    except: ['coconut milk', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk', 'condensed milk', 'evaporated milk', 'milk powder'],
+    swaps: [
+      { replacement: 'unsweetened oat milk', ratio: 1, impact: 'Creamy and neutral; the best plant milk for sauces and baking.', contains: ['high-carb'] },
+      { replacement: 'unsweetened soy milk', ratio: 1, impact: 'The most protein of the plant milks; can curdle in acidic sauces.', contains: ['soy'] },
+      { replacement: 'unsweetened almond milk', ratio: 1, impact: 'Thin and slightly nutty; fine for baking, weak in sauces.', contains: ['tree-nut'] },
+    ],
+  },
+  {
+    names: ['yogurt', 'yoghurt', 'greek yogurt', 'plain yogurt', 'curd', 'dahi'],
+    except: ['coconut yogurt', 'soy yogurt', 'bean curd', 'lemon curd'],
+    swaps: [
+      { replacement: 'sour cream', ratio: 1, impact: 'Richer and less tangy.', contains: ['dairy'] },
+      { replacement: 'coconut yogurt', ratio: 1, impact: 'Dairy-free and creamy; faintly sweet.', contains: [] },
+      { replacement: 'silken tofu blended with a squeeze of lemon', ratio: 1, impact: 'Dairy-free with a similar tang; good in dressings and marinades.', contains: ['soy'] },
+    ],
+  },
+  {
+    names: ['parmesan', 'parmigiano', 'pecorino'],
+    swaps: [
+      { replacement: 'nutritional yeast', ratio: 0.5, impact: 'Savoury and cheesy but dairy-free; it doesn\'t melt.', contains: [] },
+      { replacement: 'aged cheddar, finely grated', ratio: 1, impact: 'Milder and melts more.', contains: ['dairy'] },
+      { replacement: 'ground almonds toasted with a pinch of salt', ratio: 1, impact: 'Dairy-free crunch for topping pasta and bakes.', contains: ['tree-nut'] },
+    ],
+  },
+  {
+    names: ['paneer'],
+    swaps: [
+      { replacement: 'extra-firm tofu, pressed', ratio: 1, impact: 'The same bite and takes on spices well; browns less.', contains: ['soy'] },
+      { replacement: 'halloumi', ratio: 1, impact: 'Saltier, so use less salt; browns well.', contains: ['dairy'] },
+      { replacement: 'cooked chickpeas', ratio: 1, impact: 'Softer and nuttier; fine in curries, not for grilling.', contains: ['high-carb'] },
+    ],
+  },
+  {
+    names: ['honey'],
+    swaps: [
+      { replacement: 'maple syrup', ratio: 1, impact: 'Vegan, thinner and with a woody sweetness.', contains: ['high-carb'] },
+      { replacement: 'agave syrup', ratio: 1, impact: 'Vegan, neutral and slightly sweeter.', contains: ['high-carb'] },
+      { replacement: 'date syrup', ratio: 1, impact: 'Vegan with a caramel flavour; darkens bakes.', contains: ['high-carb'] },
+    ],
+  },
+  {
+    names: ['sugar', 'white sugar', 'caster sugar', 'granulated sugar'],
+    except: ['brown sugar', 'icing sugar', 'powdered sugar', 'coconut sugar', 'sugar-free'],
+    swaps: [
+      { replacement: 'maple syrup', ratio: 0.75, impact: 'Adds moisture, so use a little less liquid elsewhere.', contains: ['high-carb'] },
+      { replacement: 'honey', ratio: 0.75, impact: 'Sweeter and browns faster; bake a little cooler.', contains: ['honey', 'high-carb'] },
+      { replacement: 'erythritol', ratio: 1, impact: 'Sugar-free and keto; browns less and has a cooling aftertaste.', contains: [] },
+    ],
+  },
+  {
+    names: ['brown sugar', 'light brown sugar', 'dark brown sugar', 'jaggery'],
+    swaps: [
+      { replacement: 'white sugar with 1 tbsp molasses per cup', ratio: 1, impact: 'The same flavour and moisture.', contains: ['high-carb'] },
+      { replacement: 'coconut sugar', ratio: 1, impact: 'Similar caramel notes; slightly drier.', contains: ['high-carb'] },
+    ],
+  },
+  {
+    names: ['flour', 'plain flour', 'all-purpose flour', 'wheat flour', 'maida'],
+    except: ['almond flour', 'rice flour', 'chickpea flour', 'gram flour', 'corn flour', 'coconut flour', 'gluten-free flour', 'buckwheat flour', 'oat flour'],
+    swaps: [
+      { replacement: 'gluten-free flour blend', ratio: 1, impact: 'Works in most bakes as is; add xanthan gum if the blend has none.', contains: ['high-carb'] },
+      { replacement: 'wholemeal flour', ratio: 1, impact: 'Nuttier and denser; add a splash more liquid.', contains: ['gluten', 'high-carb'] },
+      { replacement: 'almond flour', ratio: 1, impact: 'Low-carb and gluten-free; moister, denser bakes that need an egg to bind.', contains: ['tree-nut'] },
+    ],
+  },
+  {
+    names: ['breadcrumbs', 'breadcrumb', 'panko'],
+    swaps: [
+      { replacement: 'rolled oats, blitzed', ratio: 1, impact: 'A little chewier; gluten-free if the oats are.', contains: ['high-carb'] },
+      { replacement: 'crushed cornflakes', ratio: 1, impact: 'An extra crunchy coating; slightly sweet.', contains: ['high-carb'] },
+      { replacement: 'ground almonds', ratio: 1, impact: 'Low-carb and gluten-free; browns quickly.', contains: ['tree-nut'] },
+    ],
+  },
+  {
+    names: ['soy sauce', 'soya sauce'],
+    swaps: [
+      { replacement: 'tamari', ratio: 1, impact: 'The same flavour and usually gluten-free.', contains: ['soy'] },
+      { replacement: 'coconut aminos', ratio: 1, impact: 'Soy- and gluten-free; sweeter and less salty.', contains: [] },
+    ],
+  },
+  {
+    names: ['fish sauce'],
+    swaps: [
+      { replacement: 'soy sauce with a squeeze of lime', ratio: 1, impact: 'Vegetarian; salty and savoury without the funk.', contains: ['soy', 'gluten'] },
+      { replacement: 'coconut aminos with a pinch of salt', ratio: 1, impact: 'Vegan and soy-free; milder and a little sweet.', contains: [] },
+    ],
+  },
+  {
+    names: ['lemon juice'],
+    swaps: [
+      { replacement: 'lime juice', ratio: 1, impact: 'Just as sharp, slightly more floral.', contains: [] },
+      { replacement: 'white wine vinegar', ratio: 0.5, impact: 'Sharper, so start with half as much and taste.', contains: [] },
+    ],
+  },
+  {
+    names: ['wine', 'white wine', 'red wine'],
+    except: ['vinegar', 'rice wine'],
+    swaps: [
+      { replacement: 'vegetable stock with 1 tbsp vinegar per cup', ratio: 1, impact: 'Keeps the acidity without the alcohol.', contains: [] },
+      { replacement: 'unsweetened grape juice with a splash of vinegar', ratio: 1, impact: 'Fruitier and a little sweet; good for deglazing.', contains: ['high-carb'] },
+    ],
+  },
+  {
+    names: ['cornstarch', 'cornflour', 'corn starch'],
+    swaps: [
+      { replacement: 'arrowroot', ratio: 1, impact: 'Thickens clear at a lower heat; don\'t boil it for long.', contains: [] },
+      { replacement: 'potato starch', ratio: 1, impact: 'Thickens the same way and is gluten-free.', contains: ['high-carb'] },
+      { replacement: 'plain flour', ratio: 2, impact: 'Use twice as much and simmer a few minutes longer; cloudier.', contains: ['gluten', 'high-carb'] },
+    ],
+  },
+  {
+    names: ['mayonnaise', 'mayo'],
+    except: ['vegan mayonnaise', 'vegan mayo'],
+    swaps: [
+      { replacement: 'plain Greek yogurt', ratio: 1, impact: 'Lighter and tangier.', contains: ['dairy'] },
+      { replacement: 'vegan mayonnaise', ratio: 1, impact: 'Egg-free and tastes much the same.', contains: [] },
+      { replacement: 'mashed avocado', ratio: 1, impact: 'Creamy and egg-free; turns brown if left out.', contains: [] },
+    ],
+  },
+  {
+    names: ['chicken stock', 'chicken broth', 'beef stock', 'beef broth'],
+    swaps: [
+      { replacement: 'vegetable stock', ratio: 1, impact: 'Lighter; a dash of soy sauce adds depth.', contains: [] },
+      { replacement: 'mushroom stock', ratio: 1, impact: 'Deeply savoury and vegetarian.', contains: [] },
+    ],
+  },
+  {
+    names: ['baking powder'],
+    swaps: [
+      { replacement: 'baking soda mixed with twice as much cream of tartar', ratio: 0.75, impact: 'Rises the same; mix just before using.', contains: [] },
+    ],
+  },
+];
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { applySubstitution, mergeSubstitutions, parseModelSubstitutions, substituteIngredient, Substitution, suitsRestrictions } from './substitutions';
+import { testRecipe } from './testRecipe';
+
+const substitution = (fields: Partial<Substitution>): Substitution => ({
+  original: 'egg',
+  replacement: 'mashed banana',
+  ratio: 1,
+  unit: '',
+  impact: '',
+  contains: [],
+  diets: [],
+  source: 'model',
+  ...fields,
+});
+
+const NO_RESTRICTIONS = { diet: 'none', customDiet: '', allergens: '' };
+
+describe('suitsRestrictions', () => {
+  it.each([
+    [['dairy'], { diet: 'vegan' }, false],
+    [['dairy'], { diet: 'vegetarian' }, true],
+    [['meat'], { diet: 'other', customDiet: 'pescatarian, keto' }, false],
+    [['tree-nut'], { allergens: 'nuts' }, false],
+    [[], { allergens: 'kiwi' }, true],
+  ] as const)('%j with %j -> %s', (contains, restrictions, expected) => {
+    expect(suitsRestrictions(substitution({ contains: [...contains] }), { ...NO_RESTRICTIONS, ...restrictions })).toBe(expected);
+  });
+
+  it('checks allergens we have no category for against the name', () => {
+    expect(suitsRestrictions(substitution({ replacement: 'kiwi puree' }), { ...NO_RESTRICTIONS, allergens: 'kiwi' })).toBe(false);
+  });
+});
+
+describe('parseModelSubstitutions', () => {
+  const asked = ['2 cups spinach', 'buttermilk'];
+
+  it('files each answer under the line it names or mentions', () => {
+    const groups = parseModelSubstitutions({
+      ingredients: [
+        { ingredient: 'Spinach', substitutions: [{ replacement: 'kale', ratio: 1, unit: '', impact: 'Chewier.' }] },
+        { ingredient: 'buttermilk', substitutions: [{ replacement: 'kefir', ratio: 1, unit: '', impact: 'Tangier.' }] },
+      ],
+    }, asked);
+    expect(groups.map(group => [group.ingredient, group.substitutions.map(sub => sub.replacement)])).toEqual([
+      ['2 cups spinach', ['kale']],
+      ['buttermilk', ['kefir']],
+    ]);
+  });
+
+  it('works out what a replacement contains from its name, not from the model', () => {
+    const [group] = parseModelSubstitutions({
+      ingredients: [{ ingredient: 'spinach', substitutions: [{ replacement: 'creamed spinach with butter', ratio: 1, unit: '', impact: '', contains: [] }] }],
+    }, asked);
+    expect(group.substitutions[0]).toMatchObject({ contains: ['dairy'], source: 'model' });
+    expect(group.substitutions[0].diets).not.toContain('vegan');
+  });
+
+  it('drops malformed entries and ingredients nobody asked about', () => {
+    const groups = parseModelSubstitutions({
+      ingredients: [
+        null,
+        { ingredient: 'chicken', substitutions: [{ replacement: 'tofu', ratio: 1, unit: '', impact: '' }] },
+        { ingredient: 'spinach', substitutions: [{ replacement: '' }, 'chard', { replacement: 'chard', ratio: -2 }] },
+      ],
+    }, asked);
+    expect(groups[0].substitutions.map(sub => [sub.replacement, sub.ratio])).toEqual([['chard', 1]]);
+    expect(groups[1].substitutions).toEqual([]);
+  });
+
+  it('throws when the answer has no ingredients list', () => {
+    expect(() => parseModelSubstitutions({ substitutions: [] }, asked)).toThrow('without any ingredients');
+  });
+});
+
+describe('mergeSubstitutions', () => {
+  const table = [{ ingredient: 'butter', substitutions: [substitution({ original: 'butter', replacement: 'Olive oil', source: 'table' })] }];
+
+  it('adds the model\'s suggestions after the table\'s, without repeats', () => {
+    const suggested = [{
+      ingredient: 'Butter',
+      substitutions: [substitution({ replacement: 'olive oil' }), substitution({ replacement: 'coconut oil' })],
+    }];
+    const [group] = mergeSubstitutions(table, suggested, NO_RESTRICTIONS);
+    expect(group.substitutions.map(sub => [sub.replacement, sub.source])).toEqual([['Olive oil', 'table'], ['coconut oil', 'model']]);
+  });
+
+  it('leaves out model suggestions that break the diet or allergens', () => {
+    const suggested = [{
+      ingredient: 'butter',
+      substitutions: [
+        substitution({ replacement: 'ghee', contains: ['dairy'] }),
+        substitution({ replacement: 'almond butter', contains: ['tree-nut'] }),
+        substitution({ replacement: 'coconut oil' }),
+      ],
+    }];
+    const [group] = mergeSubstitutions(table, suggested, { diet: 'vegan', customDiet: '', allergens: 'nuts' });
+    expect(group.substitutions.map(sub => sub.replacement)).toEqual(['Olive oil', 'coconut oil']);
+  });
+
+  it('shows at most five per ingredient', () => {
+    const suggested = [{ ingredient: 'butter', substitutions: ['a', 'b', 'c', 'd', 'e', 'f'].map(replacement => substitution({ replacement })) }];
+    expect(mergeSubstitutions(table, suggested, NO_RESTRICTIONS)[0].substitutions).toHaveLength(5);
+  });
+});
+
+describe('applySubstitution', () => {
+  it.each([
+    ['scales the amount by the ratio', { quantity: 1, unit: 'cup', name: 'sugar' }, { replacement: 'honey', ratio: 0.75 },
+      { quantity: 0.75, unit: 'cup', name: 'honey' }],
+    ['scales both ends of a range', { quantity: 2, maxQuantity: 3, unit: 'tbsp', name: 'butter' }, { replacement: 'oil', ratio: 0.5 },
+      { quantity: 1, maxQuantity: 1.5, unit: 'tbsp', name: 'oil' }],
+    ['uses the substitution\'s unit and drops the note', { quantity: 2, unit: '', name: 'eggs', note: 'beaten' }, { replacement: 'ground flaxseed', ratio: 1, unit: 'tbsp' },
+      { quantity: 2, unit: 'tbsp', name: 'ground flaxseed' }],
+    ['keeps the note when the unit stays', { quantity: 200, unit: 'g', name: 'spinach', note: 'chopped' }, { replacement: 'kale', ratio: 1 },
+      { quantity: 200, unit: 'g', name: 'kale', note: 'chopped' }],
+    ['keeps the unit when there is no amount', { quantity: null, unit: '', name: 'eggs' }, { replacement: 'ground flaxseed', ratio: 1, unit: 'tbsp' },
+      { quantity: null, unit: '', name: 'ground flaxseed' }],
+  ])('%s', (_, ingredient, fields, expected) => {
+    expect(applySubstitution(ingredient, substitution(fields))).toEqual(expected);
+  });
+});
+
+describe('substituteIngredient', () => {
+  const recipe = testRecipe({
+    ingredients: [
+      { quantity: 1, unit: 'cup', name: 'buttermilk' },
+      { quantity: 2, unit: 'cups', name: 'flour' },
+    ],
+  });
+  const kefir = substitution({ original: 'buttermilk', replacement: 'kefir' });
+
+  it('swaps the matching line', () => {
+    expect(substituteIngredient(recipe, '1 cup buttermilk', kefir).ingredients).toEqual([
+      { quantity: 1, unit: 'cup', name: 'kefir' },
+      { quantity: 2, unit: 'cups', name: 'flour' },
+    ]);
+  });
+
+  it('returns the recipe unchanged when the line isn\'t in it', () => {
+    expect(substituteIngredient(recipe, '1 cup milk', kefir)).toEqual(recipe);
+  });
+});
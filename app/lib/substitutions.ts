@@ -0,0 +1,211 @@
+import { categoriesOf, DIET_EXCLUSIONS, excludedCategories, FoodCategory, mentions, parseAllergens } from './allergens';
+import { formatQuantity, pluraliseUnit } from './ingredients';
+import type { JsonSchema } from './providers';
+import { ingredientToString, Recipe, RecipeIngredient } from './recipe';
+import type { RecipeOptions } from './recipeOptions';
+import { SUBSTITUTION_TABLE, TableSwap } from './substitutionTable';
+
+// Ingredient substitutions as data: what to use instead, how much of it, and what it
+// changes. The curated table answers first and the model only fills the gaps.
+
+// Ingredients with fewer safe swaps than this in the table are sent to the model
+export const SUBSTITUTIONS_PER_INGREDIENT = 3;
+
+// Most we show for one ingredient, table and model together
+const MAX_SUBSTITUTIONS = 5;
+
+export interface Substitution {
+  // The ingredient it replaces, e.g. "buttermilk"
+  original: string;
+  // What to use instead, worded to follow an amount on an ingredient line
+  replacement: string;
+  // Amount of the replacement per 1 of the original: in `unit` if set, else the original's unit
+  ratio: number;
+  unit: string;
+  // How it changes the flavour, texture or cooking
+  impact: string;
+  // Allergen and diet categories the replacement falls into
+  contains: FoodCategory[];
+  // Diets the replacement suits, e.g. ['vegan', 'vegetarian']
+  diets: string[];
+  source: 'table' | 'model';
+}
+
+// The substitutions for one ingredient line, keyed by the line as it was asked for
+export interface SubstitutionGroup {
+  ingredient: string;
+  substitutions: Substitution[];
+}
+
+export const SUBSTITUTIONS_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['ingredients'],
+  properties: {
+    ingredients: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['ingredient', 'substitutions'],
+        properties: {
+          ingredient: { type: 'string' },
+          substitutions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['replacement', 'ratio', 'unit', 'impact'],
+              properties: {
+                replacement: { type: 'string' },
+                ratio: { type: 'number', description: 'Amount of the replacement per 1 of the original ingredient.' },
+                unit: { type: 'string', description: 'Unit of the replacement amount, or an empty string to use the original ingredient\'s unit.' },
+                impact: { type: 'string', description: 'How it changes the flavour, texture or cooking, in one short sentence.' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// The form ingredient lines are compared, cached and sent to the model in
+export function normaliseLine(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function sameIngredient(a: string, b: string): boolean {
+  return normaliseLine(a) === normaliseLine(b);
+}
+
+function makeSubstitution(original: string, swap: Omit<TableSwap, 'contains'>, contains: FoodCategory[], source: Substitution['source']): Substitution {
+  return {
+    original,
+    replacement: swap.replacement,
+    ratio: swap.ratio,
+    unit: swap.unit ?? '',
+    impact: swap.impact,
+    contains,
+    diets: Object.keys(DIET_EXCLUSIONS).filter(diet => !DIET_EXCLUSIONS[diet].some(category => contains.includes(category))),
+    source,
+  };
+}
+
+// The curated swaps for an ingredient line. When several entries match, the one naming
+// more of it wins ("brown sugar" over "sugar").
+export function tableSubstitutions(ingredient: string): Substitution[] {
+  let best: { name: string; swaps: TableSwap[] } | null = null;
+  for (const entry of SUBSTITUTION_TABLE) {
+    if (entry.except?.some(term => mentions(ingredient, term))) continue;
+    const name = entry.names.filter(candidate => mentions(ingredient, candidate)).sort((a, b) => b.length - a.length)[0];
+    if (name && (!best || name.length > best.name.length)) best = { name, swaps: entry.swaps };
+  }
+  if (!best) return [];
+  const { name, swaps } = best;
+  return swaps.map(swap => makeSubstitution(name, swap, swap.contains, 'table'));
+}
+
+// Whether a substitution keeps to the diet and avoids the allergens
+export function suitsRestrictions(substitution: Substitution, restrictions: Pick<RecipeOptions, 'diet' | 'customDiet' | 'allergens'>): boolean {
+  const { categories, terms } = parseAllergens(restrictions.allergens ?? '');
+  const ruledOut = [...categories, ...excludedCategories(restrictions)];
+  return !substitution.contains.some(category => ruledOut.includes(category)) &&
+    !terms.some(term => mentions(substitution.replacement, term));
+}
+
+function toSwap(value: unknown): Omit<TableSwap, 'contains'> | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.replacement !== 'string' || !raw.replacement.trim()) return null;
+  return {
+    replacement: raw.replacement.trim(),
+    // A missing or nonsense ratio is read as like for like
+    ratio: typeof raw.ratio === 'number' && Number.isFinite(raw.ratio) && raw.ratio > 0 ? raw.ratio : 1,
+    unit: typeof raw.unit === 'string' ? raw.unit.trim() : '',
+    impact: typeof raw.impact === 'string' ? raw.impact.trim() : '',
+  };
+}
+
+// Reads the model's answer into a group per asked line. Each answer goes to the line it
+// names exactly, else to the line that mentions it ("spinach" for "2 cups spinach").
+// Answers for anything we didn't ask about and malformed entries are dropped. What a
+// replacement contains is worked out from its name rather than taken from the model.
+export function parseModelSubstitutions(data: unknown, asked: string[]): SubstitutionGroup[] {
+  const entries = data && typeof data === 'object' && Array.isArray((data as { ingredients?: unknown }).ingredients)
+    ? (data as { ingredients: unknown[] }).ingredients
+    : null;
+  if (!entries) {
+    throw new Error('The model returned substitutions without any ingredients.');
+  }
+
+  const groups: SubstitutionGroup[] = asked.map(ingredient => ({ ingredient, substitutions: [] }));
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.ingredient !== 'string' || !raw.ingredient.trim() || !Array.isArray(raw.substitutions)) continue;
+    const name = raw.ingredient.trim();
+    const group = groups.find(candidate => sameIngredient(candidate.ingredient, name)) ??
+      groups.find(candidate => mentions(candidate.ingredient, name));
+    if (!group) continue;
+    for (const swap of raw.substitutions.map(toSwap)) {
+      if (swap) group.substitutions.push(makeSubstitution(name, swap, categoriesOf(swap.replacement), 'model'));
+    }
+  }
+  return groups;
+}
+
+// Adds the model's suggestions after the table's, leaving out unsafe ones and repeats
+export function mergeSubstitutions(
+  groups: SubstitutionGroup[],
+  suggested: SubstitutionGroup[],
+  restrictions: Pick<RecipeOptions, 'diet' | 'customDiet' | 'allergens'>
+): SubstitutionGroup[] {
+  return groups.map(group => {
+    const seen = new Set(group.substitutions.map(substitution => normaliseLine(substitution.replacement)));
+    const extra = (suggested.find(candidate => sameIngredient(candidate.ingredient, group.ingredient))?.substitutions ?? [])
+      .filter(substitution => suitsRestrictions(substitution, restrictions))
+      .filter(substitution => {
+        const key = normaliseLine(substitution.replacement);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return { ...group, substitutions: [...group.substitutions, ...extra].slice(0, MAX_SUBSTITUTIONS) };
+  });
+}
+
+// "Same amount", "3/4 as much", "1 tbsp per egg"
+export function describeRatio({ original, ratio, unit }: Substitution): string {
+  if (unit) return `${formatQuantity(ratio, unit)} ${pluraliseUnit(unit, ratio)} per ${original}`;
+  if (ratio === 1) return 'Same amount';
+  return ratio > 1 ? `${formatQuantity(ratio)} times as much` : `${formatQuantity(ratio)} as much`;
+}
+
+// The ingredient rewritten to use the substitution, with the amount converted by its ratio
+export function applySubstitution(ingredient: RecipeIngredient, substitution: Substitution): RecipeIngredient {
+  const scale = (value: number) => Number((value * substitution.ratio).toFixed(2));
+  const quantity = ingredient.quantity === null ? null : scale(ingredient.quantity);
+  const maxQuantity = ingredient.maxQuantity === undefined ? undefined : scale(ingredient.maxQuantity);
+  // Without an amount there's nothing to put the substitution's unit against
+  const ownUnit = quantity !== null && Boolean(substitution.unit);
+  return {
+    quantity,
+    ...(maxQuantity !== undefined && { maxQuantity }),
+    unit: pluraliseUnit(ownUnit ? substitution.unit : ingredient.unit, maxQuantity ?? quantity),
+    name: substitution.replacement,
+    // "chopped" still applies to kale for spinach, but "beaten" doesn't to flaxseed for eggs
+    ...(ingredient.note && !ownUnit && { note: ingredient.note }),
+  };
+}
+
+// The recipe with the given ingredient line swapped for the substitution. Returns the
+// recipe unchanged if the line isn't in it (e.g. it was already swapped).
+export function substituteIngredient(recipe: Recipe, line: string, substitution: Substitution): Recipe {
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map(ingredient =>
+      ingredientToString(ingredient) === line ? applySubstitution(ingredient, substitution) : ingredient
+    ),
+  };
+}
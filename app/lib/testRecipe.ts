@@ -0,0 +1,19 @@
+import type { Recipe } from './recipe';
+
+// A Recipe for tests: set what the test is about and the rest is empty or unknown
+export function testRecipe(fields: Partial<Recipe> = {}): Recipe {
+  return {
+    title: 'Test',
+    servings: 2,
+    ingredients: [],
+    steps: [],
+    tips: [],
+    substitutions: [],
+    nutrition: { calories: null, protein: null, carbs: null, fat: null },
+    prepMinutes: null,
+    cookMinutes: null,
+    totalMinutes: null,
+    difficulty: null,
+    ...fields,
+  };
+}
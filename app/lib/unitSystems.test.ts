@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { RecipeIngredient } from './recipe';
+import { convertIngredient, convertTemperatures } from './unitSystems';
+
+describe('convertIngredient', () => {
+  it.each<[string, RecipeIngredient, 'metric' | 'us', Partial<RecipeIngredient>]>([
+    ['cups of flour to grams by density', { quantity: 2, unit: 'cups', name: 'flour' }, 'metric', { quantity: 250, unit: 'g' }],
+    ['grams of flour to cups by density', { quantity: 250, unit: 'g', name: 'flour' }, 'us', { quantity: 2, unit: 'cups' }],
+    ['cups without a density to millilitres', { quantity: 1, unit: 'cup', name: 'stock' }, 'metric', { quantity: 235, unit: 'ml' }],
+    ['ounces to grams, to the nearest 5', { quantity: 4, unit: 'oz', name: 'cheese' }, 'metric', { quantity: 115, unit: 'g' }],
+    ['small amounts to the nearest gram', { quantity: 0.5, unit: 'oz', name: 'yeast' }, 'metric', { quantity: 14, unit: 'g' }],
+    ['a kilo and more to kilograms', { quantity: 2.5, unit: 'lb', name: 'potatoes' }, 'metric', { quantity: 1.1, unit: 'kg' }],
+    ['grams to pounds', { quantity: 500, unit: 'g', name: 'beef mince' }, 'us', { quantity: 1, unit: 'lb' }],
+    ['millilitres to a clean fraction of a cup', { quantity: 150, unit: 'ml', name: 'milk' }, 'us', { quantity: 2 / 3, unit: 'cup' }],
+    ['both ends of a range', { quantity: 1, maxQuantity: 2, unit: 'cup', name: 'stock' }, 'metric', { quantity: 235, maxQuantity: 475, unit: 'ml' }],
+    ['"cups" when the range goes past one', { quantity: 100, maxQuantity: 300, unit: 'ml', name: 'water' }, 'us', { quantity: 0.5, maxQuantity: 1.25, unit: 'cups' }],
+  ])('%s', (_, ingredient, system, expected) => {
+    expect(convertIngredient(ingredient, system)).toEqual({ ...ingredient, ...expected });
+  });
+
+  it.each<[string, RecipeIngredient]>([
+    ['counted items', { quantity: 2, unit: '', name: 'eggs' }],
+    ['spoon measures', { quantity: 1, unit: 'tbsp', name: 'flour' }],
+    ['amounts left to taste', { quantity: null, unit: '', name: 'salt' }],
+    ['units we don\'t know', { quantity: 1, unit: 'pinch', name: 'salt' }],
+  ])('leaves %s alone', (_, ingredient) => {
+    expect(convertIngredient(ingredient, 'metric')).toBe(ingredient);
+    expect(convertIngredient(ingredient, 'us')).toBe(ingredient);
+  });
+});
+
+describe('convertTemperatures', () => {
+  it.each<[string, 'original' | 'metric' | 'us', string]>([
+    ['Bake at 180°C for 20 minutes.', 'us', 'Bake at 350°F for 20 minutes.'],
+    ['Heat the oven to 350 degrees F.', 'metric', 'Heat the oven to 180°C.'],
+    ['Roast at 400 F.', 'metric', 'Roast at 200°C.'],
+    ['Bake at 375-400°F.', 'metric', 'Bake at 190-200°C.'],
+    ['Bake at 200 Celsius.', 'us', 'Bake at 400°F.'],
+    ['Bake at 180°C.', 'metric', 'Bake at 180°C.'],
+    ['Bake at 180°C.', 'original', 'Bake at 180°C.'],
+    ['Stir in 2 C of milk.', 'us', 'Stir in 2 C of milk.'],
+    ['Stir in 2 C of milk.', 'metric', 'Stir in 2 C of milk.'],
+    ['Chill to 40°F.', 'metric', 'Chill to 0°C.'],
+  ])('%s in %s', (text, system, expected) => {
+    expect(convertTemperatures(text, system)).toBe(expected);
+  });
+});
@@ -0,0 +1,106 @@
+import { gramsPerCup } from './densities';
+import type { RecipeIngredient } from './recipe';
+import { convertQuantity, normaliseUnit, toBaseUnit } from './units';
+
+// Shows a recipe in metric or US customary units, whatever units the model used.
+// Mass and volume convert directly; cups and grams convert through the density table.
+
+export type UnitSystem = 'original' | 'metric' | 'us';
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'original', label: 'Original units' },
+  { value: 'metric', label: 'Metric (g, ml, °C)' },
+  { value: 'us', label: 'US (cups, oz, °F)' },
+];
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.some(system => system.value === value);
+}
+
+const ML_PER_CUP = convertQuantity(1, 'cup', 'ml')!;
+
+// Halves, thirds and quarters: what a US cook expects to measure
+function roundToCleanFraction(value: number): number {
+  const whole = Math.floor(value);
+  const fractions = [0, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+  const nearest = fractions.reduce((best, fraction) =>
+    Math.abs(value - whole - fraction) < Math.abs(value - whole - best) ? fraction : best);
+  return whole + nearest;
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+// Picks the unit for an amount given in grams or millilitres, and how to round in it
+function chooseUnit(amount: number, dimension: 'mass' | 'volume', system: 'metric' | 'us'): { unit: string; round: (value: number) => number } {
+  if (system === 'metric') {
+    const small = dimension === 'mass' ? 'g' : 'ml';
+    if (amount >= 1000) return { unit: dimension === 'mass' ? 'kg' : 'l', round: value => roundToStep(value, 0.1) };
+    return { unit: small, round: value => roundToStep(value, value < 20 ? 1 : 5) };
+  }
+  if (dimension === 'mass') {
+    if (amount >= convertQuantity(1, 'lb', 'g')!) return { unit: 'lb', round: value => roundToStep(value, 0.25) };
+    return { unit: 'oz', round: value => roundToStep(value, value < 4 ? 0.25 : 0.5) };
+  }
+  if (amount >= ML_PER_CUP / 4) return { unit: 'cup', round: roundToCleanFraction };
+  if (amount >= convertQuantity(1, 'tbsp', 'ml')!) return { unit: 'tbsp', round: value => roundToStep(value, 0.5) };
+  return { unit: 'tsp', round: value => roundToStep(value, 0.125) };
+}
+
+// Rewrites an ingredient's amount in the given unit system. Counted items ("2 eggs") and
+// spoon measures, which both systems use, are left alone.
+export function convertIngredient(ingredient: RecipeIngredient, system: UnitSystem): RecipeIngredient {
+  if (system === 'original' || ingredient.quantity === null) return ingredient;
+  const key = normaliseUnit(ingredient.unit);
+  if (key === 'tsp' || key === 'tbsp') return ingredient;
+  const base = toBaseUnit(ingredient.quantity, ingredient.unit);
+  if (!base) return ingredient;
+
+  // Moves between cups and grams when we know the density: cooks weigh flour in metric
+  // kitchens and measure it by the cup in US ones
+  const density = gramsPerCup(ingredient.name);
+  let { amount, dimension } = base;
+  if (system === 'metric' && dimension === 'volume' && density !== null) {
+    amount = (amount / ML_PER_CUP) * density;
+    dimension = 'mass';
+  } else if (system === 'us' && dimension === 'mass' && density !== null) {
+    amount = (amount / density) * ML_PER_CUP;
+    dimension = 'volume';
+  }
+
+  const { unit, round } = chooseUnit(amount, dimension, system);
+  const perBase = convertQuantity(1, dimension === 'mass' ? 'g' : 'ml', unit)!;
+  // The range's upper end converts by the same ratio
+  const ratio = (amount * perBase) / ingredient.quantity;
+  const converted: RecipeIngredient = { ...ingredient, quantity: round(amount * perBase), unit };
+  if (ingredient.maxQuantity !== undefined) converted.maxQuantity = round(ingredient.maxQuantity * ratio);
+  if (unit === 'cup' && Math.max(converted.quantity!, converted.maxQuantity ?? 0) > 1) converted.unit = 'cups';
+  if (unit === 'lb' && Math.max(converted.quantity!, converted.maxQuantity ?? 0) > 1) converted.unit = 'lbs';
+  return converted;
+}
+
+// "180°C", "350 degrees F", "375-400°F"; a bare "C"/"F" needs a three-digit number
+const TEMPERATURE_PATTERN = /\b(\d{2,3})(?:\s*(?:-|–|to)\s*(\d{2,3}))?(\s*(?:°|º|degrees?\s)\s*|\s?)(Fahrenheit|Celsius|F|C)\b/gi;
+
+// Oven temperatures round to the steps printed on dials
+function fahrenheitToCelsius(value: number): number {
+  return Math.round(((value - 32) * 5) / 9 / 10) * 10;
+}
+
+function celsiusToFahrenheit(value: number): number {
+  return Math.round(((value * 9) / 5 + 32) / 25) * 25;
+}
+
+// Rewrites temperatures in an instruction step into the given unit system
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  if (system === 'original') return text;
+  return text.replace(TEMPERATURE_PATTERN, (match, low: string, high: string | undefined, marker: string, scale: string) => {
+    if (!marker.trim() && low.length < 3) return match;
+    const fahrenheit = scale[0].toUpperCase() === 'F';
+    if (fahrenheit === (system === 'us')) return match;
+    const convert = fahrenheit ? fahrenheitToCelsius : celsiusToFahrenheit;
+    const range = high ? `${convert(parseInt(low))}-${convert(parseInt(high))}` : `${convert(parseInt(low))}`;
+    return `${range}°${fahrenheit ? 'C' : 'F'}`;
+  });
+}
@@ -0,0 +1,80 @@
+// Unit canonicalisation and conversion between units of the same dimension.
+// Mass converts via grams and volume via millilitres. Counted units ("2 eggs",
+// "3 cloves") only match themselves.
+
+export type Dimension = 'mass' | 'volume' | 'count';
+
+interface UnitInfo {
+  dimension: Dimension;
+  // Size of one unit in grams (mass) or millilitres (volume); 1 for counts
+  factor: number;
+}
+
+const UNITS: Record<string, UnitInfo> = {
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  mg: { dimension: 'mass', factor: 0.001 },
+  oz: { dimension: 'mass', factor: 28.3495 },
+  lb: { dimension: 'mass', factor: 453.592 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', factor: 4.92892 },
+  tbsp: { dimension: 'volume', factor: 14.7868 },
+  'fl oz': { dimension: 'volume', factor: 29.5735 },
+  cup: { dimension: 'volume', factor: 236.588 },
+  pint: { dimension: 'volume', factor: 473.176 },
+  quart: { dimension: 'volume', factor: 946.353 },
+  gallon: { dimension: 'volume', factor: 3785.41 },
+};
+
+const ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gm: 'g', gms: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kgs: 'kg',
+  milligram: 'mg', milligrams: 'mg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml', mls: 'ml',
+  litre: 'l', litres: 'l', liter: 'l', liters: 'l', ltr: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp', t: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp', T: 'tbsp',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl. oz': 'fl oz', floz: 'fl oz',
+  cups: 'cup', c: 'cup',
+  pints: 'pint', pt: 'pint',
+  quarts: 'quart', qt: 'quart',
+  gallons: 'gallon', gal: 'gallon',
+};
+
+// Canonical unit key, e.g. "Tablespoons" -> "tbsp". Unknown units (counts such as
+// "clove" or "medium") come back lower-cased and singular.
+export function normaliseUnit(unit: string): string {
+  const trimmed = unit.trim().replace(/\.$/, '');
+  // "T" (tablespoon) and "t" (teaspoon) are only distinguished by case
+  if (trimmed === 'T' || trimmed === 't') return ALIASES[trimmed];
+  const lower = trimmed.toLowerCase();
+  if (UNITS[lower]) return lower;
+  if (ALIASES[lower]) return ALIASES[lower];
+  return lower.replace(/(?<=[^s])s$/, '');
+}
+
+export function unitDimension(unit: string): Dimension {
+  return UNITS[normaliseUnit(unit)]?.dimension ?? 'count';
+}
+
+// Converts between units of the same dimension; null when that isn't possible
+// (e.g. cups to grams, or cloves to teaspoons)
+export function convertQuantity(quantity: number, from: string, to: string): number | null {
+  const fromKey = normaliseUnit(from);
+  const toKey = normaliseUnit(to);
+  if (fromKey === toKey) return quantity;
+  const fromInfo = UNITS[fromKey];
+  const toInfo = UNITS[toKey];
+  if (!fromInfo || !toInfo || fromInfo.dimension !== toInfo.dimension) return null;
+  return (quantity * fromInfo.factor) / toInfo.factor;
+}
+
+// The amount in grams or millilitres, with the dimension; null for counted units
+export function toBaseUnit(quantity: number, unit: string): { amount: number; dimension: Exclude<Dimension, 'count'> } | null {
+  const info = UNITS[normaliseUnit(unit)];
+  if (!info || info.dimension === 'count') return null;
+  return { amount: quantity * info.factor, dimension: info.dimension };
+}
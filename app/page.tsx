@@ -1,35 +1,58 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import InputBox from './components/InputBox';
 import RecipeCard from './components/RecipeCard';
 import Loader from './components/Loader';
-import { getRecipeFromGemini, getSubstitutionsFromGemini } from './lib/gemini';
+import PantryPicker from './components/PantryPicker';
+import ProfilePicker from './components/ProfilePicker';
+import RecipeRefinement, { RecipeRefinementHandle } from './components/RecipeRefinement';
+import SubstitutionList from './components/SubstitutionList';
+import { requestRecipeCandidates, requestRecipeStream, requestSubstitutions } from './lib/api';
+import { errorMessage, fromErrorBody } from './lib/apiErrors';
+import { parseLeftovers } from './lib/leftovers';
+import { nutritionWarning } from './lib/nutrition';
+import { getDefaultProfile } from './lib/profiles';
+import { saveRecipe } from './lib/recipeBook';
+import { DEFAULT_RECIPE_OPTIONS, RecipeOptions } from './lib/recipeOptions';
+import { DraftRecipe, parsePartialRecipe } from './lib/partialRecipe';
+import { Recipe, ingredientToString } from './lib/recipe';
+import { QUICK_PREP_MINUTES, QUICK_TOTAL_MINUTES, RecipeIssue, reviewRecipe } from './lib/recipeReview';
+import type { RecipeResult } from './lib/recipes';
+import { Substitution, SubstitutionGroup, substituteIngredient } from './lib/substitutions';
+import { UNIT_SYSTEMS, UnitSystem } from './lib/unitSystems';
 
 export default function Home() {
   const [ingredients, setIngredients] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [recipe, setRecipe] = useState<string | null>(null);
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
+  // The server answered from its cache: the same recipe as last time
+  const [cached, setCached] = useState(false);
+  // Review issues still unresolved after repairs, and those being repaired right now
+  const [issues, setIssues] = useState<RecipeIssue[]>([]);
+  const [repairing, setRepairing] = useState<RecipeIssue[] | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [substitutions, setSubstitutions] = useState<string | null>(null);
+  const [substitutions, setSubstitutions] = useState<SubstitutionGroup[] | null>(null);
   const [isLoadingSubstitutions, setIsLoadingSubstitutions] = useState(false);
   const [selectedIngredients, setSelectedIngredients] = useState<string[]>([]);
   const [availableIngredients, setAvailableIngredients] = useState<string[]>([]);
-  const [filters, setFilters] = useState({
-    diet: 'vegetarian',
-    customDiet: '',
-    quick: false,
-    healthy: true,
-    highProtein: false,
-    cuisine: 'indian',
-    customCuisine: '',
-    allergens: '',
-    difficulty: 1,
-    dishType: 'main',
-    customDishType: '',
-    servings: 1,
-  });
+  const [filters, setFilters] = useState<RecipeOptions>(DEFAULT_RECIPE_OPTIONS);
+  const [optionCount, setOptionCount] = useState(1);
+  const [candidates, setCandidates] = useState<RecipeResult[] | null>(null);
+  const [expandedCandidate, setExpandedCandidate] = useState<number | null>(null);
+  const [draft, setDraft] = useState<DraftRecipe | null>(null);
+  // The request that produced the current recipe, stored alongside it when saved
+  const [generatedFrom, setGeneratedFrom] = useState<{ ingredients: string; options: RecipeOptions } | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  // Bumped for each new recipe so the refinement conversation starts over
+  const [conversation, setConversation] = useState(0);
+  const [stopped, setStopped] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set while a picked substitution rewrites the recipe, so the substitutions stay open
+  const keepSubstitutionsRef = useRef(false);
+  const refinementRef = useRef<RecipeRefinementHandle>(null);
   const [showSubstitutionPrompt, setShowSubstitutionPrompt] = useState(false);
   const [showSubstitutionBox, setShowSubstitutionBox] = useState(false);
 
@@ -50,8 +73,20 @@ export default function Home() {
     // Remove sample recipe loading
   }, []); // Empty dependency array means this runs once on mount
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Start from the default household profile, if one is set. localStorage is only
+  // available after mount.
+  useEffect(() => {
+    const profile = getDefaultProfile();
+    if (profile) setFilters(prev => ({ ...prev, ...profile.preferences }));
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    generate(false);
+  };
+
+  // `regenerate` asks the model again rather than taking the server's cached answer
+  const generate = async (regenerate: boolean) => {
     if (!ingredients.trim()) {
       setError('Where are the ingredients at, bro?');
       return;
@@ -61,18 +96,79 @@ export default function Home() {
     setError(null);
     setRecipe(null);
     setWarning(null);
+    setCached(false);
+    setIssues([]);
+    setRepairing(null);
+    setDraft(null);
+    setStopped(false);
+    setCandidates(null);
+    setExpandedCandidate(null);
+    setGeneratedFrom({ ingredients, options: filters });
+    setConversation(count => count + 1);
+
+    if (optionCount > 1) {
+      try {
+        const results = await requestRecipeCandidates(ingredients, filters, optionCount, regenerate);
+        setCandidates(results);
+        setCached(results.some(result => result.cached));
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to generate recipes'));
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let structured = true;
+    let output = '';
 
     try {
-      const { recipe, warning } = await getRecipeFromGemini(ingredients, filters);
-      setRecipe(recipe);
-      setWarning(warning || null);
+      await requestRecipeStream(ingredients, filters, event => {
+        if (event.type === 'start') {
+          structured = event.structured;
+        } else if (event.type === 'delta') {
+          output += event.text;
+          setDraft(parsePartialRecipe(output, structured));
+        } else if (event.type === 'repairing') {
+          setRepairing(event.issues);
+        } else if (event.type === 'done') {
+          setRecipe(event.recipe);
+          setWarning(event.warning || null);
+          setCached(Boolean(event.cached));
+          setIssues(event.issues);
+          setRepairing(null);
+          setDraft(null);
+        } else if (event.type === 'error') {
+          setError(errorMessage(fromErrorBody(event), 'Failed to generate recipe'));
+        }
+      }, controller.signal, regenerate);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate recipe');
+      if (!controller.signal.aborted) {
+        setError(errorMessage(err, 'Failed to generate recipe'));
+      }
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const pickCandidate = (index: number) => {
+    if (!candidates) return;
+    setRecipe(candidates[index].recipe);
+    setWarning(candidates[index].warning || null);
+    setIssues(candidates[index].issues);
+    setExpandedCandidate(null);
+    setConversation(count => count + 1);
+  };
+
+  // Keeps whatever has streamed in so far on screen
+  const handleStop = () => {
+    abortRef.current?.abort();
+    setStopped(true);
+  };
+
   const toggleFilter = (filter: keyof typeof filters) => {
     setFilters(prev => ({
       ...prev,
@@ -80,70 +176,70 @@ export default function Home() {
     }));
   };
 
-  const handleGetSubstitutions = async () => {
+  const handleGetSubstitutions = async (regenerate = false) => {
     if (!recipe || selectedIngredients.length === 0) return;
     
     setIsLoadingSubstitutions(true);
     setSubstitutions(null);
     
     try {
-      const result = await getSubstitutionsFromGemini(selectedIngredients, filters);
+      // The recipe's own diet and allergens, not whatever the filters have been changed to since
+      const result = await requestSubstitutions(selectedIngredients, generatedFrom?.options ?? filters, regenerate);
       setSubstitutions(result);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate substitutions');
+      setError(errorMessage(err, 'Failed to generate substitutions'));
     } finally {
       setIsLoadingSubstitutions(false);
     }
   };
 
-  // Extract ingredients when recipe is set
+  // Swaps a picked substitution into the recipe, leaving the other substitutions open.
+  // The new recipe is checked again and joins the refinement conversation as a version.
+  const handlePickSubstitution = (line: string, substitution: Substitution) => {
+    if (!recipe) return;
+    const updated = substituteIngredient(recipe, line, substitution);
+    const result: RecipeResult = {
+      recipe: updated,
+      warning: nutritionWarning(updated),
+      issues: reviewRecipe(updated, generatedFrom?.options ?? filters),
+    };
+    keepSubstitutionsRef.current = true;
+    setRecipe(updated);
+    setWarning(result.warning ?? null);
+    setIssues(result.issues);
+    setSubstitutions(prev => {
+      const rest = prev?.filter(group => group.ingredient !== line) ?? [];
+      return rest.length > 0 ? rest : null;
+    });
+    setSelectedIngredients(prev => prev.filter(item => item !== line));
+    setCached(false);
+    refinementRef.current?.addVersion(result, `Use ${substitution.replacement} instead of ${substitution.original}`);
+  };
+
+  // Offer the recipe's ingredients for substitution when a recipe is set
   useEffect(() => {
     if (recipe) {
+      setAvailableIngredients(recipe.ingredients.map(ingredient => ingredientToString(ingredient)));
+      setSavedId(null);
+      if (keepSubstitutionsRef.current) {
+        keepSubstitutionsRef.current = false;
+        return;
+      }
       setShowSubstitutionPrompt(true);
       setShowSubstitutionBox(false);
-      // Split the recipe into lines and find the ingredients section
-      const lines = recipe.split('\n');
-      const ingredientsStartIndex = lines.findIndex(line => 
-        line.toLowerCase().includes('ingredients') || 
-        line.toLowerCase().includes('ingredient list')
-      );
-      
-      if (ingredientsStartIndex !== -1) {
-        let foundNextSection = false;
-        const ingredients = lines
-          .slice(ingredientsStartIndex + 1)
-          .filter((line: string) => {
-            if (foundNextSection) return false;
-            
-            const lowerLine = line.toLowerCase();
-            if (lowerLine.includes('instructions') || 
-                lowerLine.includes('directions') || 
-                lowerLine.includes('method')) {
-              foundNextSection = true;
-              return false;
-            }
-            
-            return line.trim() !== '';
-          })
-          .map((line: string) => line.trim())
-          .filter((line: string) => {
-            // Remove section headers and empty lines
-            const lowerLine = line.toLowerCase();
-            return !lowerLine.includes('ingredients') && 
-                   !lowerLine.includes('ingredient list') &&
-                   line.trim() !== '';
-          })
-          .map((line: string) => {
-            // Remove bullet points, numbers, and extra spaces
-            return line.replace(/^[-*•\d.]+\s*/, '').trim();
-          });
-
-        setAvailableIngredients(ingredients);
-        setSelectedIngredients([]); // Reset selections when new recipe is loaded
-      }
+      setSelectedIngredients([]); // Reset selections when new recipe is loaded
     }
   }, [recipe]);
 
+  const handleSave = () => {
+    if (!recipe || !generatedFrom) return;
+    try {
+      setSavedId(saveRecipe(recipe, generatedFrom.ingredients, generatedFrom.options).id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe');
+    }
+  };
+
   const toggleIngredient = (ingredient: string) => {
     setSelectedIngredients(prev => 
       prev.includes(ingredient)
@@ -159,10 +255,27 @@ export default function Home() {
           {/* Removed title and subtitle from here */}
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-6 print:hidden">
           <InputBox
             value={ingredients}
-            onChange={setIngredients}
+            onChange={value => {
+              setIngredients(value);
+              // Drop pantry priorities the user has since deleted from the text
+              setFilters(prev => ({
+                ...prev,
+                useFirst: prev.useFirst.filter(name => value.toLowerCase().includes(name.toLowerCase())),
+              }));
+            }}
+          />
+          <PantryPicker
+            onFill={(text, useFirst) => {
+              setIngredients(text);
+              setFilters(prev => ({ ...prev, useFirst }));
+            }}
+          />
+          <ProfilePicker
+            current={filters}
+            onApply={preferences => setFilters(prev => ({ ...prev, ...preferences }))}
           />
 
           {/* Row 1: Diet, Cuisine, Dish Type, Number of People */}
@@ -253,13 +366,25 @@ export default function Home() {
                 className="px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               />
             )}
+            {/* Units Dropdown */}
+            <select
+              value={filters.units}
+              onChange={e => setFilters(prev => ({ ...prev, units: e.target.value as UnitSystem }))}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {UNIT_SYSTEMS.map(system => (
+                <option key={system.value} value={system.value}>
+                  {system.label}
+                </option>
+              ))}
+            </select>
           </div>
 
-          {/* Row 2: High Protein, Under 20 Minutes, Healthy, Difficulty */}
+          {/* Row 2: High Protein, Low Carb, Quick, Healthy, Difficulty */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
             <button
               type="button"
-              onClick={() => setFilters(prev => ({ ...prev, highProtein: !prev.highProtein }))}
+              onClick={() => toggleFilter('highProtein')}
               className={`px-4 py-2 rounded-full text-sm font-medium ${
                 filters.highProtein
                   ? 'bg-[#388E3C] text-white'
@@ -268,6 +393,17 @@ export default function Home() {
             >
               High Protein
             </button>
+            <button
+              type="button"
+              onClick={() => toggleFilter('lowCarb')}
+              className={`px-4 py-2 rounded-full text-sm font-medium ${
+                filters.lowCarb
+                  ? 'bg-[#388E3C] text-white'
+                  : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              Low Carb
+            </button>
             <button
               type="button"
               onClick={() => toggleFilter('quick')}
@@ -277,7 +413,7 @@ export default function Home() {
                   : 'bg-gray-100 text-gray-800'
               }`}
             >
-              Under 20 Minutes
+              Quick ({QUICK_PREP_MINUTES} min prep, {QUICK_TOTAL_MINUTES} total)
             </button>
             <button
               type="button"
@@ -312,7 +448,42 @@ export default function Home() {
             </div>
           </div>
 
-          {/* Row 3: Allergens */}
+          {/* Row 3: Macro targets per serving */}
+          <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
+            <div className="flex items-center gap-2">
+              <label htmlFor="maxCalories" className="text-sm font-medium text-gray-700">
+                Max calories per serving:
+              </label>
+              <input
+                type="number"
+                id="maxCalories"
+                min="100"
+                max="3000"
+                step="50"
+                value={filters.maxCalories ?? ''}
+                onChange={e => setFilters(prev => ({ ...prev, maxCalories: parseInt(e.target.value) || null }))}
+                placeholder="Any"
+                className="w-24 px-3 py-2 rounded-full text-sm font-medium bg-gray-100 text-black hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="proteinTarget" className="text-sm font-medium text-gray-700">
+                Protein per serving (g):
+              </label>
+              <input
+                type="number"
+                id="proteinTarget"
+                min="1"
+                max="300"
+                value={filters.proteinTarget ?? ''}
+                onChange={e => setFilters(prev => ({ ...prev, proteinTarget: parseInt(e.target.value) || null }))}
+                placeholder="Any"
+                className="w-24 px-3 py-2 rounded-full text-sm font-medium bg-gray-100 text-black hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          {/* Row 4: Allergens */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
             <input
               type="text"
@@ -323,7 +494,24 @@ export default function Home() {
             />
           </div>
 
-          <div className="flex justify-center">
+          <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
+            <div className="flex items-center gap-2">
+              <label htmlFor="optionCount" className="text-sm font-medium text-gray-700">
+                Options:
+              </label>
+              <select
+                id="optionCount"
+                value={optionCount}
+                onChange={e => setOptionCount(Number(e.target.value))}
+                className="px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {[1, 2, 3, 4, 5].map(count => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 recipe' : `${count} to compare`}
+                  </option>
+                ))}
+              </select>
+            </div>
             <button
               type="submit"
               disabled={isLoading}
@@ -348,13 +536,147 @@ export default function Home() {
           </div>
         )}
 
-        {/* Loading State */}
-        {isLoading && <Loader />}
+        {/* What still doesn't match the request after automatic repairs */}
+        {issues.length > 0 && !error && !isLoading && (
+          <div className="mt-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200 text-yellow-800">
+            <p className="font-semibold">This recipe doesn&apos;t match everything you asked for:</p>
+            <ul className="list-disc list-inside text-sm mt-2 space-y-1">
+              {issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {/* Loading State - until the first section streams in */}
+        {isLoading && !draft?.recipe.title && <Loader />}
+
+        {/* Recipe streaming in, or what arrived before Stop */}
+        {draft && draft.recipe.title && !recipe && (
+          <div className="mt-8 space-y-6">
+            <RecipeCard recipe={draft.recipe} completedSections={isLoading ? draft.completed : undefined} units={filters.units} restrictions={generatedFrom?.options ?? filters} />
+            {isLoading && (
+              <div className="flex justify-center">
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                >
+                  Stop
+                </button>
+              </div>
+            )}
+            {repairing && isLoading && (
+              <p className="text-gray-700 text-center">
+                Fixing {repairing.length === 1 ? 'a problem' : `${repairing.length} problems`} with this recipe: {repairing.map(issue => issue.message).join(' ')}
+              </p>
+            )}
+            {stopped && (
+              <p className="text-yellow-700 text-center text-lg">Stopped. This recipe may be incomplete.</p>
+            )}
+          </div>
+        )}
+
+        {/* Candidates to compare */}
+        {candidates && !isLoading && (
+          <div className="mt-8 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900 text-center">Pick a recipe</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {candidates.map((candidate, index) => (
+                <RecipeCard
+                  key={index}
+                  recipe={candidate.recipe}
+                  compact
+                  leftovers={parseLeftovers(ingredients)}
+                  restrictions={generatedFrom?.options ?? filters}
+                  actions={
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setExpandedCandidate(expandedCandidate === index ? null : index)}
+                        className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                      >
+                        {expandedCandidate === index ? 'Collapse' : 'Expand'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => pickCandidate(index)}
+                        disabled={recipe === candidate.recipe}
+                        className="px-4 py-2 bg-[#388E3C] text-white text-sm rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C] disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {recipe === candidate.recipe ? 'Picked' : 'Pick this one'}
+                      </button>
+                    </>
+                  }
+                />
+              ))}
+            </div>
+            {cached && (
+              <p className="text-sm text-gray-700 text-center">You asked for these before, so they&apos;re the same options as last time.</p>
+            )}
+            <div className="flex justify-center">
+              <button
+                type="button"
+                onClick={() => generate(true)}
+                className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+              >
+                Regenerate
+              </button>
+            </div>
+            {expandedCandidate !== null && (
+              <RecipeCard recipe={candidates[expandedCandidate].recipe} units={filters.units} restrictions={generatedFrom?.options ?? filters} shoppingLeftovers={generatedFrom?.ingredients ?? ingredients} shareable />
+            )}
+          </div>
+        )}
 
         {/* Recipe Output */}
         {recipe && !isLoading && (
           <div className="mt-8 space-y-6">
-            <RecipeCard recipe={recipe} />
+            <RecipeCard recipe={recipe} units={filters.units} restrictions={generatedFrom?.options ?? filters} cookable shoppingLeftovers={generatedFrom?.ingredients ?? ingredients} shareable />
+
+            {cached && !candidates && (
+              <p className="text-sm text-gray-700 text-center">You asked for this before, so it&apos;s the same recipe as last time.</p>
+            )}
+
+            {/* Save to Recipe Book, or ask for a different recipe */}
+            <div className="flex justify-center items-center gap-4">
+              {savedId ? (
+                <>
+                  <span className="text-gray-800 font-medium">Saved!</span>
+                  <Link href={`/recipes/${savedId}`} className="text-[#388E3C] hover:text-[#256029] underline">
+                    View in recipe book
+                  </Link>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C]"
+                >
+                  Save to recipe book
+                </button>
+              )}
+              {!candidates && (
+                <button
+                  type="button"
+                  onClick={() => generate(true)}
+                  className="px-6 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                >
+                  Regenerate
+                </button>
+              )}
+            </div>
+
+            <RecipeRefinement
+              key={conversation}
+              ref={refinementRef}
+              result={{ recipe, warning: warning ?? undefined, issues, cached }}
+              options={generatedFrom?.options ?? filters}
+              onSelect={result => {
+                setRecipe(result.recipe);
+                setWarning(result.warning || null);
+                setIssues(result.issues);
+                setCached(Boolean(result.cached));
+              }}
+            />
             
             {/* Substitution Prompt */}
             {showSubstitutionPrompt && (
@@ -407,7 +729,7 @@ export default function Home() {
             {showSubstitutionBox && (
               <div className="flex justify-center">
                 <button
-                  onClick={handleGetSubstitutions}
+                  onClick={() => handleGetSubstitutions()}
                   disabled={isLoadingSubstitutions || selectedIngredients.length === 0}
                   className="px-6 py-3 bg-[#CF5A81] text-white font-medium rounded-lg hover:bg-[#BF3764] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#D285E0] disabled:opacity-50 disabled:cursor-not-allowed"
                 >
@@ -423,53 +745,24 @@ export default function Home() {
 
             {/* Substitutions Output */}
             {showSubstitutionBox && substitutions && !isLoadingSubstitutions && (
-              <div className="mt-6 p-6 bg-white rounded-lg shadow-sm border border-gray-200">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4">Ingredient Substitutions</h2>
-                <div className="space-y-6">
-                  {substitutions.split(/\n\n+/).map((section, index) => {
-                    const lines = section.split('\n').filter(line => line.trim());
-                    if (lines.length === 0) return null;
-                    const ingredient = lines[0].replace(/^•\s*/, '').trim();
-                    // Omit if ingredient is in the user's input
-                    const userIngredients = ingredients
-                      .split(',')
-                      .map(i => i.trim().toLowerCase())
-                      .filter(Boolean);
-                    if (userIngredients.some(ui => ingredient.toLowerCase().includes(ui))) return null;
-                    // Substitutions: lines that are not empty and not the ingredient line
-                    const subs = lines.slice(1).filter(line => line.trim() !== '');
-                    return (
-                      <div key={index} className="space-y-2">
-                        <div className="font-semibold text-gray-900">{ingredient}</div>
-                        <ul className="list-disc ml-6 space-y-1">
-                          {subs.map((sub, subIdx) => {
-                            // Remove any leading hyphens/dashes/bullets and split substitution and note
-                            const match = sub.match(/^[-•]?\s*(.*?)(\(Note:.*\))?$/i);
-                            return (
-                              <li key={subIdx} className="text-gray-800">
-                                {match ? (
-                                  <>
-                                    <span>{match[1].replace(/^[-•]?\s*/, '').trim()}</span>
-                                    {match[2] && (
-                                      <span className="block text-xs text-gray-500 ml-1">{match[2].replace(/^\(Note:\s*|\)$/g, '')}</span>
-                                    )}
-                                  </>
-                                ) : sub.replace(/^[-•]?\s*/, '')}
-                              </li>
-                            );
-                          })}
-                        </ul>
-                      </div>
-                    );
-                  })}
+              <>
+                <SubstitutionList groups={substitutions} onPick={handlePickSubstitution} />
+                <div className="flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => handleGetSubstitutions(true)}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                  >
+                    Suggest different substitutions
+                  </button>
                 </div>
-              </div>
+              </>
             )}
           </div>
         )}
 
         {/* Empty State - Only show if no recipe and not loading */}
-        {!recipe && !isLoading && !error && (
+        {!recipe && !draft && !candidates && !isLoading && !error && (
           <div className="mt-12 p-6 bg-white rounded-lg shadow-sm border border-gray-200">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Recipe Suggestions</h2>
             <div className="text-gray-500 text-center py-8">
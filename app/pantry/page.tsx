@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ExpiryBadge from '../components/ExpiryBadge';
+import { CookingHistoryEntry, listCookingHistory } from '../lib/cooking';
+import {
+  NewPantryItem,
+  PantryItem,
+  STORAGE_LOCATIONS,
+  addPantryItem,
+  deletePantryItem,
+  listPantryItems,
+  sortBySoonestExpiry,
+  updatePantryItem,
+} from '../lib/pantry';
+
+const emptyItem: NewPantryItem = {
+  name: '',
+  quantity: null,
+  unit: '',
+  location: 'fridge',
+  bestBefore: null,
+};
+
+const inputClass = 'px-3 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+export default function Pantry() {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [newItem, setNewItem] = useState<NewPantryItem>(emptyItem);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<CookingHistoryEntry[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setItems(listPantryItems());
+    setHistory(listCookingHistory());
+  }, []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      addPantryItem(newItem);
+      setItems(listPantryItems());
+      setNewItem(emptyItem);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add item');
+    }
+  };
+
+  const handleQuantityChange = (item: PantryItem, value: string) => {
+    updatePantryItem(item.id, { quantity: value === '' ? null : Math.max(0, Number(value)) });
+    setItems(listPantryItems());
+  };
+
+  const handleDelete = (item: PantryItem) => {
+    deletePantryItem(item.id);
+    setItems(listPantryItems());
+  };
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Pantry</h1>
+
+        {/* Add Item */}
+        <form onSubmit={handleAdd} className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-wrap gap-3 items-end">
+          <input
+            type="text"
+            value={newItem.name}
+            onChange={e => setNewItem(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Item, e.g. spinach"
+            aria-label="Item name"
+            className={`${inputClass} flex-1 min-w-[10rem]`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={newItem.quantity ?? ''}
+            onChange={e => setNewItem(prev => ({ ...prev, quantity: e.target.value === '' ? null : Number(e.target.value) }))}
+            placeholder="Qty"
+            aria-label="Quantity"
+            className={`${inputClass} w-20`}
+          />
+          <input
+            type="text"
+            value={newItem.unit}
+            onChange={e => setNewItem(prev => ({ ...prev, unit: e.target.value }))}
+            placeholder="Unit"
+            aria-label="Unit"
+            className={`${inputClass} w-24`}
+          />
+          <select
+            value={newItem.location}
+            onChange={e => setNewItem(prev => ({ ...prev, location: e.target.value as NewPantryItem['location'] }))}
+            aria-label="Storage location"
+            className={inputClass}
+          >
+            {STORAGE_LOCATIONS.map(location => (
+              <option key={location} value={location}>
+                {location.charAt(0).toUpperCase() + location.slice(1)}
+              </option>
+            ))}
+          </select>
+          <label className="flex flex-col text-xs text-gray-600">
+            Best before
+            <input
+              type="date"
+              value={newItem.bestBefore ?? ''}
+              onChange={e => setNewItem(prev => ({ ...prev, bestBefore: e.target.value || null }))}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C]"
+          >
+            Add
+          </button>
+        </form>
+
+        {error && <p className="text-red-700 text-center text-lg">{error}</p>}
+
+        {/* Items, soonest-expiring first */}
+        {items.length > 0 ? (
+          <ul className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+            {sortBySoonestExpiry(items).map(item => (
+              <li key={item.id} className="flex flex-wrap items-center gap-3 p-3 text-sm text-gray-800">
+                <span className="flex-1 min-w-[8rem] font-medium">{item.name}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={item.quantity ?? ''}
+                  onChange={e => handleQuantityChange(item, e.target.value)}
+                  aria-label={`Quantity of ${item.name}`}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                />
+                <span className="w-16 text-gray-600">{item.unit}</span>
+                <span className="w-16 text-gray-500 capitalize">{item.location}</span>
+                <ExpiryBadge item={item} />
+                <button
+                  type="button"
+                  onClick={() => handleDelete(item)}
+                  className="text-red-700 hover:underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 text-gray-500 text-center">
+            Your pantry is empty. Add what&apos;s in your fridge and cupboards above.
+          </div>
+        )}
+
+        {/* Cooking History */}
+        {history.length > 0 && (
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900 mb-3">Cooking history</h2>
+            <ul className="space-y-3 text-sm text-gray-800">
+              {history.map(entry => (
+                <li key={entry.id}>
+                  <div>
+                    <span className="font-semibold">{entry.title}</span>
+                    <span className="text-gray-500"> · {entry.servings} serving{entry.servings === 1 ? '' : 's'} · {new Date(entry.cookedAt).toLocaleDateString()}</span>
+                  </div>
+                  {entry.used.length > 0 && (
+                    <div className="text-xs text-gray-500">
+                      Used {entry.used.map(used => used.removed
+                        ? `all the ${used.name}`
+                        : `${Number((used.quantity ?? 0).toFixed(2))} ${used.unit} ${used.name}`.replace(/\s+/g, ' ')
+                      ).join(', ')}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
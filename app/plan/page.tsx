@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import InputBox from '../components/InputBox';
+import Loader from '../components/Loader';
+import PantryPicker from '../components/PantryPicker';
+import ProfilePicker from '../components/ProfilePicker';
+import RecipeCard from '../components/RecipeCard';
+import { requestMealPlan, requestMealRecipe } from '../lib/api';
+import { errorMessage } from '../lib/apiErrors';
+import {
+  MAX_MEALS_PER_DAY,
+  MAX_PLAN_DAYS,
+  MealSlot,
+  SavedMealPlan,
+  describeUses,
+  loadMealPlan,
+  saveMealPlan,
+  slotKey,
+} from '../lib/mealPlan';
+import { getDefaultProfile } from '../lib/profiles';
+import { DEFAULT_RECIPE_OPTIONS, RecipeOptions } from '../lib/recipeOptions';
+import { addToShoppingList } from '../lib/shoppingList';
+
+const inputClass = 'px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+function capitalise(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export default function MealPlanner() {
+  const [ingredients, setIngredients] = useState('');
+  const [options, setOptions] = useState<RecipeOptions>(DEFAULT_RECIPE_OPTIONS);
+  const [days, setDays] = useState(3);
+  const [mealsPerDay, setMealsPerDay] = useState(2);
+  const [plan, setPlan] = useState<SavedMealPlan | null>(null);
+  // Set once the saved plan has been read, so we don't overwrite it with the initial null
+  const [loaded, setLoaded] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The slot whose recipe is open, by slotKey
+  const [selected, setSelected] = useState<string | null>(null);
+  // Slots whose recipe is being generated, and the ones that failed
+  const [generating, setGenerating] = useState<string[]>([]);
+  const [slotErrors, setSlotErrors] = useState<Record<string, string>>({});
+  const [addedToList, setAddedToList] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const saved = loadMealPlan();
+    if (saved) {
+      setPlan(saved);
+      setIngredients(saved.ingredients);
+      setOptions(saved.options);
+      setDays(saved.days);
+      setMealsPerDay(saved.meals.length);
+    } else {
+      const profile = getDefaultProfile();
+      if (profile) setOptions(prev => ({ ...prev, ...profile.preferences }));
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveMealPlan(plan);
+  }, [plan, loaded]);
+
+  const handlePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ingredients.trim()) {
+      setError('Where are the ingredients at, bro?');
+      return;
+    }
+    setIsPlanning(true);
+    setError(null);
+    setSelected(null);
+    setSlotErrors({});
+    setAddedToList(false);
+    try {
+      const outline = await requestMealPlan(ingredients, options, days, mealsPerDay);
+      setPlan({ ...outline, ingredients, options, recipes: {}, createdAt: new Date().toISOString() });
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to plan meals'));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // Generates the slot's recipe. Regenerating asks for a different dish from the same
+  // leftovers, so the new title replaces the planned one.
+  const generateSlot = async (slot: MealSlot, regenerate: boolean) => {
+    if (!plan) return;
+    const key = slotKey(slot);
+    const otherTitles = plan.slots.filter(other => slotKey(other) !== key).map(other => other.title);
+    const avoid = regenerate ? [...otherTitles, slot.title] : otherTitles;
+    setGenerating(prev => [...prev, key]);
+    setSlotErrors(prev => ({ ...prev, [key]: '' }));
+    try {
+      const result = await requestMealRecipe(regenerate ? { ...slot, title: '' } : slot, plan.options, avoid.filter(Boolean));
+      setPlan(prev => prev && {
+        ...prev,
+        slots: prev.slots.map(other => (slotKey(other) === key ? { ...other, title: result.recipe.title } : other)),
+        recipes: { ...prev.recipes, [key]: result },
+      });
+    } catch (err) {
+      setSlotErrors(prev => ({ ...prev, [key]: errorMessage(err, 'Failed to generate recipe') }));
+    } finally {
+      setGenerating(prev => prev.filter(other => other !== key));
+    }
+  };
+
+  const handleOpen = (slot: MealSlot) => {
+    const key = slotKey(slot);
+    setSelected(selected === key ? null : key);
+    if (selected !== key && plan && !plan.recipes[key] && !generating.includes(key)) {
+      generateSlot(slot, false);
+    }
+  };
+
+  // Only slots that have been opened have a recipe to shop for
+  const handleAddToList = () => {
+    if (!plan) return;
+    const results = plan.slots.flatMap(slot => plan.recipes[slotKey(slot)] ?? []);
+    addToShoppingList(results.map(({ recipe }) => ({ recipe, servings: recipe.servings })), plan.ingredients);
+    setAddedToList(true);
+  };
+
+  const selectedSlot = plan?.slots.find(slot => slotKey(slot) === selected) ?? null;
+  const selectedResult = selectedSlot && plan ? plan.recipes[slotKey(selectedSlot)] : undefined;
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Meal plan</h1>
+
+        <form onSubmit={handlePlan} className="space-y-6">
+          <InputBox
+            value={ingredients}
+            onChange={setIngredients}
+            placeholder="Everything in your fridge, with amounts where you know them (e.g. 400g chicken, 2 cups cooked rice, spinach)"
+          />
+          <PantryPicker
+            onFill={(text, useFirst) => {
+              setIngredients(text);
+              setOptions(prev => ({ ...prev, useFirst }));
+            }}
+          />
+          <ProfilePicker
+            current={options}
+            onApply={preferences => setOptions(prev => ({ ...prev, ...preferences }))}
+          />
+
+          <div className="flex flex-col sm:flex-row flex-wrap gap-4 justify-center">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              Days:
+              <select value={days} onChange={e => setDays(Number(e.target.value))} className={inputClass}>
+                {Array.from({ length: MAX_PLAN_DAYS }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              Meals a day:
+              <select value={mealsPerDay} onChange={e => setMealsPerDay(Number(e.target.value))} className={inputClass}>
+                {Array.from({ length: MAX_MEALS_PER_DAY }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              Number of people:
+              <input
+                type="number"
+                min="1"
+                max="50"
+                value={options.servings}
+                onChange={e => setOptions(prev => ({ ...prev, servings: Math.min(50, Math.max(1, parseInt(e.target.value) || 1)) }))}
+                className={`w-20 ${inputClass}`}
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-center">
+            <button
+              type="submit"
+              disabled={isPlanning}
+              className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C] disabled:opacity-50"
+            >
+              {isPlanning ? 'Planning…' : plan ? 'Plan again' : 'Plan my meals'}
+            </button>
+          </div>
+        </form>
+
+        {error && <p className="text-red-700 text-center text-2xl">{error}</p>}
+
+        {isPlanning && <Loader />}
+
+        {/* Calendar: one column per day, one row per meal */}
+        {plan && !isPlanning && (
+          <div className="space-y-4">
+            <div className="overflow-x-auto bg-white rounded-lg shadow-sm border border-gray-200">
+              <table className="w-full text-sm text-gray-800 table-fixed min-w-[36rem]">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="p-2 w-24"></th>
+                    {Array.from({ length: plan.days }, (_, index) => (
+                      <th key={index} className="p-2">Day {index + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.meals.map(meal => (
+                    <tr key={meal} className="border-t border-gray-100 align-top">
+                      <th className="p-2 text-left text-gray-500">{capitalise(meal)}</th>
+                      {plan.slots.filter(slot => slot.meal === meal).map(slot => {
+                        const key = slotKey(slot);
+                        return (
+                          <td key={key} className="p-1">
+                            <button
+                              type="button"
+                              onClick={() => handleOpen(slot)}
+                              aria-pressed={selected === key}
+                              className={`w-full h-full text-left p-2 rounded-lg border ${
+                                selected === key ? 'border-[#388E3C] bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                              }`}
+                            >
+                              <span className="block font-medium text-gray-900">{slot.title || 'Nothing planned'}</span>
+                              {slot.uses.length > 0 && (
+                                <span className="block mt-1 text-xs text-gray-600">{describeUses(slot.uses)}</span>
+                              )}
+                              {generating.includes(key) && (
+                                <span className="block mt-1 text-xs text-gray-500">Writing recipe…</span>
+                              )}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {plan.unused.length > 0 && (
+              <p className="text-sm text-gray-700">
+                Not used by this plan: {describeUses(plan.unused)}
+              </p>
+            )}
+
+            {Object.keys(plan.recipes).length > 0 && (
+              <div className="flex justify-center items-center gap-4 text-sm text-gray-800">
+                {addedToList ? (
+                  <span>
+                    Added to your <Link href="/shopping" className="underline text-[#388E3C] hover:text-[#256029]">shopping list</Link>.
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleAddToList}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400"
+                  >
+                    Add the {Object.keys(plan.recipes).length} opened {Object.keys(plan.recipes).length === 1 ? 'recipe' : 'recipes'} to the shopping list
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* The open slot's recipe */}
+        {plan && selectedSlot && !isPlanning && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Day {selectedSlot.day}, {selectedSlot.meal}
+              </h2>
+              <button
+                type="button"
+                onClick={() => generateSlot(selectedSlot, true)}
+                disabled={generating.includes(slotKey(selectedSlot))}
+                className="px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 disabled:opacity-50"
+              >
+                Regenerate
+              </button>
+            </div>
+            {slotErrors[slotKey(selectedSlot)] && (
+              <p className="text-red-700 text-center text-lg">{slotErrors[slotKey(selectedSlot)]}</p>
+            )}
+            {generating.includes(slotKey(selectedSlot)) ? (
+              <Loader />
+            ) : selectedResult && (
+              <>
+                {selectedResult.warning && (
+                  <p className="text-yellow-700 text-center text-lg">{selectedResult.warning}</p>
+                )}
+                {selectedResult.issues.length > 0 && (
+                  <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200 text-yellow-800">
+                    <p className="font-semibold">This recipe doesn&apos;t match everything you asked for:</p>
+                    <ul className="list-disc list-inside text-sm mt-2 space-y-1">
+                      {selectedResult.issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+                    </ul>
+                  </div>
+                )}
+                <RecipeCard
+                  key={selectedResult.recipe.title}
+                  recipe={selectedResult.recipe}
+                  units={plan.options.units}
+                  restrictions={plan.options}
+                  cookable
+                  shoppingLeftovers={plan.ingredients}
+                  shareable
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
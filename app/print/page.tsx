@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { NUTRITION_ROWS, PresentedRecipe, loadPrintJob, presentRecipe } from '../lib/recipeExport';
+
+// A plain, ink-friendly layout of the recipe handed over by RecipeExportActions. Opens
+// the print dialog as soon as it has rendered.
+export default function PrintRecipe() {
+  const [recipe, setRecipe] = useState<PresentedRecipe | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const job = loadPrintJob();
+    if (job) {
+      setRecipe(presentRecipe(job.recipe, job.servings, job.units));
+    } else {
+      setMissing(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (recipe) window.print();
+  }, [recipe]);
+
+  if (missing) {
+    return <p className="max-w-3xl mx-auto py-8 px-4 text-gray-800">There&apos;s no recipe to print. Use Print on a recipe.</p>;
+  }
+  if (!recipe) return null;
+
+  const details = [
+    `Serves ${recipe.servings}`,
+    recipe.prepMinutes !== null ? `Prep ${recipe.prepMinutes} min` : null,
+    recipe.cookMinutes !== null ? `Cook ${recipe.cookMinutes} min` : null,
+    recipe.totalMinutes !== null ? `Total ${recipe.totalMinutes} min` : null,
+    recipe.difficulty !== null ? `Difficulty ${recipe.difficulty}/5` : null,
+  ].filter(Boolean);
+  const nutrition = NUTRITION_ROWS.filter(({ field }) => recipe.nutrition[field] !== null);
+
+  return (
+    <article className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 bg-white text-gray-900 space-y-6 print:p-0 print:max-w-none">
+      <header>
+        <h1 className="text-3xl font-bold">{recipe.title}</h1>
+        <p className="mt-1 text-sm text-gray-600">{details.join(' · ')}</p>
+      </header>
+
+      <section className="break-inside-avoid">
+        <h2 className="text-lg font-semibold mb-2">Ingredients</h2>
+        <ul className="list-disc list-inside space-y-1">
+          {recipe.ingredients.map((ingredient, index) => <li key={index}>{ingredient}</li>)}
+        </ul>
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Instructions</h2>
+        <ol className="list-decimal list-inside space-y-2">
+          {recipe.steps.map((step, index) => <li key={index}>{step}</li>)}
+        </ol>
+      </section>
+
+      {recipe.substitutions.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="text-lg font-semibold mb-2">Substitutions</h2>
+          <ul className="list-disc list-inside space-y-1">
+            {recipe.substitutions.map((substitution, index) => <li key={index}>{substitution}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {recipe.tips.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="text-lg font-semibold mb-2">Tips</h2>
+          <ul className="list-disc list-inside space-y-1">
+            {recipe.tips.map((tip, index) => <li key={index}>{tip}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {nutrition.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="text-lg font-semibold mb-2">Nutrition per serving</h2>
+          <p className="text-sm">
+            {nutrition.map(({ field, label, unit }) => `${label} ${Math.round(recipe.nutrition[field]!)} ${unit}`).join(' · ')}
+          </p>
+        </section>
+      )}
+
+      <button
+        type="button"
+        onClick={() => window.print()}
+        className="px-6 py-2 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#388E3C] print:hidden"
+      >
+        Print again
+      </button>
+    </article>
+  );
+}
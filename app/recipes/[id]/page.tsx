@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import RecipeCard from '../../components/RecipeCard';
+import { SavedRecipe, getSavedRecipe, updateSavedRecipe } from '../../lib/recipeBook';
+
+export default function SavedRecipePage() {
+  const { id } = useParams<{ id: string }>();
+  const [saved, setSaved] = useState<SavedRecipe | null | undefined>(undefined);
+  const [tagInput, setTagInput] = useState('');
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const found = getSavedRecipe(id) ?? null;
+    setSaved(found);
+    setTagInput(found?.tags.join(', ') ?? '');
+  }, [id]);
+
+  const update = (changes: Parameters<typeof updateSavedRecipe>[1]) => {
+    const updated = updateSavedRecipe(id, changes);
+    if (updated) {
+      setSaved(updated);
+      setTagInput(updated.tags.join(', '));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link href="/recipes" className="text-sm text-[#388E3C] hover:text-[#256029] underline">
+          ← Back to recipe book
+        </Link>
+
+        {saved === null && (
+          <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 text-gray-500 text-center">
+            This recipe isn&apos;t in your recipe book. It may have been deleted.
+          </div>
+        )}
+
+        {saved && (
+          <>
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-3 text-sm text-gray-800">
+              <div className="flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={() => update({ favourite: !saved.favourite })}
+                  className={`px-4 py-2 rounded-full text-sm font-medium ${
+                    saved.favourite
+                      ? 'bg-[#388E3C] text-white'
+                      : 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  ★ {saved.favourite ? 'Favourite' : 'Add to favourites'}
+                </button>
+                <span className="text-gray-500">Saved {new Date(saved.savedAt).toLocaleString()}</span>
+              </div>
+              <div><span className="font-semibold">Made from:</span> {saved.ingredients}</div>
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  update({ tags: tagInput.split(',') });
+                }}
+                className="flex gap-2 items-center"
+              >
+                <label htmlFor="tags" className="font-semibold">Tags:</label>
+                <input
+                  id="tags"
+                  type="text"
+                  value={tagInput}
+                  onChange={e => setTagInput(e.target.value)}
+                  placeholder="e.g. weeknight, curry"
+                  className="flex-1 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-1 bg-[#388E3C] text-white rounded-lg hover:bg-[#256029]"
+                >
+                  Save tags
+                </button>
+              </form>
+            </div>
+
+            <RecipeCard recipe={saved.recipe} units={saved.options.units} restrictions={saved.options} cookable shoppingLeftovers={saved.ingredients} shareable />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
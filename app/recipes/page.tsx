@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  SavedRecipe,
+  allTags,
+  deleteSavedRecipe,
+  filterSavedRecipes,
+  listSavedRecipes,
+  updateSavedRecipe,
+} from '../lib/recipeBook';
+
+export default function RecipeBook() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>([]);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setRecipes(listSavedRecipes());
+  }, []);
+
+  const toggleFavourite = (saved: SavedRecipe) => {
+    updateSavedRecipe(saved.id, { favourite: !saved.favourite });
+    setRecipes(listSavedRecipes());
+  };
+
+  const handleDelete = (saved: SavedRecipe) => {
+    if (!window.confirm(`Delete "${saved.recipe.title}" from your recipe book?`)) return;
+    deleteSavedRecipe(saved.id);
+    setRecipes(listSavedRecipes());
+  };
+
+  const tags = allTags(recipes);
+  const visible = filterSavedRecipes(recipes, { query, tag: tag ?? undefined, favouritesOnly });
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Recipe book</h1>
+
+        {/* Search and filters */}
+        <div className="flex flex-col sm:flex-row gap-4 items-center">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search titles, ingredients, steps, tags..."
+            className="w-full px-4 py-2 rounded-full text-sm font-medium bg-gray-100 text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            type="button"
+            onClick={() => setFavouritesOnly(prev => !prev)}
+            className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap ${
+              favouritesOnly
+                ? 'bg-[#388E3C] text-white'
+                : 'bg-gray-100 text-gray-800'
+            }`}
+          >
+            ★ Favourites
+          </button>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map(name => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setTag(tag === name ? null : name)}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  tag === name
+                    ? 'bg-[#388E3C] text-white'
+                    : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                #{name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Saved recipes */}
+        {visible.length > 0 ? (
+          <ul className="space-y-3">
+            {visible.map(saved => (
+              <li key={saved.id} className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex items-start gap-4">
+                <button
+                  type="button"
+                  onClick={() => toggleFavourite(saved)}
+                  aria-label={saved.favourite ? 'Remove from favourites' : 'Add to favourites'}
+                  className={`text-2xl leading-none ${saved.favourite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-400'}`}
+                >
+                  ★
+                </button>
+                <div className="flex-1 min-w-0">
+                  <Link href={`/recipes/${saved.id}`} className="text-lg font-semibold text-gray-900 hover:text-[#388E3C]">
+                    {saved.recipe.title}
+                  </Link>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Saved {new Date(saved.savedAt).toLocaleDateString()} · from {saved.ingredients}
+                  </div>
+                  {saved.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {saved.tags.map(name => (
+                        <span key={name} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">#{name}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(saved)}
+                  className="text-sm text-red-700 hover:underline"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="p-6 bg-white rounded-lg shadow-sm border border-gray-200 text-gray-500 text-center">
+            {recipes.length === 0
+              ? 'No saved recipes yet. Generate one and hit "Save to recipe book".'
+              : 'No saved recipes match your search.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
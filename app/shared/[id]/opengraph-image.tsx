@@ -0,0 +1,40 @@
+import { ImageResponse } from 'next/og';
+import { describeShare, getShare } from '../../lib/shares';
+
+// The preview shown when a share link is pasted into chat or social media
+
+export const alt = 'A recipe shared from leftovers.wiki';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: { id: string } }) {
+  const shared = await getShare(params.id);
+  const title = shared?.recipe.title ?? 'Recipe not found';
+  const details = shared ? describeShare(shared) : 'This share link has expired or never existed.';
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: '#C0E1B6',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 40, fontWeight: 700, color: '#388E3C' }}>leftovers.wiki</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div style={{ display: 'flex', fontSize: title.length > 40 ? 64 : 80, fontWeight: 700, color: '#111827', lineHeight: 1.1 }}>
+            {title}
+          </div>
+          <div style={{ display: 'flex', fontSize: 32, color: '#374151' }}>{details}</div>
+        </div>
+        <div style={{ display: 'flex', fontSize: 28, color: '#256029' }}>Don&apos;t waste it. Remake it.</div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,47 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import RecipeCard from '../../components/RecipeCard';
+import { describeShare, getShare } from '../../lib/shares';
+
+interface SharedRecipePageProps {
+  params: { id: string };
+}
+
+export async function generateMetadata({ params }: SharedRecipePageProps): Promise<Metadata> {
+  const shared = await getShare(params.id);
+  if (!shared) return { title: 'Recipe not found · leftovers.wiki' };
+  const title = `${shared.recipe.title} · leftovers.wiki`;
+  const description = describeShare(shared);
+  // The preview image comes from opengraph-image.tsx next to this page
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: `/shared/${shared.id}`,
+      siteName: 'leftovers.wiki',
+    },
+    twitter: { card: 'summary_large_image', title, description },
+  };
+}
+
+// Read-only: anyone with the link sees the recipe as it was shared
+export default async function SharedRecipePage({ params }: SharedRecipePageProps) {
+  const shared = await getShare(params.id);
+  if (!shared) notFound();
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6]">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <p className="text-sm text-gray-700 print:hidden">
+          Shared on {new Date(shared.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}.{' '}
+          <Link href="/" className="underline text-[#388E3C] hover:text-[#256029]">Make something from your own leftovers</Link>
+        </p>
+        <RecipeCard recipe={shared.recipe} servings={shared.servings} units={shared.units} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { downloadFile } from '../lib/download';
+import {
+  ShoppingListState,
+  buildShoppingList,
+  clearShoppingList,
+  formatShoppingItem,
+  loadShoppingList,
+  removeShoppingSource,
+  shoppingListToMarkdown,
+  shoppingListToText,
+  toggleShoppingItem,
+  updateShoppingList,
+} from '../lib/shoppingList';
+
+const buttonClass = 'px-4 py-2 bg-gray-200 text-gray-800 text-sm rounded-lg hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400';
+
+export default function ShoppingList() {
+  const [list, setList] = useState<ShoppingListState | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setList(loadShoppingList());
+  }, []);
+
+  if (!list) return <div className="min-h-screen bg-[#C0E1B6]" />;
+
+  const aisles = buildShoppingList(list.sources, list.leftovers);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(shoppingListToText(aisles, list.checked));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#C0E1B6] print:bg-white">
+      <div className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">Shopping list</h1>
+
+        {list.sources.length === 0 ? (
+          <p className="text-gray-800">
+            Nothing here yet. Use &ldquo;Add to shopping list&rdquo; on a <Link href="/" className="underline text-[#388E3C] hover:text-[#256029]">recipe</Link> or
+            your <Link href="/plan" className="underline text-[#388E3C] hover:text-[#256029]">meal plan</Link> and what you need to buy shows up here.
+          </p>
+        ) : (
+          <>
+            {/* What the list is for, and what we already have */}
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-3 print:hidden">
+              <h2 className="font-semibold text-gray-900">Recipes</h2>
+              <ul className="space-y-2">
+                {list.sources.map(source => (
+                  <li key={source.id} className="flex items-center justify-between gap-4 text-sm text-gray-800">
+                    <span>{source.recipe.title} <span className="text-gray-500">({source.servings} {source.servings === 1 ? 'serving' : 'servings'})</span></span>
+                    <button
+                      type="button"
+                      onClick={() => setList(removeShoppingSource(source.id))}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <label className="block text-sm font-medium text-gray-700">
+                Leftovers you already have (left off the list):
+                <textarea
+                  value={list.leftovers}
+                  onChange={e => setList(updateShoppingList({ leftovers: e.target.value }))}
+                  className="mt-1 w-full h-20 px-3 py-2 rounded-lg bg-gray-50 border border-gray-300 text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </label>
+            </div>
+
+            {aisles.length === 0 ? (
+              <p className="text-gray-800">Your leftovers cover everything. Nothing to buy!</p>
+            ) : (
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 space-y-4 print:shadow-none print:border-0">
+                {aisles.map(group => (
+                  <section key={group.aisle}>
+                    <h2 className="font-semibold text-gray-900">{group.label}</h2>
+                    <ul className="mt-1 space-y-1">
+                      {group.items.map(item => {
+                        const checked = list.checked.includes(item.key);
+                        return (
+                          <li key={item.key}>
+                            <label className="flex items-start gap-2 text-gray-800" title={`For ${item.recipes.join(', ')}`}>
+                              <input
+                                type="checkbox"
+                                checked={checked}
+                                onChange={() => setList(toggleShoppingItem(item.key))}
+                                className="mt-1 h-4 w-4 text-[#388E3C] border-gray-300 rounded focus:ring-[#388E3C]"
+                              />
+                              <span className={checked ? 'line-through text-gray-400' : ''}>{formatShoppingItem(item)}</span>
+                            </label>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3 justify-center print:hidden">
+              <button type="button" onClick={handleCopy} className={buttonClass}>
+                {copied ? 'Copied!' : 'Copy as text'}
+              </button>
+              <button
+                type="button"
+                onClick={() => downloadFile('shopping-list.md', shoppingListToMarkdown(aisles, list.checked), 'text/markdown')}
+                className={buttonClass}
+              >
+                Download Markdown
+              </button>
+              <button type="button" onClick={() => window.print()} className={buttonClass}>
+                Print
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm('Clear the whole shopping list?')) setList(clearShoppingList());
+                }}
+                className="px-4 py-2 text-sm text-red-600 hover:text-red-800"
+              >
+                Clear list
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}